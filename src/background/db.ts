@@ -7,16 +7,62 @@
  *  games       – one row per GameRecord (minus cardEvents & rawLog for perf)
  *  card_events – one row per CardEvent (foreign key: gameId)
  *  raw_logs    – one row per game: { gameId, entries: IChatEntry[] }
+ *  game_snapshots – one row per game: PackedSnapshots (round snapshots, boards delta-encoded)
+ *  game_replays   – one row per game: { gameId, replay: GameReplay }
+ *  matches     – one row per Bo1/Bo3 Match (derived from games; rebuilt on import)
+ *  in_progress – one RecorderCheckpoint per game still being played
+ *  capture_sessions – one header row per recorded raw WebSocket session
+ *  capture_frames   – one row per raw frame (foreign key: captureId)
  */
 
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import type { CardEvent, CardStats, GameRecord, GamePlayer, IChatEntry, MatchupRow, RoundSnapshot } from '../shared/types';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type {
+  CapturedFrame,
+  CaptureFile,
+  CaptureSession,
+  CardEvent,
+  CardSide,
+  CardStats,
+  CardStatsFilters,
+  DateRange,
+  Deck,
+  DeckFilter,
+  GameFormat,
+  GameRecord,
+  GameReplay,
+  GamePlayer,
+  IChatEntry,
+  FlaggedRound,
+  LeaderMulliganRow,
+  LeaderResourceRow,
+  Match,
+  MatchupRow,
+  OpponentLeaderList,
+  PackedSnapshots,
+  RecorderCheckpoint,
+  ResourceStats,
+  RoundSnapshot,
+  SeenOpponentList,
+} from '../shared/types';
+import { buildSeenOpponentList } from '../shared/opponentList';
+import { packSnapshots, unpackSnapshots } from '../shared/snapshotPacking';
+import { isNaturalEnding } from '../shared/endReason';
+import { firstDeployer } from '../shared/leaderDeploy';
+import { playOrDraw, roundsHoldingInitiative } from '../shared/initiative';
+import { openingHandOf } from '../shared/openingHand';
+import { isFlagged, resourceCurve } from '../shared/resourceCurve';
+import { wilsonInterval, winRateDifference } from '../shared/winStats';
+import { inDateRange } from '../shared/trends';
+import { matchDeck, matchesDeckFilter, seenCards } from '../shared/deckMatch';
+import { manualFormat, matchesFormatFilter } from '../shared/formatDetector';
+import type { ParsedDeck } from '../shared/deckList';
+import { buildMatch, continuesMatch, groupIntoMatches, matchIdFor } from '../shared/matchGrouper';
 
 const DB_NAME = 'kb-tracker';
-const DB_VERSION = 2;
+const DB_VERSION = 8;
 
-// Stored game header (no cardEvents, rawLog or snapshots inline — stored separately)
-export type StoredGame = Omit<GameRecord, 'cardEvents' | 'rawLog' | 'snapshots'>;
+// Stored game header (no cardEvents, rawLog, snapshots or replay inline — stored separately)
+export type StoredGame = Omit<GameRecord, 'cardEvents' | 'rawLog' | 'snapshots' | 'replay'>;
 
 interface KBTrackerDB extends DBSchema {
   games: {
@@ -42,7 +88,37 @@ interface KBTrackerDB extends DBSchema {
   };
   game_snapshots: {
     key: string; // gameId
-    value: { gameId: string; snapshots: RoundSnapshot[] };
+    value: PackedSnapshots;
+  };
+  game_replays: {
+    key: string; // gameId
+    value: { gameId: string; replay: GameReplay };
+  };
+  matches: {
+    key: string; // matchId
+    value: Match;
+    indexes: {
+      by_date: string;
+    };
+  };
+  in_progress: {
+    key: string; // gameId
+    value: RecorderCheckpoint;
+  };
+  capture_sessions: {
+    key: string; // captureId
+    value: CaptureSession;
+  };
+  capture_frames: {
+    key: number; // auto-increment — preserves arrival order
+    value: CapturedFrame & { captureId: string };
+    indexes: {
+      by_capture: string;
+    };
+  };
+  decks: {
+    key: string; // deckId
+    value: Deck;
   };
 }
 
@@ -51,7 +127,7 @@ let _db: IDBPDatabase<KBTrackerDB> | null = null;
 async function getDb(): Promise<IDBPDatabase<KBTrackerDB>> {
   if (_db) return _db;
   _db = await openDB<KBTrackerDB>(DB_NAME, DB_VERSION, {
-    upgrade(db, oldVersion) {
+    upgrade(db, oldVersion, _newVersion, transaction) {
       if (oldVersion < 1) {
         // games store
         const gamesStore = db.createObjectStore('games', { keyPath: 'gameId' });
@@ -73,16 +149,90 @@ async function getDb(): Promise<IDBPDatabase<KBTrackerDB>> {
         // round snapshots store (added in v2)
         db.createObjectStore('game_snapshots', { keyPath: 'gameId' });
       }
+      if (oldVersion < 3) {
+        // Bo1/Bo3 match grouping (added in v3); existing games are grouped below
+        const matchesStore = db.createObjectStore('matches', { keyPath: 'matchId' });
+        matchesStore.createIndex('by_date', 'completedAt');
+        needsMatchRebuild = oldVersion > 0;
+      }
+      if (oldVersion < 4) {
+        // in-progress game checkpoints (added in v4)
+        db.createObjectStore('in_progress', { keyPath: 'gameId' });
+      }
+      if (oldVersion < 5) {
+        // raw WebSocket session captures (added in v5)
+        db.createObjectStore('capture_sessions', { keyPath: 'captureId' });
+        const framesStore = db.createObjectStore('capture_frames', { autoIncrement: true });
+        framesStore.createIndex('by_capture', 'captureId');
+      }
+      if (oldVersion < 6) {
+        // delta-encoded state history for the replay viewer (added in v6)
+        db.createObjectStore('game_replays', { keyPath: 'gameId' });
+      }
+      if (oldVersion < 7) {
+        // round snapshots stored delta-encoded (v7); repack the existing rows.
+        // A failed repack aborts the upgrade, so openDB rejects and the next
+        // getDb() retries it instead of running on half-packed rows
+        packLegacySnapshots(transaction).catch((err) => {
+          console.error('[KB Tracker] packLegacySnapshots failed:', err);
+          // openDB rejects with the abort; nothing else waits on done
+          transaction.done.catch(() => {});
+          try {
+            transaction.abort();
+          } catch {
+            // the failed request already aborted it
+          }
+        });
+      }
+      if (oldVersion < 8) {
+        // deck library (added in v8)
+        db.createObjectStore('decks', { keyPath: 'deckId' });
+      }
     },
   });
+  if (needsMatchRebuild) {
+    needsMatchRebuild = false;
+    await rebuildMatches();
+  }
   return _db;
 }
 
+let needsMatchRebuild = false;
+
+/**
+ * v7 migration: rewrites every game_snapshots row from the plain
+ * { gameId, snapshots } form to PackedSnapshots, inside the upgrade
+ * transaction so no reader ever sees a mix of the two.
+ */
+async function packLegacySnapshots(
+  tx: IDBPTransaction<KBTrackerDB, StoreNames<KBTrackerDB>[], 'versionchange'>
+): Promise<void> {
+  let before = 0;
+  let after = 0;
+  let cursor = await tx.objectStore('game_snapshots').openCursor();
+  while (cursor) {
+    const legacy = cursor.value as unknown as { gameId: string; snapshots?: RoundSnapshot[] };
+    if (Array.isArray(legacy.snapshots)) {
+      const packed = packSnapshots(legacy.gameId, legacy.snapshots);
+      before += JSON.stringify(legacy).length;
+      after += JSON.stringify(packed).length;
+      await cursor.update(packed);
+    }
+    cursor = await cursor.continue();
+  }
+  if (before > 0) console.log(`[KB Tracker] packed round snapshots: ${before} → ${after} chars`);
+}
+
 // ─── Write ───────────────────────────────────────────────────────────────────
 
 export async function saveGameRecord(record: GameRecord): Promise<void> {
   const db = await getDb();
-  const tx = db.transaction(['games', 'card_events', 'raw_logs', 'game_snapshots'], 'readwrite');
+  const tx = db.transaction(['games', 'card_events', 'raw_logs', 'game_snapshots', 'game_replays', 'matches', 'decks'], 'readwrite');
+
+  // Which saved deck the local player's cards came from, if any
+  const you = record.players[0];
+  const seen = seenCards(record.cardEvents, you, openingHandOf(record, you.id));
+  const deck = matchDeck(await tx.objectStore('decks').getAll(), you, seen, record.completedAt);
 
   // 1. Save stripped game header
   const header: StoredGame = {
@@ -91,23 +241,145 @@ export async function saveGameRecord(record: GameRecord): Promise<void> {
     completedAt: record.completedAt,
     format: record.format,
     isLimitedFormat: record.isLimitedFormat,
+    formatDetection: record.formatDetection,
     players: record.players,
     winner: record.winner,
+    endReason: record.endReason,
     rounds: record.rounds,
+    initiative: record.initiative,
+    openingHand: record.openingHand,
+    incomplete: record.incomplete,
+    tracking: record.tracking,
+    ...(deck ? { deck } : {}),
   };
+
+  // Attach to the still-open match between these players, or start a new
+  // one. Incomplete games stay out of matches (see matchGrouper.ts)
+  if (!header.incomplete) {
+    const matchStore = tx.objectStore('matches');
+    const lastMatch = (await matchStore.index('by_date').getAll())
+      .reverse()
+      .find((m) => m.playerNames[0] === header.players[0].name && m.playerNames[1] === header.players[1].name);
+    let matchGames: StoredGame[] = [];
+    let matchId = matchIdFor(header.gameId);
+    if (lastMatch && continuesMatch(lastMatch, header)) {
+      matchId = lastMatch.matchId;
+      for (const id of lastMatch.gameIds) {
+        const g = await tx.objectStore('games').get(id);
+        if (g) matchGames.push(g);
+      }
+    }
+    header.matchId = matchId;
+    header.matchGameNumber = matchGames.length + 1;
+    matchGames = [...matchGames, header];
+    await matchStore.put(buildMatch(matchId, matchGames));
+  }
+
   await tx.objectStore('games').put(header);
 
-  // 2. Save card events
+  // 2. Save card events, replacing any from an earlier save of this game (a
+  //    checkpoint swept as abandoned whose tab later finished the game)
+  const eventStore = tx.objectStore('card_events');
+  let cursor = await eventStore.index('by_game').openCursor(IDBKeyRange.only(record.gameId));
+  while (cursor) {
+    await cursor.delete();
+    cursor = await cursor.continue();
+  }
   for (const evt of record.cardEvents) {
-    await tx.objectStore('card_events').add(evt);
+    await eventStore.add(evt);
   }
 
   // 3. Save raw log
   await tx.objectStore('raw_logs').put({ gameId: record.gameId, entries: record.rawLog });
 
   // 4. Save round snapshots
-  await tx.objectStore('game_snapshots').put({ gameId: record.gameId, snapshots: record.snapshots });
+  await tx.objectStore('game_snapshots').put(packSnapshots(record.gameId, record.snapshots));
+
+  // 5. Save the full state history
+  if (record.replay) await tx.objectStore('game_replays').put({ gameId: record.gameId, replay: record.replay });
+
+  await tx.done;
+}
+
+// ─── In-progress checkpoints ─────────────────────────────────────────────────
+
+export async function saveCheckpoint(cp: RecorderCheckpoint): Promise<void> {
+  const db = await getDb();
+  await db.put('in_progress', cp);
+}
+
+export async function getCheckpoint(gameId: string): Promise<RecorderCheckpoint | null> {
+  const db = await getDb();
+  return (await db.get('in_progress', gameId)) ?? null;
+}
+
+export async function deleteCheckpoint(gameId: string): Promise<void> {
+  const db = await getDb();
+  await db.delete('in_progress', gameId);
+}
+
+/** Checkpoints that haven't been updated for `maxAgeMs` — i.e. abandoned games. */
+export async function getStaleCheckpoints(maxAgeMs: number): Promise<RecorderCheckpoint[]> {
+  const db = await getDb();
+  const cutoff = Date.now() - maxAgeMs;
+  const all = await db.getAll('in_progress');
+  return all.filter((cp) => new Date(cp.updatedAt).getTime() < cutoff);
+}
 
+// ─── Session captures ────────────────────────────────────────────────────────
+
+export async function appendCaptureFrames(
+  captureId: string,
+  url: string,
+  frames: CapturedFrame[]
+): Promise<void> {
+  if (frames.length === 0) return;
+  const db = await getDb();
+  const tx = db.transaction(['capture_sessions', 'capture_frames'], 'readwrite');
+  const sessions = tx.objectStore('capture_sessions');
+  const session: CaptureSession = (await sessions.get(captureId)) ?? {
+    captureId,
+    startedAt: new Date(frames[0].t).toISOString(),
+    updatedAt: new Date(frames[0].t).toISOString(),
+    url,
+    frameCount: 0,
+    totalChars: 0,
+  };
+  for (const f of frames) {
+    await tx.objectStore('capture_frames').add({ captureId, t: f.t, data: f.data });
+    session.frameCount++;
+    session.totalChars += f.data.length;
+  }
+  session.updatedAt = new Date(frames[frames.length - 1].t).toISOString();
+  await sessions.put(session);
+  await tx.done;
+}
+
+export async function getCaptureSessions(): Promise<CaptureSession[]> {
+  const db = await getDb();
+  const all = await db.getAll('capture_sessions');
+  return all.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function getCaptureFile(captureId: string): Promise<CaptureFile | null> {
+  const db = await getDb();
+  const session = await db.get('capture_sessions', captureId);
+  if (!session) return null;
+  const rows = await db.getAllFromIndex('capture_frames', 'by_capture', captureId);
+  return {
+    kind: 'kb-tracker-capture',
+    version: 1,
+    session,
+    frames: rows.map((r) => ({ t: r.t, data: r.data })),
+  };
+}
+
+export async function deleteCapture(captureId: string): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(['capture_sessions', 'capture_frames'], 'readwrite');
+  await tx.objectStore('capture_sessions').delete(captureId);
+  const keys = await tx.objectStore('capture_frames').index('by_capture').getAllKeys(captureId);
+  for (const k of keys) await tx.objectStore('capture_frames').delete(k);
   await tx.done;
 }
 
@@ -186,18 +458,35 @@ export async function getBaseColorList(
   return [...aspects].sort();
 }
 
+/** A win rate's 95% Wilson interval as [low, high] (see winStats.ts) */
+function bounds(wins: number, games: number): [number, number] {
+  const { low, high } = wilsonInterval(wins, games);
+  return [low, high];
+}
+
+/**
+ * Per-card aggregates. `side` picks whose cards are counted: 'you' for the
+ * local player's own cards, 'opponent' for what was played against them.
+ * Leader / base filters always apply to the local player's deck, and win
+ * rates are from the perspective of whoever played the card.
+ */
 export async function getCardStats(
   formatFilter: string,
   playerName?: string,
   leaderId?: string,
-  baseAspect?: string
+  baseAspect?: string,
+  { side = 'you', naturalEndingsOnly = false, dateRange, deckFilter }: CardStatsFilters = {}
 ): Promise<CardStats[]> {
   const db = await getDb();
   let games: StoredGame[] = await db.getAll('games');
-  games = games.filter((g) => !g.hidden);
-  if (formatFilter === 'limited') games = games.filter((g) => g.isLimitedFormat);
-  else if (formatFilter === 'eternal') games = games.filter((g) => g.format === 'open');
-  else if (formatFilter === 'premier') games = games.filter((g) => !g.isLimitedFormat && g.format !== 'open');
+  games = games.filter((g) => !g.hidden && !g.incomplete);
+  if (naturalEndingsOnly) games = games.filter(isNaturalEnding);
+  games = games.filter((g) => inDateRange(g.completedAt, dateRange));
+  games = games.filter((g) => matchesDeckFilter(g, deckFilter));
+  games = games.filter((g) => matchesFormatFilter(g, formatFilter));
+
+  // Games the named player wasn't in have no 'you' side to measure from
+  if (playerName) games = games.filter((g) => g.players.some((p) => p.name === playerName));
 
   // Leader / base-aspect filter (applied to players[0] = local player)
   if (leaderId || baseAspect) {
@@ -225,11 +514,18 @@ export async function getCardStats(
 
   const gameIds = new Set(games.map((g) => g.gameId));
 
+  // Events saved before opponent tracking carry no side marker; an explicit
+  // player-name filter also overrides the recorder's own perspective.
+  const sideOf = (e: CardEvent): CardSide => {
+    if (playerName == null && e.side) return e.side;
+    return e.playerName === gameLocalMap.get(e.gameId) ? 'you' : 'opponent';
+  };
+
   const allEvents = await db.getAll('card_events');
   const filtered = allEvents.filter(
     (e) =>
       gameIds.has(e.gameId) &&
-      (playerName == null || e.playerName === playerName) &&
+      sideOf(e) === side &&
       e.cardId !== '__unknown__'
   );
 
@@ -241,44 +537,67 @@ export async function getCardStats(
     drawnIn: Set<string>;
     wonWhenPlayed: Set<string>;
     wonWhenDrawn: Set<string>;
+    createdIn: Set<string>;
+    wonWhenCreated: Set<string>;
+    openingIn: Set<string>;
+    wonWhenOpening: Set<string>;
+    firstHandIn: Set<string>;
+    mulliganedIn: Set<string>;
     playRoundSum: number;
     playEventCount: number;
     firstSetId?: { set: string; number: number };
   }
   const map = new Map<string, Accum>();
-
-  for (const evt of filtered) {
-    let acc = map.get(evt.cardId);
+  const accumFor = (cardId: string, cardName: string): Accum => {
+    let acc = map.get(cardId);
     if (!acc) {
       acc = {
         stat: {
-          cardId: evt.cardId,
-          cardName: evt.cardName,
+          cardId,
+          cardName,
           played: 0, resourced: 0, activated: 0, drawn: 0, discarded: 0,
-          gamesAppeared: 0, gamesPlayedIn: 0, gamesDrawnIn: 0,
-          winRateWhenPlayed: 0, winRateWhenDrawn: 0,
-          resourceRate: 0, playRate: 0,
-          avgCopiesPerGame: 0, avgRoundPlayed: 0,
+          attached: 0, tokenCreated: 0, tookCaptive: 0, rescued: 0,
+          attacked: 0, dealtDamage: 0, defeated: 0, captured: 0, healed: 0,
+          smuggled: 0, exploited: 0, bountyCollected: 0, deployed: 0,
+          gamesAppeared: 0, gamesPlayedIn: 0, gamesDrawnIn: 0, gamesCreatedIn: 0,
+          gamesWonWhenPlayed: 0, gamesWonWhenDrawn: 0,
+          openingHandGames: 0, firstHandGames: 0, gamesDrawnNotPlayed: 0,
+          winRateWhenPlayed: 0, winRateWhenDrawn: 0, winRateInOpeningHand: 0, winRateDrawnNotPlayed: 0,
+          winRateWhenPlayedLow: 0, winRateWhenDrawnLow: 0, winRateInOpeningHandLow: 0, winRateDrawnNotPlayedLow: 0,
+          winRateWhenPlayedHigh: 1, winRateWhenDrawnHigh: 1, winRateInOpeningHandHigh: 1, winRateDrawnNotPlayedHigh: 1,
+          winRateWhenCreated: 0, winRateWhenCreatedLow: 0, winRateWhenCreatedHigh: 1,
+          playedWinRateDelta: null, playedWinRateDeltaLow: null, playedWinRateDeltaHigh: null,
+          resourceRate: 0, playRate: 0, defeatRate: 0, mulliganRate: 0,
+          avgCopiesPerGame: 0, avgRoundPlayed: 0, avgDamagePerGame: 0,
         },
         appearedIn: new Set(),
         playedIn: new Set(),
         drawnIn: new Set(),
         wonWhenPlayed: new Set(),
         wonWhenDrawn: new Set(),
+        createdIn: new Set(),
+        wonWhenCreated: new Set(),
+        openingIn: new Set(),
+        wonWhenOpening: new Set(),
+        firstHandIn: new Set(),
+        mulliganedIn: new Set(),
         playRoundSum: 0,
         playEventCount: 0,
       };
-      map.set(evt.cardId, acc);
+      map.set(cardId, acc);
     }
+    return acc;
+  };
 
+  for (const evt of filtered) {
+    const acc = accumFor(evt.cardId, evt.cardName);
     if (evt.cardSetId && !acc.firstSetId) acc.firstSetId = evt.cardSetId;
 
     acc.stat[evt.metric] += evt.count;
     acc.appearedIn.add(evt.gameId);
 
     const winner = gameWinnerMap.get(evt.gameId) ?? null;
-    const localPlayer = gameLocalMap.get(evt.gameId) ?? '';
-    const isWin = winner !== null && winner === localPlayer;
+    const isWin = winner !== null && winner === evt.playerName;
 
     if (evt.metric === 'played') {
       acc.playedIn.add(evt.gameId);
@@ -290,6 +609,31 @@ export async function getCardStats(
       acc.drawnIn.add(evt.gameId);
       if (isWin) acc.wonWhenDrawn.add(evt.gameId);
     }
+    if (evt.metric === 'tokenCreated') {
+      acc.createdIn.add(evt.gameId);
+      if (isWin) acc.wonWhenCreated.add(evt.gameId);
+    }
+  }
+
+  // Opening hands are only ever the recording player's own
+  if (side === 'you') {
+    for (const g of games) {
+      const you = playerName ? g.players.find((p) => p.name === playerName) : g.players[0];
+      const hand = you ? openingHandOf(g, you.id) : null;
+      if (!you || !hand) continue;
+      const isWin = g.winner !== null && g.winner === you.name;
+      for (const c of hand.kept) {
+        const acc = accumFor(c.cardId, c.cardName);
+        if (c.cardSetId && !acc.firstSetId) acc.firstSetId = c.cardSetId;
+        acc.openingIn.add(g.gameId);
+        if (isWin) acc.wonWhenOpening.add(g.gameId);
+      }
+      for (const c of hand.drawn) {
+        const acc = accumFor(c.cardId, c.cardName);
+        acc.firstHandIn.add(g.gameId);
+        if (hand.mulliganed) acc.mulliganedIn.add(g.gameId);
+      }
+    }
   }
 
   // Finalise derived stats
@@ -300,28 +644,110 @@ export async function getCardStats(
     s.gamesAppeared = acc.appearedIn.size;
     s.gamesPlayedIn = acc.playedIn.size;
     s.gamesDrawnIn = acc.drawnIn.size;
+    s.gamesCreatedIn = acc.createdIn.size;
+    s.gamesWonWhenPlayed = acc.wonWhenPlayed.size;
+    s.gamesWonWhenDrawn = acc.wonWhenDrawn.size;
+    s.openingHandGames = acc.openingIn.size;
+    s.firstHandGames = acc.firstHandIn.size;
+    s.winRateInOpeningHand = s.openingHandGames > 0 ? acc.wonWhenOpening.size / s.openingHandGames : 0;
+    s.mulliganRate = s.firstHandGames > 0 ? acc.mulliganedIn.size / s.firstHandGames : 0;
     s.winRateWhenPlayed = s.gamesPlayedIn > 0 ? acc.wonWhenPlayed.size / s.gamesPlayedIn : 0;
     s.winRateWhenDrawn = s.gamesDrawnIn > 0 ? acc.wonWhenDrawn.size / s.gamesDrawnIn : 0;
+    [s.winRateWhenPlayedLow, s.winRateWhenPlayedHigh] = bounds(acc.wonWhenPlayed.size, s.gamesPlayedIn);
+    [s.winRateWhenDrawnLow, s.winRateWhenDrawnHigh] = bounds(acc.wonWhenDrawn.size, s.gamesDrawnIn);
+    [s.winRateInOpeningHandLow, s.winRateInOpeningHandHigh] = bounds(acc.wonWhenOpening.size, s.openingHandGames);
+    s.winRateWhenCreated = s.gamesCreatedIn > 0 ? acc.wonWhenCreated.size / s.gamesCreatedIn : 0;
+    [s.winRateWhenCreatedLow, s.winRateWhenCreatedHigh] = bounds(acc.wonWhenCreated.size, s.gamesCreatedIn);
+    // Played against held-but-unplayed: both groups had the card in hand, so
+    // leader and deck quality weigh on each side alike
+    const won = new Set([...acc.wonWhenPlayed, ...acc.wonWhenDrawn, ...acc.wonWhenOpening]);
+    const unplayed = [...new Set([...acc.drawnIn, ...acc.openingIn])].filter((id) => !acc.playedIn.has(id));
+    const unplayedWins = unplayed.filter((id) => won.has(id)).length;
+    s.gamesDrawnNotPlayed = unplayed.length;
+    s.winRateDrawnNotPlayed = unplayed.length > 0 ? unplayedWins / unplayed.length : 0;
+    [s.winRateDrawnNotPlayedLow, s.winRateDrawnNotPlayedHigh] = bounds(unplayedWins, unplayed.length);
+    const diff = winRateDifference(
+      { wins: acc.wonWhenPlayed.size, games: s.gamesPlayedIn },
+      { wins: unplayedWins, games: unplayed.length }
+    );
+    s.playedWinRateDelta = diff?.delta ?? null;
+    s.playedWinRateDeltaLow = diff?.low ?? null;
+    s.playedWinRateDeltaHigh = diff?.high ?? null;
     s.resourceRate = s.drawn > 0 ? s.resourced / s.drawn : 0;
     s.playRate = s.gamesAppeared > 0 ? s.gamesPlayedIn / s.gamesAppeared : 0;
     s.avgCopiesPerGame = s.gamesPlayedIn > 0 ? s.played / s.gamesPlayedIn : 0;
     s.avgRoundPlayed = acc.playEventCount > 0 ? acc.playRoundSum / acc.playEventCount : 0;
+    s.defeatRate = s.played > 0 ? Math.min(1, s.defeated / s.played) : 0;
+    // Leaders are deployed rather than played — fall back to every game they were in
+    const damageGames = s.gamesPlayedIn > 0 ? s.gamesPlayedIn : s.gamesAppeared;
+    s.avgDamagePerGame = damageGames > 0 ? s.dealtDamage / damageGames : 0;
     result.push(s);
   }
 
   return result.sort((a, b) => b.played - a.played);
 }
 
+/** Mulligan rate and post-keep / post-mulligan win rates for each of your leaders. */
+export async function getMulliganStats(
+  formatFilter: string,
+  playerName?: string,
+  naturalEndingsOnly = false,
+  dateRange?: DateRange,
+  deckFilter?: DeckFilter
+): Promise<LeaderMulliganRow[]> {
+  const db = await getDb();
+  let games: StoredGame[] = await db.getAll('games');
+  games = games.filter((g) => !g.hidden && !g.incomplete);
+  if (naturalEndingsOnly) games = games.filter(isNaturalEnding);
+  games = games.filter((g) => inDateRange(g.completedAt, dateRange));
+  games = games.filter((g) => matchesDeckFilter(g, deckFilter));
+  games = games.filter((g) => matchesFormatFilter(g, formatFilter));
+
+  const map = new Map<string, LeaderMulliganRow>();
+  for (const g of games) {
+    const you = playerName ? g.players.find((p) => p.name === playerName) : g.players[0];
+    const hand = you ? openingHandOf(g, you.id) : null;
+    if (!you || !hand) continue;
+
+    let row = map.get(you.leaderId);
+    if (!row) {
+      row = {
+        leaderId: you.leaderId,
+        leaderName: you.leaderName,
+        leaderSetId: you.leaderSetId,
+        games: 0,
+        mulliganRate: 0,
+        kept: { wins: 0, games: 0 },
+        mulliganed: { wins: 0, games: 0 },
+      };
+      map.set(you.leaderId, row);
+    }
+    row.games++;
+    const tally = hand.mulliganed ? row.mulliganed : row.kept;
+    tally.games++;
+    if (g.winner !== null && g.winner === you.name) tally.wins++;
+  }
+
+  for (const row of map.values()) {
+    row.mulliganRate = row.games > 0 ? row.mulliganed.games / row.games : 0;
+  }
+  return [...map.values()].sort((a, b) => b.games - a.games);
+}
+
 export async function getMatchupStats(
   formatFilter: string,
-  playerName?: string
+  playerName?: string,
+  naturalEndingsOnly = false,
+  dateRange?: DateRange,
+  deckFilter?: DeckFilter
 ): Promise<MatchupRow[]> {
   const db = await getDb();
   let games: StoredGame[] = await db.getAll('games');
-  games = games.filter((g) => !g.hidden);
-  if (formatFilter === 'limited') games = games.filter((g) => g.isLimitedFormat);
-  else if (formatFilter === 'eternal') games = games.filter((g) => g.format === 'open');
-  else if (formatFilter === 'premier') games = games.filter((g) => !g.isLimitedFormat && g.format !== 'open');
+  games = games.filter((g) => !g.hidden && !g.incomplete);
+  if (naturalEndingsOnly) games = games.filter(isNaturalEnding);
+  games = games.filter((g) => inDateRange(g.completedAt, dateRange));
+  games = games.filter((g) => matchesDeckFilter(g, deckFilter));
+  games = games.filter((g) => matchesFormatFilter(g, formatFilter));
 
   const map = new Map<string, MatchupRow>();
 
@@ -350,6 +776,39 @@ export async function getMatchupStats(
         draws: 0,
         totalGames: 0,
         winRate: 0,
+        winRateLow: 0,
+        winRateHigh: 1,
+        game1Wins: 0,
+        game1Games: 0,
+        game1WinRate: 0,
+        game1WinRateLow: 0,
+        game1WinRateHigh: 1,
+        postBoardWins: 0,
+        postBoardGames: 0,
+        postBoardWinRate: 0,
+        postBoardWinRateLow: 0,
+        postBoardWinRateHigh: 1,
+        oppDeployedFirstWins: 0,
+        oppDeployedFirstGames: 0,
+        oppDeployedFirstWinRate: 0,
+        oppDeployedFirstWinRateLow: 0,
+        oppDeployedFirstWinRateHigh: 1,
+        youDeployedFirstWins: 0,
+        youDeployedFirstGames: 0,
+        youDeployedFirstWinRate: 0,
+        youDeployedFirstWinRateLow: 0,
+        youDeployedFirstWinRateHigh: 1,
+        onPlayWins: 0,
+        onPlayGames: 0,
+        onPlayWinRate: 0,
+        onPlayWinRateLow: 0,
+        onPlayWinRateHigh: 1,
+        onDrawWins: 0,
+        onDrawGames: 0,
+        onDrawWinRate: 0,
+        onDrawWinRateLow: 0,
+        onDrawWinRateHigh: 1,
+        initiativeRounds: {},
       };
       map.set(key, row);
     }
@@ -362,28 +821,353 @@ export async function getMatchupStats(
     } else {
       row.losses++;
     }
+
+    // Games saved before match grouping count as game 1
+    if ((g.matchGameNumber ?? 1) === 1) {
+      row.game1Games++;
+      if (g.winner === you.name) row.game1Wins++;
+    } else {
+      row.postBoardGames++;
+      if (g.winner === you.name) row.postBoardWins++;
+    }
+
+    const first = firstDeployer(you, opp);
+    if (first === 'opponent') {
+      row.oppDeployedFirstGames++;
+      if (g.winner === you.name) row.oppDeployedFirstWins++;
+    } else if (first === 'you') {
+      row.youDeployedFirstGames++;
+      if (g.winner === you.name) row.youDeployedFirstWins++;
+    }
+
+    const start = playOrDraw(g, you.id);
+    if (start === 'play') {
+      row.onPlayGames++;
+      if (g.winner === you.name) row.onPlayWins++;
+    } else if (start === 'draw') {
+      row.onDrawGames++;
+      if (g.winner === you.name) row.onDrawWins++;
+    }
+    const held = roundsHoldingInitiative(g, you.id);
+    if (held !== null) {
+      const tally = (row.initiativeRounds[held] ??= { wins: 0, games: 0 });
+      tally.games++;
+      if (g.winner === you.name) tally.wins++;
+    }
   }
 
   for (const row of map.values()) {
     row.winRate =
       row.totalGames > 0 ? row.wins / row.totalGames : 0;
+    row.game1WinRate = row.game1Games > 0 ? row.game1Wins / row.game1Games : 0;
+    row.postBoardWinRate = row.postBoardGames > 0 ? row.postBoardWins / row.postBoardGames : 0;
+    row.oppDeployedFirstWinRate = row.oppDeployedFirstGames > 0 ? row.oppDeployedFirstWins / row.oppDeployedFirstGames : 0;
+    row.youDeployedFirstWinRate = row.youDeployedFirstGames > 0 ? row.youDeployedFirstWins / row.youDeployedFirstGames : 0;
+    row.onPlayWinRate = row.onPlayGames > 0 ? row.onPlayWins / row.onPlayGames : 0;
+    row.onDrawWinRate = row.onDrawGames > 0 ? row.onDrawWins / row.onDrawGames : 0;
+    [row.winRateLow, row.winRateHigh] = bounds(row.wins, row.totalGames);
+    [row.game1WinRateLow, row.game1WinRateHigh] = bounds(row.game1Wins, row.game1Games);
+    [row.postBoardWinRateLow, row.postBoardWinRateHigh] = bounds(row.postBoardWins, row.postBoardGames);
+    [row.oppDeployedFirstWinRateLow, row.oppDeployedFirstWinRateHigh] = bounds(row.oppDeployedFirstWins, row.oppDeployedFirstGames);
+    [row.youDeployedFirstWinRateLow, row.youDeployedFirstWinRateHigh] = bounds(row.youDeployedFirstWins, row.youDeployedFirstGames);
+    [row.onPlayWinRateLow, row.onPlayWinRateHigh] = bounds(row.onPlayWins, row.onPlayGames);
+    [row.onDrawWinRateLow, row.onDrawWinRateHigh] = bounds(row.onDrawWins, row.onDrawGames);
+  }
+
+  return [...map.values()].sort((a, b) => b.totalGames - a.totalGames);
+}
+
+/**
+ * Resource curves for you and your opponents, rounds where you left
+ * resources unspent, and how that relates to results per leader.
+ */
+export async function getResourceStats(
+  formatFilter: string,
+  playerName?: string,
+  naturalEndingsOnly = false,
+  dateRange?: DateRange,
+  deckFilter?: DeckFilter
+): Promise<ResourceStats> {
+  const db = await getDb();
+  let games: StoredGame[] = await db.getAll('games');
+  games = games.filter((g) => !g.hidden && !g.incomplete);
+  if (naturalEndingsOnly) games = games.filter(isNaturalEnding);
+  games = games.filter((g) => inDateRange(g.completedAt, dateRange));
+  games = games.filter((g) => matchesDeckFilter(g, deckFilter));
+  games = games.filter((g) => matchesFormatFilter(g, formatFilter));
+  if (playerName) games = games.filter((g) => g.players.some((p) => p.name === playerName));
+
+  const packed = new Map((await db.getAll('game_snapshots')).map((row) => [row.gameId, row]));
+
+  interface RoundAccum { games: number; youTotal: number; oppTotal: number; youUnspent: number[]; oppUnspent: number[] }
+  const rounds = new Map<number, RoundAccum>();
+  interface LeaderAccum { row: LeaderResourceRow; winUnspent: number[]; lossUnspent: number[] }
+  const leaders = new Map<string, LeaderAccum>();
+  const flagged: FlaggedRound[] = [];
+  const average = (xs: number[]): number | null => (xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+  let counted = 0;
+
+  for (const g of games) {
+    const row = packed.get(g.gameId);
+    if (!row) continue;
+    const snaps = unpackSnapshots(row);
+    if (snaps.length === 0) continue;
+    // Snapshots are ordered [local player, opponent]; a player-name filter may pick the other seat
+    const youSide: 0 | 1 = playerName && g.players[1].name === playerName ? 1 : 0;
+    const you = g.players[youSide];
+    const opp = g.players[1 - youSide];
+    const youCurve = resourceCurve(snaps, youSide);
+    const oppCurve = resourceCurve(snaps, youSide === 0 ? 1 : 0);
+    const won = g.winner === null ? null : g.winner === you.name;
+    counted++;
+
+    youCurve.forEach((r, i) => {
+      const o = oppCurve[i];
+      let acc = rounds.get(r.round);
+      if (!acc) {
+        acc = { games: 0, youTotal: 0, oppTotal: 0, youUnspent: [], oppUnspent: [] };
+        rounds.set(r.round, acc);
+      }
+      acc.games++;
+      acc.youTotal += r.total;
+      acc.oppTotal += o.total;
+      if (r.unspent !== null) acc.youUnspent.push(r.unspent);
+      if (o.unspent !== null) acc.oppUnspent.push(o.unspent);
+    });
+
+    let lead = leaders.get(you.leaderId);
+    if (!lead) {
+      lead = {
+        row: {
+          leaderId: you.leaderId,
+          leaderName: you.leaderName || you.leaderId,
+          leaderSetId: you.leaderSetId,
+          games: 0,
+          avgUnspentInWins: null,
+          avgUnspentInLosses: null,
+          wasteful: { wins: 0, games: 0 },
+          efficient: { wins: 0, games: 0 },
+        },
+        winUnspent: [],
+        lossUnspent: [],
+      };
+      leaders.set(you.leaderId, lead);
+    }
+    lead.row.games++;
+    const unspent = youCurve.map((r) => r.unspent).filter((u): u is number => u !== null);
+    if (won === true) lead.winUnspent.push(...unspent);
+    if (won === false) lead.lossUnspent.push(...unspent);
+    // Games without timeline data can't say whether anything was wasted
+    if (unspent.length > 0) {
+      const tally = youCurve.some(isFlagged) ? lead.row.wasteful : lead.row.efficient;
+      tally.games++;
+      if (won) tally.wins++;
+    }
+
+    for (const r of youCurve.filter(isFlagged)) {
+      flagged.push({
+        gameId: g.gameId,
+        completedAt: g.completedAt,
+        yourLeaderName: you.leaderName || you.leaderId,
+        opponentLeaderName: opp.leaderName || opp.leaderId,
+        round: r.round,
+        unspent: r.unspent!,
+        total: r.total,
+        won,
+      });
+    }
+  }
+
+  return {
+    games: counted,
+    rounds: [...rounds.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([round, acc]) => ({
+        round,
+        games: acc.games,
+        youTotal: acc.youTotal / acc.games,
+        oppTotal: acc.oppTotal / acc.games,
+        youUnspent: average(acc.youUnspent),
+        oppUnspent: average(acc.oppUnspent),
+      })),
+    leaders: [...leaders.values()]
+      .map(({ row, winUnspent, lossUnspent }) => ({
+        ...row,
+        avgUnspentInWins: average(winUnspent),
+        avgUnspentInLosses: average(lossUnspent),
+      }))
+      .sort((a, b) => b.games - a.games),
+    flagged: flagged.sort((a, b) => b.completedAt.localeCompare(a.completedAt) || a.round - b.round),
+  };
+}
+
+/** Cards the opponent revealed in a single game. */
+export async function getSeenOpponentList(
+  gameId: string,
+  playerName?: string
+): Promise<SeenOpponentList | null> {
+  const db = await getDb();
+  const game = await db.get('games', gameId);
+  if (!game) return null;
+  const opp = playerName
+    ? game.players.find((p) => p.name !== playerName)
+    : game.players[1];
+  if (!opp) return null;
+  const events = await db.getAllFromIndex('card_events', 'by_game', gameId);
+  const snapRow = await db.get('game_snapshots', gameId);
+  return buildSeenOpponentList(gameId, opp, events, snapRow ? unpackSnapshots(snapRow) : []);
+}
+
+/**
+ * Per-opponent-leader union of every card seen across all games against that
+ * leader, so common builds can be prepped for.
+ */
+export async function getOpponentLeaderLists(
+  formatFilter: string,
+  playerName?: string
+): Promise<OpponentLeaderList[]> {
+  const db = await getDb();
+  let games: StoredGame[] = await db.getAll('games');
+  games = games.filter((g) => !g.hidden && !g.incomplete);
+  games = games.filter((g) => matchesFormatFilter(g, formatFilter));
+
+  const [allEvents, allSnaps] = await Promise.all([
+    db.getAll('card_events'),
+    db.getAll('game_snapshots'),
+  ]);
+  const eventsByGame = new Map<string, CardEvent[]>();
+  for (const e of allEvents) {
+    if (!eventsByGame.has(e.gameId)) eventsByGame.set(e.gameId, []);
+    eventsByGame.get(e.gameId)!.push(e);
+  }
+  const snapsByGame = new Map(allSnaps.map((s) => [s.gameId, unpackSnapshots(s)]));
+
+  const map = new Map<string, OpponentLeaderList>();
+  for (const g of games) {
+    if (playerName && !g.players.some((p) => p.name === playerName)) continue;
+    const opp = playerName
+      ? g.players.find((p) => p.name !== playerName)
+      : g.players[1];
+    if (!opp || !opp.leaderId) continue;
+
+    const seen = buildSeenOpponentList(g.gameId, opp, eventsByGame.get(g.gameId) ?? [], snapsByGame.get(g.gameId) ?? []);
+
+    let row = map.get(opp.leaderId);
+    if (!row) {
+      row = {
+        leaderId: opp.leaderId,
+        leaderName: opp.leaderName,
+        leaderSetId: opp.leaderSetId,
+        totalGames: 0,
+        bases: [],
+        cards: [],
+      };
+      map.set(opp.leaderId, row);
+    }
+    row.totalGames++;
+
+    const base = row.bases.find((b) => b.baseId === opp.baseId);
+    if (base) base.games++;
+    else row.bases.push({ baseId: opp.baseId, baseName: opp.baseName, baseSetId: opp.baseSetId, games: 1 });
+
+    for (const c of seen.cards) {
+      const existing = row.cards.find((x) => x.cardId === c.cardId);
+      if (existing) {
+        existing.copies = Math.max(existing.copies, c.copies);
+        existing.gamesSeen++;
+      } else {
+        row.cards.push({ ...c, gamesSeen: 1 });
+      }
+    }
+  }
+
+  for (const row of map.values()) {
+    row.bases.sort((a, b) => b.games - a.games);
+    row.cards.sort((a, b) => b.gamesSeen - a.gamesSeen || b.copies - a.copies);
   }
 
   return [...map.values()].sort((a, b) => b.totalGames - a.totalGames);
 }
 
+export async function getMatches(): Promise<Match[]> {
+  const db = await getDb();
+  const all = await db.getAllFromIndex('matches', 'by_date');
+  return all.reverse();
+}
+
+/**
+ * Regroups every stored game into matches from scratch. Used after imports
+ * (which can interleave with existing games) and when upgrading to schema v3.
+ */
+export async function rebuildMatches(): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(['games', 'matches'], 'readwrite');
+  const games = await tx.objectStore('games').getAll();
+  const { matches, assignments } = groupIntoMatches(games);
+
+  await tx.objectStore('matches').clear();
+  for (const m of matches) await tx.objectStore('matches').put(m);
+  for (const g of games) {
+    const a = assignments.get(g.gameId);
+    if (!a) {
+      // An incomplete game saved into a match before they were left out
+      if (g.matchId === undefined) continue;
+      const { matchId: _id, matchGameNumber: _n, ...rest } = g;
+      await tx.objectStore('games').put(rest);
+      continue;
+    }
+    if (g.matchId === a.matchId && g.matchGameNumber === a.matchGameNumber) continue;
+    await tx.objectStore('games').put({ ...g, ...a });
+  }
+  await tx.done;
+}
+
 export async function getSnapshots(gameId: string): Promise<RoundSnapshot[]> {
   const db = await getDb();
   const row = await db.get('game_snapshots', gameId);
-  return row?.snapshots ?? [];
+  return row ? unpackSnapshots(row) : [];
+}
+
+export async function getReplay(gameId: string): Promise<GameReplay | null> {
+  const db = await getDb();
+  const row = await db.get('game_replays', gameId);
+  return row?.replay ?? null;
+}
+
+export async function getRawLog(gameId: string): Promise<IChatEntry[]> {
+  const db = await getDb();
+  const row = await db.get('raw_logs', gameId);
+  return row?.entries ?? [];
 }
 
 export async function deleteGame(gameId: string): Promise<void> {
   const db = await getDb();
-  const tx = db.transaction(['games', 'card_events', 'raw_logs', 'game_snapshots'], 'readwrite');
+  const tx = db.transaction(['games', 'card_events', 'raw_logs', 'game_snapshots', 'game_replays', 'matches'], 'readwrite');
+
+  // Re-summarise the game's match without it (or drop the match if now empty)
+  const header = await tx.objectStore('games').get(gameId);
+  const match = header?.matchId ? await tx.objectStore('matches').get(header.matchId) : undefined;
+  if (match) {
+    const remaining: StoredGame[] = [];
+    for (const id of match.gameIds) {
+      if (id === gameId) continue;
+      const g = await tx.objectStore('games').get(id);
+      if (g) remaining.push(g);
+    }
+    if (remaining.length === 0) {
+      await tx.objectStore('matches').delete(match.matchId);
+    } else {
+      await tx.objectStore('matches').put(buildMatch(match.matchId, remaining));
+      for (let i = 0; i < remaining.length; i++) {
+        await tx.objectStore('games').put({ ...remaining[i], matchGameNumber: i + 1 });
+      }
+    }
+  }
+
   await tx.objectStore('games').delete(gameId);
   await tx.objectStore('raw_logs').delete(gameId);
   await tx.objectStore('game_snapshots').delete(gameId);
+  await tx.objectStore('game_replays').delete(gameId);
 
   // Delete card events for this game
   const eventStore = tx.objectStore('card_events');
@@ -409,23 +1193,12 @@ export async function trimGames(maxGames: number): Promise<number> {
   return toDelete.length;
 }
 
-export async function updateGameFormat(
-  gameId: string,
-  formatMode: 'premier' | 'limited' | 'eternal'
-): Promise<void> {
+export async function updateGameFormat(gameId: string, format: GameFormat): Promise<void> {
   const db = await getDb();
   const game = await db.get('games', gameId);
   if (!game) return;
-  if (formatMode === 'limited') {
-    game.isLimitedFormat = true;
-    game.format = 'premier';
-  } else if (formatMode === 'eternal') {
-    game.isLimitedFormat = false;
-    game.format = 'open';
-  } else {
-    game.isLimitedFormat = false;
-    game.format = 'premier';
-  }
+  game.isLimitedFormat = format === 'limited';
+  game.formatDetection = manualFormat(format);
   await db.put('games', game);
 }
 
@@ -437,14 +1210,21 @@ export async function toggleGameHidden(gameId: string, hidden: boolean): Promise
   await db.put('games', game);
 }
 
+/** Exports and cloud sync carry round snapshots unpacked */
+function toSnapshotEntry(row: PackedSnapshots): { gameId: string; snapshots: RoundSnapshot[] } {
+  return { gameId: row.gameId, snapshots: unpackSnapshots(row) };
+}
+
 export async function exportAll(): Promise<string> {
   const db = await getDb();
   const games     = await db.getAll('games');
   const events    = await db.getAll('card_events');
   const rawLogs   = await db.getAll('raw_logs');
-  const snapshots = await db.getAll('game_snapshots');
+  const snapshots = (await db.getAll('game_snapshots')).map(toSnapshotEntry);
+  const replays   = await db.getAll('game_replays');
+  const decks     = await db.getAll('decks');
   return JSON.stringify(
-    { exportedAt: new Date().toISOString(), games, events, rawLogs, snapshots },
+    { exportedAt: new Date().toISOString(), games, events, rawLogs, snapshots, replays, decks },
     null,
     2
   );
@@ -460,31 +1240,47 @@ export async function getAllForSync(): Promise<{
   snapshots: { gameId: string; snapshots: RoundSnapshot[] }[];
 }> {
   const db = await getDb();
-  const [games, events, snapshots] = await Promise.all([
+  const [games, events, packed] = await Promise.all([
     db.getAll('games'),
     db.getAll('card_events'),
     db.getAll('game_snapshots'),
   ]);
-  return { games, events, snapshots };
+  return { games, events, snapshots: packed.map(toSnapshotEntry) };
 }
 
+/**
+ * Adds exported games and decks that aren't stored yet. A deck whose ID is
+ * already in the library is kept as it is here.
+ */
 export async function importGames(
   games: StoredGame[],
   events: CardEvent[],
   rawLogs: { gameId: string; entries: IChatEntry[] }[] = [],
-  snapshots: { gameId: string; snapshots: RoundSnapshot[] }[] = []
-): Promise<{ imported: number; skipped: number }> {
+  snapshots: { gameId: string; snapshots: RoundSnapshot[] }[] = [],
+  replays: { gameId: string; replay: GameReplay }[] = [],
+  decks: Deck[] = []
+): Promise<{ imported: number; skipped: number; decksImported: number }> {
   const db = await getDb();
   const existingKeys = new Set(await db.getAllKeys('games'));
   let imported = 0;
   let skipped = 0;
 
+  // Decks first, so the games below can be matched against them
+  const existingDecks = new Set(await db.getAllKeys('decks'));
+  let decksImported = 0;
+  for (const deck of decks) {
+    if (existingDecks.has(deck.deckId)) continue;
+    await db.put('decks', deck);
+    existingDecks.add(deck.deckId);
+    decksImported++;
+  }
+
   for (const game of games) {
     if (existingKeys.has(game.gameId)) {
       skipped++;
       continue;
     }
-    const tx = db.transaction(['games', 'card_events', 'raw_logs', 'game_snapshots'], 'readwrite');
+    const tx = db.transaction(['games', 'card_events', 'raw_logs', 'game_snapshots', 'game_replays'], 'readwrite');
     await tx.objectStore('games').put(game);
 
     const gameEvents = events.filter((e) => e.gameId === game.gameId);
@@ -496,12 +1292,92 @@ export async function importGames(
     if (log) await tx.objectStore('raw_logs').put(log);
 
     const snap = snapshots.find((s) => s.gameId === game.gameId);
-    if (snap) await tx.objectStore('game_snapshots').put(snap);
+    if (snap) await tx.objectStore('game_snapshots').put(packSnapshots(snap.gameId, snap.snapshots));
+
+    const replay = replays.find((r) => r.gameId === game.gameId);
+    if (replay) await tx.objectStore('game_replays').put(replay);
 
     await tx.done;
     imported++;
     existingKeys.add(game.gameId);
   }
 
-  return { imported, skipped };
+  if (imported > 0) await rebuildMatches();
+  if (imported > 0 || decksImported > 0) {
+    // Deck references from another library mean nothing here
+    await rematchDecks();
+  }
+
+  return { imported, skipped, decksImported };
+}
+
+// ─── Deck library ────────────────────────────────────────────────────────────
+
+export async function getDecks(): Promise<Deck[]> {
+  const db = await getDb();
+  const all = await db.getAll('decks');
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Adds a decklist to the library: as version 1 of a new deck, or as the next
+ * version of `deckId`. Every game is then matched again.
+ */
+export async function saveDeckVersion(list: ParsedDeck, name: string, deckId?: string): Promise<Deck> {
+  const db = await getDb();
+  const existing = deckId ? await db.get('decks', deckId) : undefined;
+  const deck: Deck = existing ?? { deckId: crypto.randomUUID(), name, versions: [] };
+  deck.versions.push({
+    version: deck.versions.length + 1,
+    importedAt: new Date().toISOString(),
+    leader: list.leader,
+    base: list.base,
+    cards: list.cards,
+    sideboard: list.sideboard,
+  });
+  await db.put('decks', deck);
+  await rematchDecks();
+  return deck;
+}
+
+export async function deleteDeck(deckId: string): Promise<void> {
+  const db = await getDb();
+  await db.delete('decks', deckId);
+  await rematchDecks();
+}
+
+/**
+ * Matches every stored game against the deck library again (see
+ * deckMatch.ts) and returns how many games have a deck.
+ */
+export async function rematchDecks(): Promise<number> {
+  const db = await getDb();
+  const [games, events, decks] = await Promise.all([
+    db.getAll('games'),
+    db.getAll('card_events'),
+    db.getAll('decks'),
+  ]);
+  const eventsByGame = new Map<string, CardEvent[]>();
+  for (const e of events) {
+    const list = eventsByGame.get(e.gameId);
+    if (list) list.push(e);
+    else eventsByGame.set(e.gameId, [e]);
+  }
+
+  const changed: StoredGame[] = [];
+  let matched = 0;
+  for (const g of games) {
+    const you = g.players[0];
+    const seen = seenCards(eventsByGame.get(g.gameId) ?? [], you, openingHandOf(g, you.id));
+    const deck = matchDeck(decks, you, seen, g.completedAt);
+    if (deck) matched++;
+    if (JSON.stringify(deck ?? null) === JSON.stringify(g.deck ?? null)) continue;
+    const { deck: _old, ...rest } = g;
+    changed.push(deck ? { ...rest, deck } : rest);
+  }
+
+  const tx = db.transaction('games', 'readwrite');
+  for (const g of changed) await tx.store.put(g);
+  await tx.done;
+  return matched;
 }
@@ -7,8 +7,14 @@
  */
 
 import type { AuthState, ExtMessage, SyncStatus } from '../shared/types';
+import { GameRecorder } from '../shared/gameRecorder';
 import {
   saveGameRecord,
+  saveCheckpoint,
+  getCheckpoint,
+  deleteCheckpoint,
+  getStaleCheckpoints,
+  appendCaptureFrames,
   getRecentGames,
   getGameDetail,
   getCardStats,
@@ -43,6 +49,33 @@ function broadcastSyncStatus(): void {
     .catch(() => { /* no listeners open — that's fine */ });
 }
 
+// ─── Abandoned games ──────────────────────────────────────────────────────────
+
+/** A checkpoint untouched for this long belongs to a game nobody is playing any more. */
+const ABANDONED_AFTER_MS = 30 * 60 * 1000;
+/** Minimum gap between abandoned-game sweeps triggered by checkpoint writes. */
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+let lastSweepAt = 0;
+
+/**
+ * Saves every stale in-progress checkpoint as an incomplete game record (or a
+ * timeout win when the opponent had disconnected).
+ */
+async function saveAbandonedGames(): Promise<void> {
+  lastSweepAt = Date.now();
+  const stale = await getStaleCheckpoints(ABANDONED_AFTER_MS);
+  for (const cp of stale) {
+    const record = GameRecorder.fromCheckpoint(cp, () => {}).finalizeIncomplete();
+    if (record) {
+      await saveGameRecord(record);
+      console.log(`[KB Tracker] Abandoned game saved as ${record.incomplete ? 'incomplete' : record.endReason}:`, cp.gameId);
+    }
+    await deleteCheckpoint(cp.gameId);
+  }
+}
+
+saveAbandonedGames().catch((err) => console.error('[KB Tracker] saveAbandonedGames failed:', err));
+
 // webextension-polyfill: returning a Promise from the listener keeps the
 // message channel open automatically — no need for sendResponse or return true.
 browser.runtime.onMessage.addListener(
@@ -64,8 +97,30 @@ async function handleMessage(message: ExtMessage): Promise<ExtMessage | null> {
     case 'GAME_STATE':
       return null;
 
+    case 'GAME_CHECKPOINT': {
+      await saveCheckpoint(message.payload);
+      if (Date.now() - lastSweepAt > SWEEP_INTERVAL_MS) await saveAbandonedGames();
+      return null;
+    }
+
+    case 'GET_GAME_CHECKPOINT': {
+      const checkpoint = await getCheckpoint(message.gameId);
+      return { type: 'GET_GAME_CHECKPOINT_RESPONSE', checkpoint };
+    }
+
+    case 'CLEAR_GAME_CHECKPOINT': {
+      await deleteCheckpoint(message.gameId);
+      return null;
+    }
+
+    case 'CAPTURE_FRAMES': {
+      await appendCaptureFrames(message.captureId, message.url, message.frames);
+      return null;
+    }
+
     case 'GAME_RECORD_SAVED': {
       await saveGameRecord(message.payload);
+      await deleteCheckpoint(message.payload.gameId);
       console.log('[KB Tracker] Game record saved:', message.payload.gameId);
 
       // Auto-sync to Firestore if signed in and sync is enabled
@@ -79,8 +134,8 @@ async function handleMessage(message: ExtMessage): Promise<ExtMessage | null> {
           const snapEntry = record.snapshots?.length
             ? { gameId: record.gameId, snapshots: record.snapshots }
             : undefined;
-          // Build a StoredGame (strip cardEvents/rawLog/snapshots)
-          const { cardEvents: _ce, rawLog: _rl, snapshots: _sn, ...storedGame } = record;
+          // Build a StoredGame (strip cardEvents/rawLog/snapshots/replay)
+          const { cardEvents: _ce, rawLog: _rl, snapshots: _sn, replay: _rp, ...storedGame } = record;
           (async () => {
             try {
               syncStatus = { ...syncStatus, syncing: true, error: null };
@@ -119,10 +174,11 @@ async function handleMessage(message: ExtMessage): Promise<ExtMessage | null> {
 
     case 'GET_CARD_STATS': {
       const stats = await getCardStats(
-        message.options.limitedOnly ?? false,
+        message.options.limitedOnly ? 'limited' : '',
         message.options.playerName,
         message.options.leaderId,
-        message.options.baseId
+        message.options.baseAspect,
+        { side: message.options.side, naturalEndingsOnly: message.options.naturalEndingsOnly }
       );
       console.log('[KB Tracker] GET_CARD_STATS: sending', stats.length, 'stats to dashboard');
       return { type: 'GET_CARD_STATS_RESPONSE', stats };
@@ -137,8 +193,9 @@ async function handleMessage(message: ExtMessage): Promise<ExtMessage | null> {
 
     case 'GET_MATCHUP_STATS': {
       const stats = await getMatchupStats(
-        message.options.limitedOnly ?? false,
-        message.options.playerName
+        message.options.limitedOnly ? 'limited' : '',
+        message.options.playerName,
+        message.options.naturalEndingsOnly
       );
       return { type: 'GET_MATCHUP_STATS_RESPONSE', stats };
     }
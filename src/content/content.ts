@@ -10,12 +10,16 @@
  *  3. Parse them with socketParser, feed to a GameRecorder instance.
  *  4. When a game completes, send the GameRecord to the background SW for
  *     persistence via browser.runtime.sendMessage.
+ *  5. Optionally render the live overlay (overlay.ts) while a game runs.
+ *  6. Optionally capture every raw frame for offline replay (capture mode).
  */
 
 import browser from 'webextension-polyfill';
 import { parseFrame, extractGameState } from '../shared/socketParser';
 import { GameRecorder } from '../shared/gameRecorder';
-import type { ExtMessage, GameRecord } from '../shared/types';
+import { LiveOverlay } from './overlay';
+import { applyFormatMode } from '../shared/formatDetector';
+import type { CapturedFrame, ExtMessage, FormatMode, GameRecord, IGameState, LiveGameView } from '../shared/types';
 // The WebSocket interceptor runs as a separate MAIN-world content script
 // declared in manifest.json. It patches window.WebSocket before Socket.IO
 // initialises and forwards frames here via window.postMessage.
@@ -24,13 +28,19 @@ import type { ExtMessage, GameRecord } from '../shared/types';
 // ─── Tracking enabled flag ───────────────────────────────────────────────────
 
 let trackingEnabled = true;
-let forceFormat: 'premier' | 'limited' | 'eternal' = 'premier';
+let formatMode: FormatMode = 'auto';
+let overlayEnabled = false;
+let captureEnabled = false;
 
-browser.storage.local.get(['trackingEnabled', 'formatMode']).then((res) => {
+browser.storage.local.get(['trackingEnabled', 'formatMode', 'overlayEnabled', 'captureEnabled']).then((res) => {
   trackingEnabled = res['trackingEnabled'] !== false;
-  forceFormat = (res['formatMode'] as 'premier' | 'limited' | 'eternal') || 'premier';
+  formatMode = (res['formatMode'] as FormatMode) || 'auto';
+  overlayEnabled = res['overlayEnabled'] === true;
+  captureEnabled = res['captureEnabled'] === true;
   console.debug('[KB Tracker] tracking enabled on load:', trackingEnabled);
-  console.debug('[KB Tracker] format mode on load:', forceFormat);
+  console.debug('[KB Tracker] format mode on load:', formatMode);
+  console.debug('[KB Tracker] overlay enabled on load:', overlayEnabled);
+  console.debug('[KB Tracker] capture enabled on load:', captureEnabled);
 });
 
 browser.storage.onChanged.addListener((changes, area) => {
@@ -40,11 +50,84 @@ browser.storage.onChanged.addListener((changes, area) => {
     console.debug('[KB Tracker] tracking toggled:', trackingEnabled);
   }
   if ('formatMode' in changes) {
-    forceFormat = (changes['formatMode'].newValue as 'premier' | 'limited' | 'eternal') || 'premier';
-    console.debug('[KB Tracker] format mode changed:', forceFormat);
+    formatMode = (changes['formatMode'].newValue as FormatMode) || 'auto';
+    console.debug('[KB Tracker] format mode changed:', formatMode);
+  }
+  if ('overlayEnabled' in changes) {
+    overlayEnabled = changes['overlayEnabled'].newValue === true;
+    if (!overlayEnabled) overlay.destroy();
+    console.debug('[KB Tracker] overlay toggled:', overlayEnabled);
+  }
+  if ('captureEnabled' in changes) {
+    captureEnabled = changes['captureEnabled'].newValue === true;
+    if (!captureEnabled) flushCapture();
+    console.debug('[KB Tracker] capture toggled:', captureEnabled);
   }
 });
 
+// ─── Session capture ─────────────────────────────────────────────────────────
+
+/** Frames are shipped to the SW in batches rather than one message per frame. */
+const CAPTURE_FLUSH_MS = 2000;
+const CAPTURE_MAX_BATCH = 200;
+/** One capture per page load; turning capture off and on again continues it. */
+const captureId = `capture-${Date.now()}`;
+let captureBuffer: CapturedFrame[] = [];
+let captureTimer: ReturnType<typeof setTimeout> | null = null;
+
+function captureFrame(data: string, t: number): void {
+  captureBuffer.push({ t, data });
+  if (captureBuffer.length >= CAPTURE_MAX_BATCH) {
+    flushCapture();
+  } else if (captureTimer === null) {
+    captureTimer = setTimeout(flushCapture, CAPTURE_FLUSH_MS);
+  }
+}
+
+function flushCapture(): void {
+  if (captureTimer !== null) clearTimeout(captureTimer);
+  captureTimer = null;
+  if (captureBuffer.length === 0) return;
+  const frames = captureBuffer;
+  captureBuffer = [];
+  browser.runtime.sendMessage({ type: 'CAPTURE_FRAMES', captureId, url: location.href, frames } as ExtMessage)
+    .catch((err) => console.warn('[KB Tracker] Could not store captured frames:', err));
+}
+
+window.addEventListener('pagehide', flushCapture);
+
+// ─── Live overlay ────────────────────────────────────────────────────────────
+
+const overlay = new LiveOverlay();
+/** Games whose historical matchup record has already been requested */
+const recordRequested = new Set<string>();
+
+async function requestMatchupRecord(view: LiveGameView): Promise<void> {
+  recordRequested.add(view.gameId);
+  const [you, opp] = view.players;
+  try {
+    const resp = await browser.runtime.sendMessage({
+      type: 'GET_MATCHUP_STATS',
+      options: {},
+    } as ExtMessage) as ExtMessage | undefined;
+    if (resp?.type !== 'GET_MATCHUP_STATS_RESPONSE') return;
+    const row = resp.stats.find(
+      (r) => r.yourLeaderId === you.leaderId && r.opponentLeaderId === opp.leaderId
+    );
+    overlay.setMatchupRecord(view.gameId, row ?? null);
+  } catch (err) {
+    console.warn('[KB Tracker] Could not load matchup record for overlay:', err);
+  }
+}
+
+function updateOverlay(recorder: GameRecorder): void {
+  if (!overlayEnabled) return;
+  const view = recorder.getLiveView();
+  if (!view) return;
+  overlay.update(view);
+  if (!recordRequested.has(view.gameId)) requestMatchupRecord(view);
+}
+
 // ─── Step 2: Manage game recorders ──────────────────────────────────────────────────────
 
 // Map of gameId → active recorder. Multiple games can theoretically overlap
@@ -54,15 +137,13 @@ const recorders = new Map<string, GameRecorder>();
 async function handleGameComplete(record: GameRecord): Promise<void> {
   if (!trackingEnabled) {
     console.log('[KB Tracker] Tracking disabled — discarding completed game:', record.gameId);
+    browser.runtime.sendMessage({ type: 'CLEAR_GAME_CHECKPOINT', gameId: record.gameId } as ExtMessage)
+      .catch(() => { /* context invalidated — the stale checkpoint is swept later */ });
     return;
   }
 
-  // Apply manual format override from popup setting
-  if (forceFormat === 'limited') {
-    record = { ...record, isLimitedFormat: true };
-  } else if (forceFormat === 'eternal') {
-    record = { ...record, format: 'open' };
-  }
+  // The popup's format setting only fills in when detection was unsure
+  record = applyFormatMode(record, formatMode);
   console.log('[KB Tracker] Game complete:', record.gameId, 'Winner:', record.winner);
 
   const msg: ExtMessage = {
@@ -75,11 +156,91 @@ async function handleGameComplete(record: GameRecord): Promise<void> {
     console.debug('[KB Tracker] Record acknowledged:', response);
   } catch (err) {
     // Extension was reloaded/updated while the content script was still live.
-    // The game record is lost for this session but we should not throw.
+    // The final result is lost, but the last checkpoint is kept and later
+    // saved as an incomplete game.
     console.warn('[KB Tracker] Could not send record — extension context invalidated. Reload the page to re-attach.', err);
   }
 }
 
+// ─── Checkpointing ───────────────────────────────────────────────────────────
+
+/** Trailing delay so a burst of state updates produces a single checkpoint. */
+const CHECKPOINT_DELAY_MS = 1000;
+const checkpointTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function scheduleCheckpoint(recorder: GameRecorder, gameId: string): void {
+  if (!recorder.hasLocalPlayer || checkpointTimers.has(gameId)) return;
+  checkpointTimers.set(gameId, setTimeout(() => {
+    checkpointTimers.delete(gameId);
+    if (recorder.isCompleted) return;
+    browser.runtime.sendMessage({ type: 'GAME_CHECKPOINT', payload: recorder.toCheckpoint() } as ExtMessage)
+      .catch((err) => console.warn('[KB Tracker] Could not checkpoint game:', gameId, err));
+  }, CHECKPOINT_DELAY_MS));
+}
+
+function cancelCheckpoint(gameId: string): void {
+  const timer = checkpointTimers.get(gameId);
+  if (timer !== undefined) clearTimeout(timer);
+  checkpointTimers.delete(gameId);
+}
+
+/** Games that already finished on this page — later post-game states are ignored */
+const finishedGames = new Set<string>();
+
+/** States that arrived while a new game's checkpoint was being looked up */
+const pendingStates = new Map<string, IGameState[]>();
+
+/**
+ * Resumes the recorder for `gameId` from its checkpoint (page reload or
+ * reconnect), or starts a fresh one. Queued states are replayed in order.
+ */
+async function resumeOrCreateRecorder(gameId: string): Promise<void> {
+  let recorder: GameRecorder | null = null;
+  try {
+    const resp = await browser.runtime.sendMessage({ type: 'GET_GAME_CHECKPOINT', gameId } as ExtMessage) as ExtMessage | undefined;
+    if (resp?.type === 'GET_GAME_CHECKPOINT_RESPONSE' && resp.checkpoint) {
+      recorder = GameRecorder.fromCheckpoint(resp.checkpoint, handleGameComplete);
+      console.log('[KB Tracker] resumed game from checkpoint:', gameId, 'round', resp.checkpoint.roundNumber);
+    }
+  } catch (err) {
+    console.warn('[KB Tracker] Could not look up checkpoint for game:', gameId, err);
+  }
+
+  const queued = pendingStates.get(gameId) ?? [];
+  pendingStates.delete(gameId);
+
+  if (!recorder) {
+    // Don't create a recorder for a game that's already over — this prevents
+    // a phantom 0-event record when the server sends a post-game state update
+    // after we already finished and removed the recorder from the map.
+    if (queued[0]?.winners?.length > 0) return;
+    console.debug('[KB Tracker] creating recorder for game:', gameId);
+    recorder = new GameRecorder(gameId, handleGameComplete);
+  }
+
+  recorders.set(gameId, recorder);
+  for (const state of queued) {
+    if (!ingestState(recorder, state)) break;
+  }
+}
+
+/** Feeds one state to a live recorder. Returns false once the game is over. */
+function ingestState(recorder: GameRecorder, state: IGameState): boolean {
+  const gameId = state.id;
+  const done = recorder.ingest(state);
+  if (done) {
+    console.debug('[KB Tracker] recorder finished for game:', gameId);
+    cancelCheckpoint(gameId);
+    recorders.delete(gameId);
+    finishedGames.add(gameId);
+    overlay.destroy();
+    return false;
+  }
+  scheduleCheckpoint(recorder, gameId);
+  updateOverlay(recorder);
+  return true;
+}
+
 // ─── Step 3: Listen for WebSocket messages from the interceptor ──────────────
 
 window.addEventListener('message', (event: MessageEvent) => {
@@ -90,6 +251,8 @@ window.addEventListener('message', (event: MessageEvent) => {
   const raw: string = event.data.data;
   if (typeof raw !== 'string') return;
 
+  if (captureEnabled) captureFrame(raw, typeof event.data.ts === 'number' ? event.data.ts : Date.now());
+
   const frame = parseFrame(raw);
   if (!frame) return;
   if (frame.type === 'other') return; // non-event frames (ping/pong/etc)
@@ -111,38 +274,40 @@ window.addEventListener('message', (event: MessageEvent) => {
 
   const { id: gameId } = state;
 
-  // Remove completed recorders (keep memory clean)
-  if (recorders.has(gameId)) {
-    const rec = recorders.get(gameId)!;
-    if (rec.isCompleted) {
-      recorders.delete(gameId);
-      return;
-    }
-  } else {
-    // Don't create a recorder for a game that's already over — this prevents
-    // a phantom 0-event record when the server sends a post-game state update
-    // after we already finished and removed the recorder from the map.
-    if (state.winners && state.winners.length > 0) return;
+  if (finishedGames.has(gameId)) return;
 
-    // New game — create recorder unconditionally.
-    // Don't gate on state.started: it may be false on reconnect or lobby
-    // pre-game state, meaning we'd never create the recorder at all.
-    if (!trackingEnabled) {
-      console.debug('[KB Tracker] Tracking disabled — skipping recorder for game:', gameId);
-      return;
-    }
-    console.debug('[KB Tracker] creating recorder for game:', gameId);
-    recorders.set(gameId, new GameRecorder(gameId, handleGameComplete));
+  // Checkpoint lookup for this game still in flight — queue behind it
+  const pending = pendingStates.get(gameId);
+  if (pending) {
+    pending.push(state);
+    return;
   }
 
   const recorder = recorders.get(gameId);
-  if (!recorder) return;
+  if (recorder) {
+    // Remove completed recorders (keep memory clean)
+    if (recorder.isCompleted) {
+      recorders.delete(gameId);
+      return;
+    }
+    ingestState(recorder, state);
+    return;
+  }
 
-  const done = recorder.ingest(state);
-  if (done) {
-    console.debug('[KB Tracker] recorder finished for game:', gameId);
-    recorders.delete(gameId);
+  // New game (or one we were tracking before a reload) — create a recorder
+  // unconditionally. Don't gate on state.started: it may be false on
+  // reconnect or lobby pre-game state, meaning we'd never create it at all.
+  // A finished game is still looked up, in case it ended during a reload.
+  if (!trackingEnabled) {
+    console.debug('[KB Tracker] Tracking disabled — skipping recorder for game:', gameId);
+    return;
   }
+  pendingStates.set(gameId, [state]);
+  resumeOrCreateRecorder(gameId).catch((err) => {
+    // Drop the queue so the game's next state starts over
+    pendingStates.delete(gameId);
+    console.warn('[KB Tracker] Could not start recorder for game:', gameId, err);
+  });
 });
 
 console.debug('[KB Tracker] Content script loaded');
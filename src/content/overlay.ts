@@ -0,0 +1,174 @@
+/**
+ * overlay.ts
+ *
+ * Optional in-game overlay rendered on the Karabast page.
+ *
+ * Everything lives inside a closed shadow root so the page's styles can't
+ * leak in and ours can't leak out. The overlay is purely presentational:
+ * content.ts feeds it a LiveGameView after every ingest and the historical
+ * matchup record once per game.
+ */
+
+import type { LiveGameView, MatchupRow } from '../shared/types';
+
+const STYLE = `
+  :host { all: initial; }
+  .panel {
+    position: fixed;
+    right: 12px;
+    bottom: 12px;
+    z-index: 2147483647;
+    width: 220px;
+    max-height: 60vh;
+    overflow-y: auto;
+    background: rgba(13, 15, 20, 0.92);
+    border: 1px solid #2a2d38;
+    border-radius: 6px;
+    color: #e8eaf0;
+    font: 11px 'Segoe UI', system-ui, sans-serif;
+    box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+  }
+  .panel.collapsed .body { display: none; }
+  .head {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    padding: 5px 8px;
+    border-bottom: 1px solid #2a2d38;
+    cursor: pointer;
+    user-select: none;
+  }
+  .title { color: #ffe81f; font-weight: 700; letter-spacing: 0.04em; }
+  .round { color: #7a7e90; }
+  .body { padding: 6px 8px 8px; }
+  .section { margin-bottom: 8px; }
+  .section:last-child { margin-bottom: 0; }
+  .label {
+    font-size: 9px;
+    text-transform: uppercase;
+    letter-spacing: 0.1em;
+    color: #7a7e90;
+    margin-bottom: 3px;
+  }
+  .win { color: #4caf68; }
+  .loss { color: #e05252; }
+  .muted { color: #7a7e90; }
+  .hp { display: flex; justify-content: space-between; font-weight: 600; margin-bottom: 2px; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li { display: flex; justify-content: space-between; gap: 6px; line-height: 1.5; }
+  li .n { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+`;
+
+const COLOR_YOU = '#4caf50';
+const COLOR_OPP = '#e07060';
+
+function escHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function hpSparkline(view: LiveGameView): string {
+  const W = 204, H = 44, pad = 3;
+  const pts = view.baseHp;
+  if (pts.length === 0) return '';
+  const maxV = Math.max(...pts.flatMap((p) => [p.youHp, p.oppHp]), 1);
+  const x = (i: number): number => pad + (pts.length > 1 ? (i / (pts.length - 1)) * (W - 2 * pad) : (W - 2 * pad) / 2);
+  const y = (v: number): number => pad + (H - 2 * pad) * (1 - v / maxV);
+  const line = (vals: number[], color: string): string =>
+    `<polyline points="${vals.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ')}" fill="none" stroke="${color}" stroke-width="1.5"/>`;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${W}" height="${H}" style="display:block">`;
+  for (const idx of view.roundStarts) {
+    if (idx === 0) continue;
+    const xi = x(idx).toFixed(1);
+    svg += `<line x1="${xi}" y1="0" x2="${xi}" y2="${H}" stroke="#2a2d38" stroke-dasharray="2,2"/>`;
+  }
+  svg += line(pts.map((p) => p.youHp), COLOR_YOU);
+  svg += line(pts.map((p) => p.oppHp), COLOR_OPP);
+  svg += `</svg>`;
+  return svg;
+}
+
+export class LiveOverlay {
+  private host: HTMLDivElement | null = null;
+  private root: ShadowRoot | null = null;
+  private collapsed = false;
+  private view: LiveGameView | null = null;
+  private record: MatchupRow | null = null;
+
+  /** Show the latest game state, mounting the overlay on first use. */
+  public update(view: LiveGameView): void {
+    if (this.view?.gameId !== view.gameId) this.record = null;
+    this.view = view;
+    this.render();
+  }
+
+  /** Historical record for the current matchup (null = never played). */
+  public setMatchupRecord(gameId: string, record: MatchupRow | null): void {
+    if (this.view?.gameId !== gameId) return;
+    this.record = record;
+    this.render();
+  }
+
+  public destroy(): void {
+    this.host?.remove();
+    this.host = null;
+    this.root = null;
+    this.view = null;
+    this.record = null;
+  }
+
+  private mount(): ShadowRoot | null {
+    if (this.root) return this.root;
+    // Content scripts run at document_start — wait until there's a body
+    if (!document.body) return null;
+    this.host = document.createElement('div');
+    this.host.id = 'kb-tracker-overlay';
+    this.root = this.host.attachShadow({ mode: 'closed' });
+    document.body.appendChild(this.host);
+    return this.root;
+  }
+
+  private render(): void {
+    const view = this.view;
+    if (!view) return;
+    const root = this.mount();
+    if (!root) return;
+
+    const [you, opp] = view.players;
+    const latest = view.baseHp[view.baseHp.length - 1];
+
+    const rec = this.record;
+    const recordHtml = rec && rec.totalGames > 0
+      ? `<span class="win">${rec.wins}W</span> · <span class="loss">${rec.losses}L</span>` +
+        (rec.draws > 0 ? ` · <span class="muted">${rec.draws}D</span>` : '') +
+        ` <span class="${rec.winRate >= 0.5 ? 'win' : 'loss'}">(${(rec.winRate * 100).toFixed(0)}%)</span>`
+      : `<span class="muted">No previous games</span>`;
+
+    const cardsHtml = view.opponentCards.length > 0
+      ? `<ul>${view.opponentCards
+          .map((c) => `<li><span class="n">${escHtml(c.cardName)}</span><span class="muted">${c.copies}×</span></li>`)
+          .join('')}</ul>`
+      : `<span class="muted">Nothing revealed yet</span>`;
+
+    root.innerHTML =
+      `<style>${STYLE}</style>` +
+      `<div class="panel${this.collapsed ? ' collapsed' : ''}">` +
+      `<div class="head"><span class="title">KB TRACKER</span><span class="round">Round ${Math.max(1, view.round)}</span></div>` +
+      `<div class="body">` +
+      `<div class="section"><div class="label">${escHtml(you.leaderName || you.leaderId)} vs ${escHtml(opp.leaderName || opp.leaderId)}</div>${recordHtml}</div>` +
+      `<div class="section"><div class="label">Base HP</div>` +
+      (latest
+        ? `<div class="hp"><span style="color:${COLOR_YOU}">You ${latest.youHp}</span><span style="color:${COLOR_OPP}">Opp ${latest.oppHp}</span></div>`
+        : '') +
+      hpSparkline(view) +
+      `</div>` +
+      `<div class="section"><div class="label">Opponent has shown</div>${cardsHtml}</div>` +
+      `</div>` +
+      `</div>`;
+
+    root.querySelector('.head')!.addEventListener('click', () => {
+      this.collapsed = !this.collapsed;
+      this.render();
+    });
+  }
+}
@@ -1,32 +1,76 @@
 import type {
+  CaptureFile,
   CardEvent,
+  CardSummary,
+  DateRange,
+  Deck,
+  DeckCard,
+  DeckFilter,
+  DeckVersion,
+  CardSide,
   CardStats,
+  GameFormat,
+  GamePlayer,
   GameRecord,
+  GameReplay,
+  IChatEntry,
+  IGameState,
+  LeaderMulliganRow,
+  LeaderResourceRow,
   LeaderOption,
+  Match,
   MatchupRow,
+  OpponentLeaderList,
   PlayerSnapshot,
+  ResourceStats,
   RoundSnapshot,
   AuthState,
   SyncStatus,
   ExtMessage,
+  WinTally,
 } from '../shared/types';
 import { cardImageUrl } from '../shared/cardUtils';
 import { formatLogEntry } from '../shared/logParser';
 import {
   getRecentGames,
+  getDecks,
+  saveDeckVersion,
+  deleteDeck,
+  getMatches,
   getCardStats,
   getMatchupStats,
+  getMulliganStats,
+  getResourceStats,
   getLeaderList,
   getBaseColorList,
   getSnapshots,
+  getReplay,
+  getRawLog,
+  getSeenOpponentList,
+  getOpponentLeaderLists,
   deleteGame,
   trimGames,
   updateGameFormat,
   toggleGameHidden,
   exportAll,
   importGames,
+  getCaptureSessions,
+  getCaptureFile,
+  deleteCapture,
   type StoredGame,
 } from '../background/db';
+import { parseCaptureFile, replayFrames } from '../shared/sessionReplayer';
+import { toPlayerSnapshot } from '../shared/gameRecorder';
+import { decodeSeries } from '../shared/stateDelta';
+import { END_REASON_LABELS, isNaturalEnding } from '../shared/endReason';
+import { playOrDraw, roundsHoldingInitiative } from '../shared/initiative';
+import { UNSPENT_FLAG_THRESHOLD } from '../shared/resourceCurve';
+import { wilsonInterval } from '../shared/winStats';
+import { gamesPerWeek, inDateRange, rollingWinRate } from '../shared/trends';
+import { isSameCard, parseDeckList, type ParsedDeck } from '../shared/deckList';
+import { matchesDeckFilter } from '../shared/deckMatch';
+import { diffDeckVersions, type DeckDiff, type DeckLineChange } from '../shared/deckDiff';
+import { FORMAT_LABELS, formatOf, matchesFormatFilter } from '../shared/formatDetector';
 import { loadSettings, saveSettings, DEFAULT_SETTINGS, type KBSettings } from '../shared/settings';
 import browser from 'webextension-polyfill';
 
@@ -62,6 +106,26 @@ function pct(n: number): string {
   return (n * 100).toFixed(1) + '%';
 }
 
+/** "41.2–78.9%" — a 95% interval as text */
+function ciText(low: number, high: number): string {
+  return `${(low * 100).toFixed(1)}–${pct(high)}`;
+}
+
+/** Band for a win rate's 95% interval; placed inside a bar track or a .ci-bar */
+function ciRange(low: number, high: number): string {
+  return `<div class="ci-range" style="left:${(low * 100).toFixed(1)}%;width:${((high - low) * 100).toFixed(1)}%"></div>`;
+}
+
+/** Error bar under a win rate: the 95% interval with the observed rate marked */
+function ciBar(rate: number, low: number, high: number): string {
+  return (
+    `<div class="ci-bar" title="95%: ${ciText(low, high)}">` +
+    ciRange(low, high) +
+    `<div class="ci-point" style="left:${(rate * 100).toFixed(1)}%"></div>` +
+    `</div>`
+  );
+}
+
 function formatDate(iso: string): string {
   const d = new Date(iso);
   return d.toLocaleDateString() + ' ' + d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -117,6 +181,7 @@ tabs.forEach((btn) => {
     btn.classList.add('active');
     const tabId = `tab-${btn.dataset.tab}`;
     document.getElementById(tabId)?.classList.add('active');
+    if (btn.dataset.tab === 'tools') loadCaptures();
   });
 });
 
@@ -181,22 +246,42 @@ async function loadOverview(): Promise<void> {
   const player = (document.getElementById('ov-player-name') as HTMLInputElement).value.trim() || undefined;
 
   let games = (await getRecentGames(5000)) as GameSummary[];
-  games = games.filter((g) => !g.hidden);
-  if (formatFilter === 'limited') games = games.filter((g) => g.isLimitedFormat);
-  else if (formatFilter === 'eternal') games = games.filter((g) => g.format === 'open');
-  else if (formatFilter === 'premier') games = games.filter((g) => !g.isLimitedFormat && g.format !== 'open');
+  games = games.filter((g) => !g.hidden && !g.incomplete);
+  if (_settings.naturalEndingsOnly) games = games.filter(isNaturalEnding);
+  games = games.filter((g) => matchesFormatFilter(g, formatFilter));
+  games = games.filter((g) => inDateRange(g.completedAt, currentDateRange()));
+  const deckFilter = currentDeckFilter();
+  games = games.filter((g) => matchesDeckFilter(g, deckFilter));
 
   _allGames = games;
 
   const you = games.map((g) => player ? g.players.find((p) => p.name === player) ?? g.players[0] : g.players[0]);
 
+  _ovTrendGames = games
+    .map((g, i) => ({
+      completedAt: g.completedAt,
+      leaderId: you[i].leaderId,
+      leaderName: you[i].leaderName || you[i].leaderId,
+      won: g.winner === you[i].name,
+    }))
+    .reverse();
+  fillTrendLeaderSelect();
+  renderTrends();
+
   const wins = games.filter((g, i) => g.winner === you[i].name).length;
   const losses = games.filter((g, i) => g.winner !== null && g.winner !== you[i].name).length;
   const draws = games.filter((g) => g.winner === null).length;
   const total = games.length;
   const winRate = total > 0 ? wins / total : 0;
-  const limitedGames = games.filter((g) => g.isLimitedFormat).length;
-  const eternalGames = games.filter((g) => g.format === 'open').length;
+  const limitedGames = games.filter((g) => formatOf(g) === 'limited').length;
+  const eternalGames = games.filter((g) => formatOf(g) === 'eternal').length;
+
+  // Match W/L — only matches with at least one game in the filtered set
+  const gameMatchIds = new Set(games.map((g) => g.matchId).filter((id): id is string => !!id));
+  const matches = (await getMatches()).filter((m) => gameMatchIds.has(m.matchId));
+  const matchYou = (m: Match): string => player && m.playerNames.includes(player) ? player : m.playerNames[0];
+  const matchWins   = matches.filter((m) => m.winner !== null && m.winner === matchYou(m)).length;
+  const matchLosses = matches.filter((m) => m.winner !== null && m.winner !== matchYou(m)).length;
 
   const container = document.getElementById('ov-stat-cards')!;
   container.innerHTML = `
@@ -205,26 +290,69 @@ async function loadOverview(): Promise<void> {
     <div class="stat-card"><div class="val">${losses}</div><div class="lbl">Losses</div></div>
     <div class="stat-card"><div class="val">${draws}</div><div class="lbl">Draws</div></div>
     <div class="stat-card"><div class="val">${pct(winRate)}</div><div class="lbl">Win Rate</div></div>
+    <div class="stat-card"><div class="val">${matchWins}–${matchLosses}</div><div class="lbl">Match W–L</div></div>
     <div class="stat-card"><div class="val">${limitedGames}</div><div class="lbl">Limited Games</div></div>
     <div class="stat-card"><div class="val">${eternalGames}</div><div class="lbl">Eternal Games</div></div>
   `;
 
+  // ── Initiative ───────────────────────────────────────────────────────────
+  const onPlay: WinTally = { wins: 0, games: 0 };
+  const onDraw: WinTally = { wins: 0, games: 0 };
+  const byRoundsHeld: Record<number, WinTally> = {};
+  games.forEach((g, i) => {
+    const won = g.winner === you[i].name;
+    const start = playOrDraw(g, you[i].id);
+    const tally = start === 'play' ? onPlay : start === 'draw' ? onDraw : null;
+    if (tally) {
+      tally.games++;
+      if (won) tally.wins++;
+    }
+    const held = roundsHoldingInitiative(g, you[i].id);
+    if (held !== null) {
+      const t = (byRoundsHeld[held] ??= { wins: 0, games: 0 });
+      t.games++;
+      if (won) t.wins++;
+    }
+  });
+
+  const tallyCard = (t: WinTally, label: string): string =>
+    `<div class="stat-card" title="${t.wins}/${t.games}">` +
+    `<div class="val">${t.games > 0 ? pct(t.wins / t.games) : '—'}</div>` +
+    `<div class="lbl">${escHtml(label)} · ${t.games} games</div></div>`;
+
+  const initSection = document.getElementById('ov-initiative-section')!;
+  if (onPlay.games + onDraw.games === 0) {
+    initSection.innerHTML = '';
+  } else {
+    initSection.innerHTML =
+      `<div class="ov-leaders-heading">Initiative</div>` +
+      `<div class="stat-cards">` +
+      tallyCard(onPlay, 'On the play') +
+      tallyCard(onDraw, 'On the draw') +
+      Object.entries(byRoundsHeld)
+        .map(([n, t]) => tallyCard(t, `Held ${n} round${n === '1' ? '' : 's'}`))
+        .join('') +
+      `</div>`;
+  }
+
   // ── Leader / Base breakdown ──────────────────────────────────────────────
   type LeaderEntry = {
     leaderId: string;
     leaderName: string;
     leaderSetId?: { set: string; number: number };
     baseAspect: string;
-    formatType: 'premier' | 'limited' | 'eternal';
+    formatType: GameFormat;
     wins: number;
     losses: number;
     draws: number;
+    /** Deploy round (0 = never deployed) → results; only games with deploy tracking */
+    deployRounds: Map<number, { wins: number; games: number }>;
   };
 
   const leaderMap = new Map<string, LeaderEntry>();
   games.forEach((g, i) => {
     const p = you[i];
-    const ft: 'premier' | 'limited' | 'eternal' = g.isLimitedFormat ? 'limited' : g.format === 'open' ? 'eternal' : 'premier';
+    const ft = formatOf(g);
     const key = `${p.leaderId}|${ft}`;
     const won   = g.winner === p.name;
     const lost  = g.winner !== null && g.winner !== p.name;
@@ -238,24 +366,48 @@ async function loadOverview(): Promise<void> {
         baseAspect: aspect,
         formatType: ft,
         wins: 0, losses: 0, draws: 0,
+        deployRounds: new Map(),
       });
     }
     const entry = leaderMap.get(key)!;
     if (won) entry.wins++;
     else if (lost) entry.losses++;
     else if (drw) entry.draws++;
+    if (p.deploy !== undefined) {
+      const round = p.deploy?.round ?? 0;
+      const bucket = entry.deployRounds.get(round) ?? { wins: 0, games: 0 };
+      bucket.games++;
+      if (won) bucket.wins++;
+      entry.deployRounds.set(round, bucket);
+    }
   });
 
-  const allLeaders = [...leaderMap.values()].sort((a, b) => (b.wins + b.losses + b.draws) - (a.wins + a.losses + a.draws));
-  const premierLeaders = allLeaders.filter((l) => l.formatType === 'premier');
-  const limitedLeaders = allLeaders.filter((l) => l.formatType === 'limited');
-  const eternalLeaders = allLeaders.filter((l) => l.formatType === 'eternal');
+  // Best first by the lower bound of the win rate, so one lucky game doesn't lead
+  const lowerBound = (l: LeaderEntry): number => wilsonInterval(l.wins, l.wins + l.losses + l.draws).low;
+  const allLeaders = [...leaderMap.values()].sort((a, b) => lowerBound(b) - lowerBound(a));
+
+  /** Win rate by the round the leader deployed in, never-deployed last */
+  function deployRoundsHtml(l: LeaderEntry): string {
+    if (l.deployRounds.size === 0) return '';
+    const rounds = [...l.deployRounds.entries()].sort(([a], [b]) => (a || Infinity) - (b || Infinity));
+    return (
+      `<div class="ov-leader-deploys" title="Win rate by the round your leader deployed">` +
+      rounds.map(([round, r]) =>
+        `<div class="ov-leader-deploy-row">` +
+        `<span>${round > 0 ? `Deployed R${round}` : 'Not deployed'}</span>` +
+        `<span title="${r.wins}/${r.games}">${pct(r.wins / r.games)} (${r.games})</span>` +
+        `</div>`
+      ).join('') +
+      `</div>`
+    );
+  }
 
   function leaderCardHtml(l: LeaderEntry): string {
     const imgUrl = cardImageUrl(l.leaderSetId ?? null);
     const total  = l.wins + l.losses + l.draws;
     const wr     = total > 0 ? (l.wins / total).toFixed(2) : '—';
     const wrClass = total === 0 ? 'neutral' : l.wins / total >= 0.5 ? '' : 'loss';
+    const interval = wilsonInterval(l.wins, total);
     const title = l.baseAspect ? `${escHtml(l.leaderName)} - ${escHtml(l.baseAspect)}` : escHtml(l.leaderName);
     return (
       `<div class="ov-leader-card">` +
@@ -270,13 +422,17 @@ async function loadOverview(): Promise<void> {
       `</div>` +
       `<div>Losses - <span class="ov-leader-stat-val loss">${l.losses}</span></div>` +
       (l.draws > 0 ? `<div>Draws - <span class="ov-leader-stat-val neutral">${l.draws}</span></div>` : '') +
+      (total > 0 ? ciBar(l.wins / total, interval.low, interval.high) : '') +
       `</div>` +
+      deployRoundsHtml(l) +
       `</div>`
     );
   }
 
-  function formatSection(label: string, leaders: LeaderEntry[]): string {
+  function formatSection(format: GameFormat): string {
+    const leaders = allLeaders.filter((l) => l.formatType === format);
     if (leaders.length === 0) return '';
+    const label = FORMAT_LABELS[format];
     return (
       `<div class="ov-format-label">${escHtml(label)}</div>` +
       `<div class="ov-leader-grid">${leaders.map(leaderCardHtml).join('')}</div>`
@@ -289,15 +445,99 @@ async function loadOverview(): Promise<void> {
   } else {
     leaderSection.innerHTML =
       `<div class="ov-leaders-heading">Leader / Bases</div>` +
-      formatSection('Premier', premierLeaders) +
-      formatSection('Limited', limitedLeaders) +
-      formatSection('Eternal', eternalLeaders);
+      FORMAT_ORDER.map(formatSection).join('');
   }
 }
 
 document.getElementById('ov-format')!.addEventListener('change', loadOverview);
 document.getElementById('ov-player-name')!.addEventListener('change', loadOverview);
 
+// ── Trends ───────────────────────────────────────────────────────────────────
+
+/** Your result in each Overview game, oldest first */
+let _ovTrendGames: Array<{ completedAt: string; leaderId: string; leaderName: string; won: boolean }> = [];
+
+/** Lists your leaders in the current games, keeping the selection when it's still there */
+function fillTrendLeaderSelect(): void {
+  const sel = document.getElementById('ov-trend-leader') as HTMLSelectElement;
+  const prev = sel.value;
+  const leaders = new Map(_ovTrendGames.map((g) => [g.leaderId, g.leaderName]));
+  sel.innerHTML =
+    `<option value="">All</option>` +
+    [...leaders.entries()]
+      .sort(([, a], [, b]) => a.localeCompare(b))
+      .map(([id, name]) => `<option value="${escHtml(id)}">${escHtml(name)}</option>`)
+      .join('');
+  sel.value = leaders.has(prev) ? prev : '';
+}
+
+/** About six evenly spaced x-axis labels, whatever the number of points */
+function sparseLabels(n: number, label: (i: number) => string): string[] {
+  const step = Math.max(1, Math.ceil(n / 6));
+  return Array.from({ length: n }, (_, i) => (i % step === 0 || i === n - 1 ? label(i) : ''));
+}
+
+function renderTrends(): void {
+  const el = document.getElementById('ov-trend-charts')!;
+  const leaderId = (document.getElementById('ov-trend-leader') as HTMLSelectElement).value;
+  const windowInput = document.getElementById('ov-trend-window') as HTMLInputElement;
+  const windowSize = Math.min(200, Math.max(2, parseInt(windowInput.value, 10) || 10));
+  const games = leaderId ? _ovTrendGames.filter((g) => g.leaderId === leaderId) : _ovTrendGames;
+  if (games.length === 0) { el.innerHTML = 'No games in this range.'; return; }
+
+  const color = '#4caf50';
+  const rolling = rollingWinRate(games.map((g) => g.won), windowSize).map((r) => Math.round(r * 100));
+  const weeks = gamesPerWeek(games.map((g) => g.completedAt));
+  const shortDay = (day: string): string =>
+    new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  el.innerHTML =
+    `<div class="review-chart-grid">` +
+    `<div class="review-chart-wrap">` +
+    `<div class="review-chart-title">Win % · last ${windowSize} games</div>` +
+    svgLineChart([{ label: 'Win %', color, values: rolling }], sparseLabels(rolling.length, (i) => String(i + 1))) +
+    `</div>` +
+    `<div class="review-chart-wrap">` +
+    `<div class="review-chart-title">Games per week</div>` +
+    svgLineChart([{ label: 'Games', color: 'var(--accent)', values: weeks.map((w) => w.games) }], sparseLabels(weeks.length, (i) => shortDay(weeks[i].week))) +
+    `</div>` +
+    `</div>`;
+}
+
+document.getElementById('ov-trend-leader')!.addEventListener('change', renderTrends);
+document.getElementById('ov-trend-window')!.addEventListener('change', renderTrends);
+
+// ── Date range and deck ──────────────────────────────────────────────────────
+
+/** The sidebar date range, or undefined when both ends are open */
+function currentDateRange(): DateRange | undefined {
+  const from = (document.getElementById('date-from') as HTMLInputElement).value;
+  const to = (document.getElementById('date-to') as HTMLInputElement).value;
+  if (!from && !to) return undefined;
+  return { from: from || undefined, to: to || undefined };
+}
+
+/** The sidebar deck filter: "<deckId>" for every version, "<deckId>@<version>" for one */
+function currentDeckFilter(): DeckFilter | undefined {
+  const value = (document.getElementById('deck-filter') as HTMLSelectElement).value;
+  if (!value) return undefined;
+  const [deckId, version] = value.split('@');
+  return version ? { deckId, version: Number(version) } : { deckId };
+}
+
+async function reloadFilteredViews(): Promise<void> {
+  await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadTempo()]);
+}
+
+document.getElementById('date-from')!.addEventListener('change', reloadFilteredViews);
+document.getElementById('date-to')!.addEventListener('change', reloadFilteredViews);
+document.getElementById('date-clear')!.addEventListener('click', async () => {
+  (document.getElementById('date-from') as HTMLInputElement).value = '';
+  (document.getElementById('date-to') as HTMLInputElement).value = '';
+  await reloadFilteredViews();
+});
+document.getElementById('deck-filter')!.addEventListener('change', reloadFilteredViews);
+
 // ─── Matchups ────────────────────────────────────────────────────────────────
 
 let _muData: MatchupRow[] = [];
@@ -324,16 +564,41 @@ function renderMuRows(rows: MatchupRow[]): void {
       <td style="color:var(--draw)">${r.draws}</td>
       <td>${r.totalGames}</td>
       <td>
-        <div class="win-rate-bar">
+        <div class="win-rate-bar" title="95%: ${ciText(r.winRateLow, r.winRateHigh)}">
           <span style="width:36px;text-align:right">${pct(r.winRate)}</span>
-          <div class="bar-track"><div class="bar-fill" style="width:${pct(r.winRate)}"></div></div>
+          <div class="bar-track"><div class="bar-fill" style="width:${pct(r.winRate)}"></div>${ciRange(r.winRateLow, r.winRateHigh)}</div>
         </div>
       </td>
+      <td>${rateCell(r.game1Wins, r.game1Games, r.game1WinRate, r.game1WinRateLow, r.game1WinRateHigh)}</td>
+      <td>${rateCell(r.postBoardWins, r.postBoardGames, r.postBoardWinRate, r.postBoardWinRateLow, r.postBoardWinRateHigh)}</td>
+      <td>${rateCell(r.youDeployedFirstWins, r.youDeployedFirstGames, r.youDeployedFirstWinRate, r.youDeployedFirstWinRateLow, r.youDeployedFirstWinRateHigh)}</td>
+      <td>${rateCell(r.oppDeployedFirstWins, r.oppDeployedFirstGames, r.oppDeployedFirstWinRate, r.oppDeployedFirstWinRateLow, r.oppDeployedFirstWinRateHigh)}</td>
+      <td>${rateCell(r.onPlayWins, r.onPlayGames, r.onPlayWinRate, r.onPlayWinRateLow, r.onPlayWinRateHigh)}</td>
+      <td>${rateCell(r.onDrawWins, r.onDrawGames, r.onDrawWinRate, r.onDrawWinRateLow, r.onDrawWinRateHigh)}</td>
+      <td>${initiativeRoundsHtml(r.initiativeRounds)}</td>
     </tr>`
     )
     .join('');
 }
 
+/** Win rate over its error bar, or a dash with no games */
+function rateCell(wins: number, games: number, rate: number, low: number, high: number): string {
+  if (games === 0) return '—';
+  return `<span title="${wins}/${games}">${pct(rate)}</span>${ciBar(rate, low, high)}`;
+}
+
+/** "1R 50%" per number of rounds held, one per line */
+function initiativeRoundsHtml(tallies: Record<number, WinTally>): string {
+  const entries = Object.entries(tallies);
+  if (entries.length === 0) return '—';
+  return entries
+    .map(([n, t]) => {
+      const { low, high } = wilsonInterval(t.wins, t.games);
+      return `<div title="${t.wins}/${t.games} · 95%: ${ciText(low, high)}">${n}R ${pct(t.wins / t.games)}</div>`;
+    })
+    .join('');
+}
+
 makeSortable('mu-table', () => _muData, renderMuRows, 'totalGames');
 // cs-table sortable initialised lazily in loadCardStats
 
@@ -341,7 +606,7 @@ async function loadMatchups(): Promise<void> {
   const formatFilter = (document.getElementById('mu-format') as HTMLSelectElement).value;
   const player = (document.getElementById('mu-player-name') as HTMLInputElement).value.trim() || undefined;
 
-  _muData = await getMatchupStats(formatFilter, player);
+  _muData = await getMatchupStats(formatFilter, player, _settings.naturalEndingsOnly, currentDateRange(), currentDeckFilter());
   renderMuRows(_muData);
 }
 
@@ -352,6 +617,7 @@ document.getElementById('mu-format')!.addEventListener('change', loadMatchups);
 
 let _selectedLeaderId = '';
 let _selectedBaseAspect = '';
+let _selectedSide: CardSide = 'you';
 let _cgData: CardStats[] = [];
 
 // Floating stats tooltip element (created once)
@@ -368,12 +634,14 @@ function csStatus(msg: string): void {
   if (el) el.textContent = msg;
 }
 
-function cgStatBar(label: string, val: number, color: string): string {
+function cgStatBar(label: string, val: number, color: string, interval?: [number, number]): string {
   const pctStr = (val * 100).toFixed(0) + '%';
   return (
     `<div class="cg-stat-row">` +
     `<span class="cg-stat-label">${label}</span>` +
-    `<div class="cg-stat-track"><div class="cg-stat-fill" style="width:${pctStr};background:${color}"></div></div>` +
+    `<div class="cg-stat-track"><div class="cg-stat-fill" style="width:${pctStr};background:${color}"></div>` +
+    (interval ? ciRange(...interval) : '') +
+    `</div>` +
     `<span class="cg-stat-val" style="color:${color}">${pctStr}</span>` +
     `</div>`
   );
@@ -394,11 +662,13 @@ function renderCardGrid(rows: CardStats[]): void {
 
   // Sort
   const sortSel = document.getElementById('cs-sort') as HTMLSelectElement | null;
-  const sortKey = (sortSel?.value ?? 'winRateWhenPlayed') as keyof CardStats;
+  const sortKey = (sortSel?.value ?? 'winRateWhenPlayedLow') as keyof CardStats;
   const sortAsc = sortSel?.selectedOptions[0]?.dataset.sortAsc !== undefined;
   const sorted = [...rows].sort((a, b) => {
-    const av = (a[sortKey] as number) ?? 0;
-    const bv = (b[sortKey] as number) ?? 0;
+    const av = a[sortKey] as number | null;
+    const bv = b[sortKey] as number | null;
+    // Cards without enough data for a metric sink to the bottom either way
+    if (av === null || bv === null) return (av === null ? 1 : 0) - (bv === null ? 1 : 0);
     return sortAsc ? av - bv : bv - av;
   });
 
@@ -410,17 +680,24 @@ function renderCardGrid(rows: CardStats[]): void {
       ? `<img class="cg-card-img" src="${escHtml(imgUrl)}" alt="${escHtml(r.cardName)}" loading="lazy" title="${escHtml(r.cardName)}" />`
       : `<div class="cg-card-img" style="background:var(--surface2)" title="${escHtml(r.cardName)}"></div>`;
 
-    const bars =
-      cgStatBar('Win%P', r.winRateWhenPlayed, cgWinColor(r.winRateWhenPlayed)) +
-      cgStatBar('Win%D', r.winRateWhenDrawn,  cgWinColor(r.winRateWhenDrawn)) +
-      cgStatBar('Play',  r.playRate,           'var(--accent)') +
-      cgStatBar('Rsrc',  r.resourceRate,       '#6a8fd8');
+    // Opponent draws and resources are face-down, so only play-based bars apply
+    const playedCi: [number, number] = [r.winRateWhenPlayedLow, r.winRateWhenPlayedHigh];
+    const drawnCi: [number, number] = [r.winRateWhenDrawnLow, r.winRateWhenDrawnHigh];
+    const bars = _selectedSide === 'opponent'
+      ? cgStatBar('Win%P', r.winRateWhenPlayed, cgWinColor(r.winRateWhenPlayed), playedCi) +
+        cgStatBar('Play',  r.playRate,           'var(--accent)')
+      : cgStatBar('Win%P', r.winRateWhenPlayed, cgWinColor(r.winRateWhenPlayed), playedCi) +
+        cgStatBar('Win%D', r.winRateWhenDrawn,  cgWinColor(r.winRateWhenDrawn), drawnCi) +
+        cgStatBar('Play',  r.playRate,           'var(--accent)') +
+        cgStatBar('Rsrc',  r.resourceRate,       '#6a8fd8');
 
     return (
       `<div class="cg-item"` +
       ` data-card-id="${escHtml(r.cardId)}"` +
       ` data-wr-played="${r.winRateWhenPlayed.toFixed(4)}"` +
+      ` data-wr-played-ci="${ciText(r.winRateWhenPlayedLow, r.winRateWhenPlayedHigh)}"` +
       ` data-wr-drawn="${r.winRateWhenDrawn.toFixed(4)}"` +
+      ` data-wr-drawn-ci="${ciText(r.winRateWhenDrawnLow, r.winRateWhenDrawnHigh)}"` +
       ` data-resource-rate="${r.resourceRate.toFixed(4)}"` +
       ` data-play-rate="${r.playRate.toFixed(4)}"` +
       ` data-avg-copies="${r.avgCopiesPerGame.toFixed(2)}"` +
@@ -431,6 +708,34 @@ function renderCardGrid(rows: CardStats[]): void {
       ` data-resourced="${r.resourced}"` +
       ` data-discarded="${r.discarded}"` +
       ` data-activated="${r.activated}"` +
+      ` data-attacked="${r.attacked}"` +
+      ` data-dealt-damage="${r.dealtDamage}"` +
+      ` data-avg-damage="${r.avgDamagePerGame.toFixed(1)}"` +
+      ` data-defeated="${r.defeated}"` +
+      ` data-defeat-rate="${r.defeatRate.toFixed(4)}"` +
+      ` data-captured="${r.captured}"` +
+      ` data-took-captive="${r.tookCaptive}"` +
+      ` data-rescued="${r.rescued}"` +
+      ` data-attached="${r.attached}"` +
+      ` data-token-created="${r.tokenCreated}"` +
+      ` data-healed="${r.healed}"` +
+      ` data-smuggled="${r.smuggled}"` +
+      ` data-exploited="${r.exploited}"` +
+      ` data-bounty="${r.bountyCollected}"` +
+      ` data-deployed="${r.deployed}"` +
+      ` data-opening-games="${r.openingHandGames}"` +
+      ` data-wr-opening="${r.winRateInOpeningHand.toFixed(4)}"` +
+      ` data-wr-opening-ci="${ciText(r.winRateInOpeningHandLow, r.winRateInOpeningHandHigh)}"` +
+      ` data-first-hand-games="${r.firstHandGames}"` +
+      ` data-mulligan-rate="${r.mulliganRate.toFixed(4)}"` +
+      ` data-unplayed-games="${r.gamesDrawnNotPlayed}"` +
+      ` data-wr-unplayed="${r.winRateDrawnNotPlayed.toFixed(4)}"` +
+      ` data-wr-unplayed-ci="${ciText(r.winRateDrawnNotPlayedLow, r.winRateDrawnNotPlayedHigh)}"` +
+      (r.playedWinRateDelta !== null
+        ? ` data-wr-delta="${r.playedWinRateDelta.toFixed(4)}"` +
+          ` data-wr-delta-low="${r.playedWinRateDeltaLow!.toFixed(4)}"` +
+          ` data-wr-delta-high="${r.playedWinRateDeltaHigh!.toFixed(4)}"`
+        : '') +
       `>` +
       img +
       `<div class="cg-stat-bars">${bars}</div>` +
@@ -444,13 +749,67 @@ function cgTooltipRow(key: string, val: string): string {
   return `<div class="cg-tooltip-row"><span class="cg-tooltip-key">${key}</span><span class="cg-tooltip-val">${val}</span></div>`;
 }
 
+/** Log-derived totals — only shown for cards that have them */
+function cgLogTooltipRows(d: DOMStringMap): string {
+  const n = (v: string | undefined): number => parseInt(v ?? '0', 10) || 0;
+  let html = '';
+  if (n(d.attacked) > 0) html += cgTooltipRow('Attacks', d.attacked!);
+  if (n(d.dealtDamage) > 0) {
+    html += cgTooltipRow('Damage dealt', d.dealtDamage!);
+    html += cgTooltipRow('Avg damage/game', d.avgDamage ?? '0');
+  }
+  if (n(d.defeated) > 0) {
+    html += cgTooltipRow('Defeated', d.defeated!);
+    html += cgTooltipRow('Defeat rate', pct(parseFloat(d.defeatRate ?? '0')));
+  }
+  if (n(d.captured) > 0) html += cgTooltipRow('Captured', d.captured!);
+  if (n(d.tookCaptive) > 0) html += cgTooltipRow('Captives taken', d.tookCaptive!);
+  if (n(d.rescued) > 0) html += cgTooltipRow('Rescued', d.rescued!);
+  if (n(d.attached) > 0) html += cgTooltipRow('Attached as upgrade', d.attached!);
+  if (n(d.tokenCreated) > 0) html += cgTooltipRow('Tokens created', d.tokenCreated!);
+  if (n(d.healed) > 0) html += cgTooltipRow('Healed', d.healed!);
+  if (n(d.smuggled) > 0) html += cgTooltipRow('Smuggled', d.smuggled!);
+  if (n(d.exploited) > 0) html += cgTooltipRow('Exploited', d.exploited!);
+  if (n(d.bounty) > 0) html += cgTooltipRow('Bounties collected', d.bounty!);
+  if (n(d.deployed) > 0) html += cgTooltipRow('Deployed', d.deployed!);
+  return html;
+}
+
+/** Opening-hand rates — only shown for cards seen in a tracked opening hand */
+function cgOpeningTooltipRows(d: DOMStringMap): string {
+  let html = '';
+  if (parseInt(d.openingGames ?? '0', 10) > 0) {
+    html += cgTooltipRow('Win% opening hand', `${pct(parseFloat(d.wrOpening ?? '0'))} (${d.openingGames}; 95%: ${d.wrOpeningCi})`);
+  }
+  if (parseInt(d.firstHandGames ?? '0', 10) > 0) {
+    html += cgTooltipRow('Mulligan rate', `${pct(parseFloat(d.mulliganRate ?? '0'))} (${d.firstHandGames})`);
+  }
+  return html;
+}
+
+function signedPct(n: number): string {
+  return (n >= 0 ? '+' : '−') + pct(Math.abs(n));
+}
+
+/** Played vs. drawn-but-unplayed comparison — only shown once both exist */
+function cgContributionTooltipRows(d: DOMStringMap): string {
+  if (parseInt(d.unplayedGames ?? '0', 10) === 0) return '';
+  let html = cgTooltipRow('Win% drawn, unplayed', `${pct(parseFloat(d.wrUnplayed ?? '0'))} (${d.unplayedGames}; 95%: ${d.wrUnplayedCi})`);
+  if (d.wrDelta !== undefined) {
+    const low = signedPct(parseFloat(d.wrDeltaLow ?? '0'));
+    const high = signedPct(parseFloat(d.wrDeltaHigh ?? '0'));
+    html += cgTooltipRow('Played vs. unplayed', `${signedPct(parseFloat(d.wrDelta))} (95%: ${low} to ${high})`);
+  }
+  return html;
+}
+
 document.getElementById('cs-card-grid')!.addEventListener('mouseover', (e: MouseEvent) => {
   const item = (e.target as HTMLElement).closest<HTMLElement>('.cg-item');
   if (!item) { cgTooltipEl.style.display = 'none'; return; }
   const d = item.dataset;
   cgTooltipEl.innerHTML =
-    cgTooltipRow('Win% played', pct(parseFloat(d.wrPlayed ?? '0'))) +
-    cgTooltipRow('Win% drawn', pct(parseFloat(d.wrDrawn ?? '0'))) +
+    cgTooltipRow('Win% played', `${pct(parseFloat(d.wrPlayed ?? '0'))} (95%: ${d.wrPlayedCi})`) +
+    cgTooltipRow('Win% drawn', `${pct(parseFloat(d.wrDrawn ?? '0'))} (95%: ${d.wrDrawnCi})`) +
     cgTooltipRow('Resource rate', pct(parseFloat(d.resourceRate ?? '0'))) +
     cgTooltipRow('Play rate', pct(parseFloat(d.playRate ?? '0'))) +
     cgTooltipRow('Avg copies/game', parseFloat(d.avgCopies ?? '0').toFixed(2)) +
@@ -460,7 +819,10 @@ document.getElementById('cs-card-grid')!.addEventListener('mouseover', (e: Mouse
     cgTooltipRow('Total drawn', d.drawn ?? '0') +
     cgTooltipRow('Resourced', d.resourced ?? '0') +
     cgTooltipRow('Discarded', d.discarded ?? '0') +
-    cgTooltipRow('Activated', d.activated ?? '0');
+    cgTooltipRow('Activated', d.activated ?? '0') +
+    cgOpeningTooltipRows(d) +
+    cgContributionTooltipRows(d) +
+    cgLogTooltipRows(d);
   cgTooltipEl.style.display = 'block';
   positionCgTooltip(e);
 });
@@ -539,7 +901,8 @@ async function loadLeaderPanel(): Promise<void> {
     item.dataset.leaderId = l.leaderId;
     item.innerHTML =
       (imgUrl ? `<img src="${escHtml(imgUrl)}" alt="" loading="lazy">` : '') +
-      `<span class="cs-leader-name">${escHtml(l.leaderName || l.leaderId)}</span>`;
+      `<span class="cs-leader-name">${escHtml(l.leaderName || l.leaderId)}</span>` +
+      `<span class="cs-leader-mull"></span>`;
     item.addEventListener('click', () => selectLeader(l.leaderId));
     panel.appendChild(item);
   }
@@ -562,27 +925,87 @@ async function selectLeader(leaderId: string): Promise<void> {
   await loadCardStats();
 }
 
+/**
+ * Mulligan rate under each leader in the panel, and a keep-vs-mulligan
+ * summary for the selected leader (or all of them) above the card grid.
+ */
+function renderMulliganSummary(rows: LeaderMulliganRow[]): void {
+  document.querySelectorAll<HTMLElement>('#cs-leaders .cs-leader-item').forEach((item) => {
+    const mull = item.querySelector('.cs-leader-mull');
+    const row = rows.find((r) => r.leaderId === item.dataset.leaderId);
+    if (mull) mull.textContent = row ? `Mulligan ${pct(row.mulliganRate)} of ${row.games}` : '';
+  });
+
+  const el = document.getElementById('cs-mulligan')!;
+  const selected = _selectedLeaderId ? rows.filter((r) => r.leaderId === _selectedLeaderId) : rows;
+  const sum = (pick: (r: LeaderMulliganRow) => number): number => selected.reduce((n, r) => n + pick(r), 0);
+  const games = sum((r) => r.games);
+  if (_selectedSide !== 'you' || games === 0) { el.innerHTML = ''; return; }
+  const kept: WinTally = { wins: sum((r) => r.kept.wins), games: sum((r) => r.kept.games) };
+  const mulled: WinTally = { wins: sum((r) => r.mulliganed.wins), games: sum((r) => r.mulliganed.games) };
+  const winPct = (t: WinTally): string => t.games > 0 ? `<strong>${pct(t.wins / t.games)}</strong> (${t.games})` : '—';
+  el.innerHTML =
+    `Opening hands: <strong>${games}</strong> tracked · ` +
+    `Mulligan rate <strong>${pct(mulled.games / games)}</strong> · ` +
+    `Win % after keeping ${winPct(kept)} · ` +
+    `Win % after mulligan ${winPct(mulled)}`;
+}
+
+/** Tokens are never drawn or played — they get their own summary line instead of a grid card */
+function isTokenRow(r: CardStats): boolean {
+  return r.gamesCreatedIn > 0 && r.played === 0 && r.drawn === 0 && r.resourced === 0;
+}
+
+function renderTokenSummary(rows: CardStats[]): void {
+  const el = document.getElementById('cs-tokens')!;
+  if (rows.length === 0) { el.innerHTML = ''; return; }
+  el.innerHTML =
+    `Tokens: ` +
+    [...rows]
+      .sort((a, b) => b.tokenCreated - a.tokenCreated)
+      .map((r) =>
+        `<span title="Created in ${r.gamesCreatedIn} game${r.gamesCreatedIn !== 1 ? 's' : ''} · ` +
+        `${(r.tokenCreated / r.gamesCreatedIn).toFixed(1)} per game · ` +
+        `95%: ${ciText(r.winRateWhenCreatedLow, r.winRateWhenCreatedHigh)}">` +
+        `<strong>${escHtml(r.cardName)}</strong> ×${r.tokenCreated} (win ${pct(r.winRateWhenCreated)})</span>`
+      )
+      .join(' · ');
+}
+
 async function loadCardStats(): Promise<void> {
   csStatus('Loading…');
   const formatFilter = (document.getElementById('cs-format') as HTMLSelectElement).value;
   const player = (document.getElementById('cs-player-name') as HTMLInputElement).value.trim() || undefined;
   _selectedBaseAspect = (document.getElementById('cs-base-color') as HTMLSelectElement).value;
+  _selectedSide = (document.getElementById('cs-side') as HTMLSelectElement).value as CardSide;
 
   let data: CardStats[];
+  let mulligans: LeaderMulliganRow[];
   try {
-    data = await getCardStats(
-      formatFilter,
-      player,
-      _selectedLeaderId || undefined,
-      _selectedBaseAspect || undefined
-    );
+    [data, mulligans] = await Promise.all([
+      getCardStats(
+        formatFilter,
+        player,
+        _selectedLeaderId || undefined,
+        _selectedBaseAspect || undefined,
+        {
+          side: _selectedSide,
+          naturalEndingsOnly: _settings.naturalEndingsOnly,
+          dateRange: currentDateRange(),
+          deckFilter: currentDeckFilter(),
+        }
+      ),
+      getMulliganStats(formatFilter, player, _settings.naturalEndingsOnly, currentDateRange(), currentDeckFilter()),
+    ]);
   } catch (err) {
     console.error('[KB Tracker] loadCardStats failed:', err);
     csStatus(`Error: ${String(err)}`);
     return;
   }
-  _cgData = data;
-  renderCardGrid(data);
+  _cgData = data.filter((r) => !isTokenRow(r));
+  renderMulliganSummary(mulligans);
+  renderTokenSummary(data.filter(isTokenRow));
+  renderCardGrid(_cgData);
 }
 
 document.getElementById('cs-sort')!.addEventListener('change', () => {
@@ -595,52 +1018,342 @@ document.getElementById('cs-refresh')!.addEventListener('click', async () => {
   await loadCardStats();
 });
 document.getElementById('cs-format')!.addEventListener('change', loadCardStats);
+document.getElementById('cs-side')!.addEventListener('change', loadCardStats);
 document.getElementById('cs-base-color')!.addEventListener('change', loadCardStats);
 
+// ─── Tempo ───────────────────────────────────────────────────────────────────
+
+/**
+ * LeaderResourceRow with its win tallies flattened so the table can sort on
+ * them (-1 with no games). Spelled as a Pick so it satisfies makeSortable.
+ */
+type TempoLeaderRow = Pick<LeaderResourceRow, keyof LeaderResourceRow> & { wastefulWinRate: number; efficientWinRate: number };
+
+let _tpData: TempoLeaderRow[] = [];
+
+/** One decimal place, or a dash when there's nothing to show */
+function avgText(v: number | null): string {
+  return v === null ? '—' : v.toFixed(1);
+}
+
+function tallyPct(t: WinTally): string {
+  return t.games > 0 ? pct(t.wins / t.games) : '—';
+}
+
+function renderTpRows(rows: TempoLeaderRow[]): void {
+  document.getElementById('tp-body')!.innerHTML = rows
+    .map(
+      (r) => `
+    <tr>
+      <td>${cardChip(r.leaderName, r.leaderSetId)}</td>
+      <td>${r.games}</td>
+      <td>${avgText(r.avgUnspentInWins)}</td>
+      <td>${avgText(r.avgUnspentInLosses)}</td>
+      <td title="${r.wasteful.wins}/${r.wasteful.games}">${tallyPct(r.wasteful)}</td>
+      <td title="${r.efficient.wins}/${r.efficient.games}">${tallyPct(r.efficient)}</td>
+    </tr>`
+    )
+    .join('');
+}
+
+makeSortable('tp-table', () => _tpData, renderTpRows, 'games');
+
+/** Average resource curve and unspent resources by round, you against the opponent */
+function tempoChartsHtml(stats: ResourceStats): string {
+  const colorYou = '#4caf50';
+  const colorOpp = '#e07060';
+  const round1 = (v: number): number => Math.round(v * 10) / 10;
+  const curve = stats.rounds;
+  const withUnspent = curve.filter((r) => r.youUnspent !== null && r.oppUnspent !== null);
+
+  let charts =
+    `<div class="review-chart-wrap">` +
+    `<div class="review-chart-title">Avg. Total Resources</div>` +
+    svgLineChart(
+      [
+        { label: 'You', color: colorYou, values: curve.map((r) => round1(r.youTotal)) },
+        { label: 'Opponent', color: colorOpp, values: curve.map((r) => round1(r.oppTotal)) },
+      ],
+      curve.map((r) => String(r.round))
+    ) + `</div>`;
+  if (withUnspent.length > 0) {
+    charts +=
+      `<div class="review-chart-wrap">` +
+      `<div class="review-chart-title">Avg. Unspent at Round End</div>` +
+      svgLineChart(
+        [
+          { label: 'You', color: colorYou, values: withUnspent.map((r) => round1(r.youUnspent!)) },
+          { label: 'Opponent', color: colorOpp, values: withUnspent.map((r) => round1(r.oppUnspent!)) },
+        ],
+        withUnspent.map((r) => String(r.round))
+      ) + `</div>`;
+  }
+
+  return (
+    `<div class="review-chart-legend">` +
+    `<span style="color:${colorYou};margin-right:3px">▬</span>You` +
+    `<span style="color:${colorOpp};margin-left:12px;margin-right:3px">▬</span>Opponent` +
+    `<span style="margin-left:12px">by round · ${stats.games} game${stats.games === 1 ? '' : 's'}</span>` +
+    `</div>` +
+    `<div class="review-chart-grid">${charts}</div>`
+  );
+}
+
+function renderTempo(stats: ResourceStats): void {
+  const cards = document.getElementById('tp-stat-cards')!;
+  const chartsEl = document.getElementById('tp-charts')!;
+  const flaggedEl = document.getElementById('tp-flagged')!;
+  if (stats.games === 0) {
+    cards.innerHTML = '';
+    chartsEl.innerHTML = '';
+    flaggedEl.innerHTML = '<div style="color:var(--muted)">No round snapshots yet — play a game first.</div>';
+    return;
+  }
+
+  // Per-round averages weighted by how many rounds had timeline data
+  const weighted = (pick: (r: ResourceStats['rounds'][number]) => number | null): number | null => {
+    let sum = 0, n = 0;
+    for (const r of stats.rounds) {
+      const v = pick(r);
+      if (v === null) continue;
+      sum += v * r.games;
+      n += r.games;
+    }
+    return n > 0 ? sum / n : null;
+  };
+  const sumTally = (pick: (r: LeaderResourceRow) => WinTally): WinTally => ({
+    wins: stats.leaders.reduce((n, r) => n + pick(r).wins, 0),
+    games: stats.leaders.reduce((n, r) => n + pick(r).games, 0),
+  });
+  const wasteful = sumTally((r) => r.wasteful);
+  const efficient = sumTally((r) => r.efficient);
+  const card = (val: string, lbl: string): string =>
+    `<div class="stat-card"><div class="val">${val}</div><div class="lbl">${escHtml(lbl)}</div></div>`;
+  cards.innerHTML =
+    card(avgText(weighted((r) => r.youUnspent)), 'Your unspent / round') +
+    card(avgText(weighted((r) => r.oppUnspent)), 'Opp. unspent / round') +
+    card(String(stats.flagged.length), `Rounds with ${UNSPENT_FLAG_THRESHOLD}+ unspent`) +
+    card(tallyPct(wasteful), `Win % wasteful · ${wasteful.games} games`) +
+    card(tallyPct(efficient), `Win % efficient · ${efficient.games} games`);
+
+  chartsEl.innerHTML = tempoChartsHtml(stats);
+
+  flaggedEl.innerHTML = stats.flagged.length === 0
+    ? '<div style="color:var(--muted)">No flagged rounds.</div>'
+    : stats.flagged
+        .map((f) => {
+          const result = f.won === null ? 'Draw' : f.won ? 'Win' : 'Loss';
+          const color = f.won === null ? 'var(--draw)' : f.won ? 'var(--win)' : 'var(--loss)';
+          return (
+            `<div class="tp-flagged-row">` +
+            `<span class="date">${fmtDateShort(f.completedAt)}</span>` +
+            `<span>${escHtml(f.yourLeaderName)} vs ${escHtml(f.opponentLeaderName)}</span>` +
+            `<span>Round ${f.round}: ${f.unspent} of ${f.total} unspent</span>` +
+            `<span style="color:${color}">${result}</span>` +
+            `</div>`
+          );
+        })
+        .join('');
+}
+
+async function loadTempo(): Promise<void> {
+  const formatFilter = (document.getElementById('tp-format') as HTMLSelectElement).value;
+  const player = (document.getElementById('tp-player-name') as HTMLInputElement).value.trim() || undefined;
+
+  const stats = await getResourceStats(formatFilter, player, _settings.naturalEndingsOnly, currentDateRange(), currentDeckFilter());
+  _tpData = stats.leaders.map((r) => ({
+    ...r,
+    wastefulWinRate: r.wasteful.games > 0 ? r.wasteful.wins / r.wasteful.games : -1,
+    efficientWinRate: r.efficient.games > 0 ? r.efficient.wins / r.efficient.games : -1,
+  }));
+  renderTempo(stats);
+  renderTpRows(_tpData);
+}
+
+document.getElementById('tp-refresh')!.addEventListener('click', loadTempo);
+document.getElementById('tp-format')!.addEventListener('change', loadTempo);
+
+// ─── Scouting ────────────────────────────────────────────────────────────────
+
+let _scData: OpponentLeaderList[] = [];
+let _scSelectedLeaderId = '';
+
+function scStatus(msg: string): void {
+  const el = document.getElementById('sc-status');
+  if (el) el.textContent = msg;
+}
+
+function renderScoutingLeaders(): void {
+  const panel = document.getElementById('sc-leaders')!;
+  const titleEl = panel.querySelector('.cs-panel-title')!;
+  panel.innerHTML = '';
+  panel.appendChild(titleEl);
+
+  for (const l of _scData) {
+    const imgUrl = cardImageUrl(l.leaderSetId ?? null);
+    const item = document.createElement('div');
+    item.className = 'cs-leader-item' + (l.leaderId === _scSelectedLeaderId ? ' active' : '');
+    item.dataset.leaderId = l.leaderId;
+    item.innerHTML =
+      (imgUrl ? `<img src="${escHtml(imgUrl)}" alt="" loading="lazy">` : '') +
+      `<span class="cs-leader-name">${escHtml(l.leaderName || l.leaderId)} (${l.totalGames})</span>`;
+    item.addEventListener('click', () => {
+      _scSelectedLeaderId = l.leaderId;
+      renderScoutingLeaders();
+      renderScoutingGrid();
+    });
+    panel.appendChild(item);
+  }
+}
+
+function renderScoutingGrid(): void {
+  const grid = document.getElementById('sc-card-grid')!;
+  const titleEl = document.getElementById('sc-leader-title')!;
+  const row = _scData.find((l) => l.leaderId === _scSelectedLeaderId);
+  if (!row) {
+    titleEl.textContent = 'Select a leader';
+    grid.innerHTML = _scData.length === 0
+      ? '<div style="color:var(--muted);font-size:12px;padding:16px">No opponent data — play a game first.</div>'
+      : '';
+    scStatus(_scData.length > 0 ? `${_scData.length} opponent leaders` : '');
+    return;
+  }
+
+  titleEl.textContent = row.leaderName || row.leaderId;
+  const bases = row.bases.map((b) => `${b.baseName || b.baseId} (${b.games})`).join(', ');
+  scStatus(`${row.cards.length} cards seen across ${row.totalGames} game${row.totalGames !== 1 ? 's' : ''}` + (bases ? ` · Bases: ${bases}` : ''));
+
+  grid.innerHTML = row.cards.map((c) => {
+    const imgUrl = cardImageUrl(c.cardSetId ?? null);
+    const img = imgUrl
+      ? `<img class="cg-card-img" src="${escHtml(imgUrl)}" alt="${escHtml(c.cardName)}" loading="lazy" title="${escHtml(c.cardName)}" />`
+      : `<div class="cg-card-img" style="background:var(--surface2)" title="${escHtml(c.cardName)}"></div>`;
+    const seenRate = c.gamesSeen / row.totalGames;
+    return (
+      `<div class="cg-item" title="${escHtml(c.cardName)} — max ${c.copies}x, seen in ${c.gamesSeen}/${row.totalGames} games">` +
+      img +
+      `<div class="cg-stat-bars">` +
+      cgStatBar('Seen', seenRate, 'var(--accent)') +
+      `<div class="cg-stat-row"><span class="cg-stat-label">Copies</span><span class="cg-stat-val" style="flex:1;text-align:left">${c.copies}x</span></div>` +
+      `</div>` +
+      `</div>`
+    );
+  }).join('');
+}
+
+async function loadScouting(): Promise<void> {
+  scStatus('Loading…');
+  const formatFilter = (document.getElementById('sc-format') as HTMLSelectElement).value;
+  const player = (document.getElementById('sc-player-name') as HTMLInputElement).value.trim() || undefined;
+  try {
+    _scData = await getOpponentLeaderLists(formatFilter, player);
+  } catch (err) {
+    console.error('[KB Tracker] loadScouting failed:', err);
+    scStatus(`Error: ${String(err)}`);
+    return;
+  }
+  if (!_scData.some((l) => l.leaderId === _scSelectedLeaderId)) {
+    _scSelectedLeaderId = _scData[0]?.leaderId ?? '';
+  }
+  renderScoutingLeaders();
+  renderScoutingGrid();
+}
+
+document.getElementById('sc-refresh')!.addEventListener('click', loadScouting);
+document.getElementById('sc-format')!.addEventListener('change', loadScouting);
+document.getElementById('sc-player-name')!.addEventListener('change', loadScouting);
+
 // ─── Game History ────────────────────────────────────────────────────────────
 
+let _ghMatches = new Map<string, Match>();
+
+function matchCellHtml(g: GameSummary): string {
+  const m = g.matchId ? _ghMatches.get(g.matchId) : undefined;
+  if (!m) return '<span style="color:var(--muted)">—</span>';
+  if (m.bestOf === 1) return '<span style="color:var(--muted)">Bo1</span>';
+  const you = g.players[0].name;
+  const [w0, w1] = m.wins;
+  const score = m.playerNames[0] === you ? `${w0}–${w1}` : `${w1}–${w0}`;
+  const color = m.winner === null ? 'var(--draw)' : m.winner === you ? 'var(--win)' : 'var(--loss)';
+  return `<span title="Game ${g.matchGameNumber ?? '?'} of ${m.gameIds.length}">G${g.matchGameNumber ?? '?'} · <span style="color:${color}">${score}</span></span>`;
+}
+
+/** Display order of formats; History's Change Format steps through it */
+const FORMAT_ORDER = Object.keys(FORMAT_LABELS) as GameFormat[];
+
+function nextFormat(f: GameFormat): GameFormat {
+  return FORMAT_ORDER[(FORMAT_ORDER.indexOf(f) + 1) % FORMAT_ORDER.length];
+}
+
+/** Format badge with how it was decided in the tooltip; "?" marks a guess (see formatDetector.ts) */
+function formatCellHtml(g: GameSummary): string {
+  const fmt = formatOf(g);
+  const d = g.formatDetection;
+  const how = !d ? 'Recorded before format detection' : `${d.manual ? 'Set by' : 'Detected from'} ${d.reasons.join(', ')}`;
+  return `<span class="badge ${fmt}" title="${escHtml(how)}">${FORMAT_LABELS[fmt]}${d && !d.certain ? '?' : ''}</span>`;
+}
+
+/** Tracking confidence, with the counts that drifted in the tooltip (see tracking.ts) */
+function trackingCellHtml(g: GameSummary): string {
+  const t = g.tracking;
+  if (!t) return '<span style="color:var(--muted)">—</span>';
+  if (t.drifts.length === 0) {
+    return `<span style="color:var(--win)" title="Card counts added up in all ${t.checks} checks">${pct(t.confidence)}</span>`;
+  }
+  const signed = (n: number): string => (n > 0 ? `+${n}` : n < 0 ? `−${-n}` : '0');
+  const lines = t.drifts.map((d) => `${d.atEnd ? 'End' : `Round ${d.round}`}: you ${signed(d.drift[0])}, opponent ${signed(d.drift[1])}`);
+  const color = t.confidence >= 0.75 ? 'var(--accent)' : 'var(--loss)';
+  return `<span style="color:${color}" title="Card counts drifted:\n${escHtml(lines.join('\n'))}">⚠ ${pct(t.confidence)}</span>`;
+}
+
 function gameToHistoryRow(g: GameSummary): string {
   const p0 = g.players[0];
   const p1 = g.players[1];
   const isWin = g.winner === p0.name;
   const isDraw = g.winner === null;
-  const res = isDraw ? 'Draw' : isWin ? 'Win' : 'Loss';
+  const res = g.incomplete ? 'Incomplete' : isDraw ? 'Draw' : isWin ? 'Win' : 'Loss';
   const resColor = isDraw ? 'var(--draw)' : isWin ? 'var(--win)' : 'var(--loss)';
-  const fmtClass = g.isLimitedFormat ? 'limited' : g.format === 'open' ? 'eternal' : 'premier';
-  const fmtLabel = g.isLimitedFormat ? 'Limited' : g.format === 'open' ? 'Eternal' : 'Premier';
+  const fmt = formatOf(g);
   const isHidden = g.hidden ?? false;
-  const curFmt: 'premier' | 'limited' | 'eternal' = g.isLimitedFormat ? 'limited' : g.format === 'open' ? 'eternal' : 'premier';
-  const FMT_NEXT: Record<string, string> = { premier: 'Limited', limited: 'Eternal', eternal: 'Premier' };
   return `
     <tr${isHidden ? ' class="gh-row-hidden"' : ''}>
       <td>${formatDate(g.completedAt)}</td>
-      <td><span class="badge ${fmtClass}">${fmtLabel}</span></td>
+      <td>${formatCellHtml(g)}</td>
       <td>${cardChip(p0.leaderName || p0.leaderId, p0.leaderSetId)}</td>
       <td>${cardChip(p1.leaderName || p1.leaderId, p1.leaderSetId)}</td>
       <td style="color:${resColor};font-weight:600">${res}</td>
+      <td${g.endReason && !isNaturalEnding(g) ? ' style="color:var(--muted)"' : ''}>${g.endReason ? END_REASON_LABELS[g.endReason] : '—'}</td>
+      <td>${matchCellHtml(g)}</td>
       <td>${g.rounds}</td>
+      <td>${trackingCellHtml(g)}</td>
       <td><button class="gh-3dot"
         data-gameid="${g.gameId}"
         data-hidden="${isHidden ? '1' : '0'}"
-        data-curfmt="${curFmt}"
-        data-nextfmt="${FMT_NEXT[curFmt]}"
+        data-curfmt="${FORMAT_LABELS[fmt]}"
+        data-nextfmt="${FORMAT_LABELS[nextFormat(fmt)]}"
       >&#8942;</button></td>
     </tr>`;
 }
 
 async function loadHistory(): Promise<void> {
   const formatFilter = (document.getElementById('gh-format') as HTMLSelectElement).value;
+  const endingFilter = (document.getElementById('gh-ending') as HTMLSelectElement).value;
+  const trackingFilter = (document.getElementById('gh-tracking') as HTMLSelectElement).value;
 
   let games = (await getRecentGames(5000)) as GameSummary[];
-  if (formatFilter === 'limited') games = games.filter((g) => g.isLimitedFormat);
-  else if (formatFilter === 'eternal') games = games.filter((g) => g.format === 'open');
-  else if (formatFilter === 'premier') games = games.filter((g) => !g.isLimitedFormat && g.format !== 'open');
+  games = games.filter((g) => matchesFormatFilter(g, formatFilter));
+  if (endingFilter === 'natural') games = games.filter((g) => !g.incomplete && isNaturalEnding(g));
+  else if (endingFilter === 'other') games = games.filter((g) => !g.incomplete && !isNaturalEnding(g));
+  if (trackingFilter === 'drifted') games = games.filter((g) => (g.tracking?.drifts.length ?? 0) > 0);
 
   _ghGames = games;
+  _ghMatches = new Map((await getMatches()).map((m) => [m.matchId, m]));
   document.getElementById('gh-body')!.innerHTML = games.map(gameToHistoryRow).join('');
 }
 
 document.getElementById('gh-format')!.addEventListener('change', loadHistory);
+document.getElementById('gh-ending')!.addEventListener('change', loadHistory);
+document.getElementById('gh-tracking')!.addEventListener('change', loadHistory);
 
 // ─── Game History 3-dot menu ──────────────────────────────────────────────────
 
@@ -653,12 +1366,12 @@ document.addEventListener('click', (e) => {
     e.stopPropagation();
     _ghMenuGameId = btn.dataset.gameid!;
     const isHidden = btn.dataset.hidden === '1';
-    const curFmt  = btn.dataset.curfmt  ?? 'premier';
-    const nextFmt = btn.dataset.nextfmt ?? 'Limited';
+    const curFmt  = btn.dataset.curfmt  ?? 'Premier';
+    const nextFmt = btn.dataset.nextfmt ?? 'Twin Suns';
     (document.getElementById('gh-menu-hide') as HTMLButtonElement).textContent =
       isHidden ? '\u{1F440} Show in Stats' : '\u{1F648} Hide from Stats';
     (document.getElementById('gh-menu-format') as HTMLButtonElement).textContent =
-      `\u21BA ${curFmt.charAt(0).toUpperCase() + curFmt.slice(1)} \u2192 ${nextFmt}`;
+      `\u21BA ${curFmt} \u2192 ${nextFmt}`;
     const r = btn.getBoundingClientRect();
     _ghMenu.style.display = 'flex';
     _ghMenu.style.top  = (r.bottom + 4) + 'px';
@@ -683,15 +1396,24 @@ document.getElementById('gh-menu-review')!.addEventListener('click', async () =>
   if (game) await openReview(game);
 });
 
+document.getElementById('gh-menu-replay')!.addEventListener('click', async () => {
+  _ghMenu.style.display = 'none';
+  const game = _ghGames.find((g) => g.gameId === _ghMenuGameId);
+  if (!game) return;
+  const [replay, rawLog] = await Promise.all([getReplay(game.gameId), getRawLog(game.gameId)]);
+  if (!replay) {
+    alert('No replay available for this game.\nReplays are recorded starting from newly recorded games.');
+    return;
+  }
+  const { title, meta } = gameHeading(game);
+  openReplay(title, meta, replay, rawLog, game.players);
+});
+
 document.getElementById('gh-menu-format')!.addEventListener('click', async () => {
   _ghMenu.style.display = 'none';
   const game = _ghGames.find((g) => g.gameId === _ghMenuGameId);
   if (!game) return;
-  const cur: 'premier' | 'limited' | 'eternal' =
-    game.isLimitedFormat ? 'limited' : game.format === 'open' ? 'eternal' : 'premier';
-  const ORDER: Array<'premier' | 'limited' | 'eternal'> = ['premier', 'limited', 'eternal'];
-  const next = ORDER[(ORDER.indexOf(cur) + 1) % ORDER.length];
-  await updateGameFormat(_ghMenuGameId, next);
+  await updateGameFormat(_ghMenuGameId, nextFormat(formatOf(game)));
   await Promise.all([loadHistory(), loadOverview()]);
 });
 
@@ -717,7 +1439,9 @@ const reviewTitle   = document.getElementById('review-title')!;
 const reviewMeta    = document.getElementById('review-meta')!;
 const reviewRounds  = document.getElementById('review-rounds')!;
 const reviewCharts  = document.getElementById('review-charts')!;
+const reviewSeen    = document.getElementById('review-seen')!;
 const reviewBody    = document.getElementById('review-body')!;
+const reviewScrubber = document.getElementById('review-scrubber')!;
 
 /** Stored when a review is opened — used by the Export PDF button. */
 let _reviewSnaps: RoundSnapshot[] = [];
@@ -859,7 +1583,9 @@ async function openReview(game: GameSummary): Promise<void> {
   reviewMeta.textContent  = `${formatDate(game.completedAt)} · ${game.rounds} rounds · ${res}`;
 
   reviewRounds.innerHTML = '<span style="font-size:11px;color:var(--muted)">Loading…</span>';
+  reviewScrubber.innerHTML = '';
   reviewCharts.innerHTML = '';
+  reviewSeen.innerHTML   = '';
   reviewBody.innerHTML   = '';
   reviewOverlay.classList.add('open');
 
@@ -867,6 +1593,15 @@ async function openReview(game: GameSummary): Promise<void> {
   _reviewSnaps = snaps;
   _reviewGame  = game;
 
+  const seen = await getSeenOpponentList(game.gameId);
+  if (seen && seen.cards.length > 0) {
+    reviewSeen.innerHTML =
+      `<span class="review-seen-title">Opponent revealed</span>` +
+      seen.cards
+        .map((c) => cardChip(c.copies > 1 ? `${c.copies}× ${c.cardName}` : c.cardName, c.cardSetId))
+        .join('');
+  }
+
   if (snaps.length === 0) {
     reviewRounds.innerHTML = '';
     reviewBody.innerHTML   = '<div class="review-no-data">No round snapshots available for this game.<br>Snapshots are captured starting from newly recorded games.</div>';
@@ -1101,6 +1836,11 @@ function buildRoundBodyHtml(snap: RoundSnapshot, useReviewClasses: boolean): str
   }
 }
 
+/** Combined power of the units in one arena */
+function arenaPower(units: CardSummary[]): number {
+  return units.reduce((sum, c) => sum + (c.power ?? 0), 0);
+}
+
 /** Builds the charts HTML string (reused by modal + cover page). */
 function buildChartsHtml(snaps: RoundSnapshot[]): string {
   const rounds   = snaps.map((s) => s.round);
@@ -1121,6 +1861,9 @@ function buildChartsHtml(snaps: RoundSnapshot[]): string {
 
   const xLabels = rounds.map(String);
   const simpleChartDefs: Array<{ title: string; youVals: number[]; oppVals: number[] }> = [
+    { title: 'Ground Power',    youVals: snaps.map((s) => arenaPower(s.players[0].groundArena)), oppVals: snaps.map((s) => arenaPower(s.players[1].groundArena)) },
+    { title: 'Space Power',     youVals: snaps.map((s) => arenaPower(s.players[0].spaceArena)),  oppVals: snaps.map((s) => arenaPower(s.players[1].spaceArena)) },
+    { title: 'Units in Play',   youVals: snaps.map((s) => s.players[0].groundArena.length + s.players[0].spaceArena.length), oppVals: snaps.map((s) => s.players[1].groundArena.length + s.players[1].spaceArena.length) },
     { title: 'Hand Size',       youVals: snaps.map((s) => s.players[0].hand.length),          oppVals: snaps.map((s) => s.players[1].hand.length) },
     { title: 'Avail. Resources',youVals: snaps.map((s) => s.players[0].availableResources),   oppVals: snaps.map((s) => s.players[1].availableResources) },
     { title: 'Total Resources', youVals: snaps.map((s) => s.players[0].totalResources),        oppVals: snaps.map((s) => s.players[1].totalResources) },
@@ -1172,11 +1915,206 @@ function printGameReview(
 }
 
 
+/** Short description of one card event for the action scrubber */
+function timelineEventText(e: CardEvent): string | null {
+  if (e.cardId === '__unknown__') return null;
+  const who  = e.side === 'you' ? 'You' : 'Opp';
+  const card = escHtml(e.cardName);
+  const target = e.targetCardName ? escHtml(e.targetCardName) : null;
+  switch (e.metric) {
+    case 'played':      return `${who} played ${card}`;
+    case 'attacked':    return `${who}: ${card} attacked${target ? ` ${target}` : ''}`;
+    case 'dealtDamage': return `${card} dealt ${e.count}${target ? ` to ${target}` : ''}`;
+    case 'defeated':    return `${card} defeated`;
+    case 'captured':    return `${card} captured`;
+    case 'healed':      return `${card} healed ${e.count}`;
+    case 'activated':   return `${who} activated ${card}`;
+    case 'deployed':    return `${who} deployed ${card}`;
+    case 'discarded':   return `${who} discarded ${card}`;
+    default:            return null;
+  }
+}
+
+/**
+ * Renders a round with an action scrubber: step 0 is the round-start
+ * snapshot, step N the board after the round's Nth recorded action.
+ */
 function renderReviewRound(snap: RoundSnapshot): void {
-  reviewBody.innerHTML = buildRoundBodyHtml(snap, true);
+  const actions = snap.actions ?? [];
+  if (actions.length === 0) {
+    reviewScrubber.innerHTML = '';
+    reviewBody.innerHTML = buildRoundBodyHtml(snap, true);
+    return;
+  }
+
+  reviewScrubber.innerHTML =
+    `<button class="review-step-btn" id="review-step-prev" title="Previous action">◀</button>` +
+    `<input type="range" id="review-step" min="0" max="${actions.length}" value="0">` +
+    `<button class="review-step-btn" id="review-step-next" title="Next action">▶</button>` +
+    `<span class="review-step-label" id="review-step-label"></span>`;
+  const range = document.getElementById('review-step') as HTMLInputElement;
+  const prev  = document.getElementById('review-step-prev') as HTMLButtonElement;
+  const next  = document.getElementById('review-step-next') as HTMLButtonElement;
+  const label = document.getElementById('review-step-label')!;
+
+  function show(step: number): void {
+    range.value = String(step);
+    prev.disabled = step === 0;
+    next.disabled = step === actions.length;
+    const action = step > 0 ? actions[step - 1] : null;
+    if (action) {
+      const text = action.events.map(timelineEventText).filter((t): t is string => t !== null).join(' · ');
+      label.innerHTML = `<strong>Action ${step}/${actions.length}</strong> — ${text || 'board changed'}`;
+    } else {
+      label.innerHTML = `<strong>Round start</strong> — ${actions.length} action${actions.length !== 1 ? 's' : ''} this round`;
+    }
+    reviewBody.innerHTML = buildRoundBodyHtml(action ? { ...snap, players: action.players } : snap, true);
+  }
+
+  range.addEventListener('input', () => show(parseInt(range.value, 10)));
+  prev.addEventListener('click', () => show(Math.max(0, parseInt(range.value, 10) - 1)));
+  next.addEventListener('click', () => show(Math.min(actions.length, parseInt(range.value, 10) + 1)));
+  show(0);
 }
 
 
+// ─── Full Game Replay ─────────────────────────────────────────────────────────
+
+const replayOverlay = document.getElementById('replay-overlay')!;
+const replayBoard   = document.getElementById('replay-board')!;
+const replayLog     = document.getElementById('replay-log')!;
+const replayLabel   = document.getElementById('replay-label')!;
+const replayRange   = document.getElementById('replay-step') as HTMLInputElement;
+const replayPlayBtn = document.getElementById('replay-play') as HTMLButtonElement;
+const replaySpeed   = document.getElementById('replay-speed') as HTMLSelectElement;
+
+/** The replay currently open — decoded once, stepped through by the controls */
+let _replay: {
+  states: IGameState[];
+  rounds: number[];
+  times: number[];
+  logEnds: number[];
+  rawLog: IChatEntry[];
+  players: [GamePlayer, GamePlayer];
+} | null = null;
+let _replayTimer: ReturnType<typeof setInterval> | null = null;
+
+function stopReplay(): void {
+  if (_replayTimer !== null) clearInterval(_replayTimer);
+  _replayTimer = null;
+  replayPlayBtn.textContent = '▶ Play';
+}
+
+function closeReplay(): void {
+  stopReplay();
+  _replay = null;
+  replayOverlay.classList.remove('open');
+}
+
+/** Round number of each state: a new round starts on each entry into the action phase. */
+function replayRounds(states: IGameState[]): number[] {
+  let round = 0;
+  let prevPhase: string | null = null;
+  return states.map((s) => {
+    if (s.phase === 'action' && prevPhase !== 'action') round++;
+    prevPhase = s.phase;
+    return Math.max(1, round);
+  });
+}
+
+function showReplayStep(step: number): void {
+  if (!_replay) return;
+  const { states, rounds, times, logEnds, rawLog, players } = _replay;
+  const state = states[step];
+  replayRange.value = String(step);
+
+  const elapsed = Math.round((times[step] - times[0]) / 1000);
+  replayLabel.innerHTML =
+    `<strong>Update ${step + 1}/${states.length}</strong> — Round ${rounds[step]} · ${escHtml(state.phase)} · ` +
+    `${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`;
+
+  replayBoard.innerHTML = players
+    .map((p, i) => {
+      const ps = state.players[p.id];
+      if (!ps) return `<div class="review-player"><div class="review-no-data">${escHtml(p.name)} not in this update</div></div>`;
+      return reviewPlayerHtml(toPlayerSnapshot(ps), `${i === 0 ? 'You' : 'Opponent'} — ${ps.name}`);
+    })
+    .join('');
+
+  const from = step > 0 ? logEnds[step - 1] : 0;
+  const lines = rawLog.slice(0, logEnds[step])
+    .map((e, i) => ({ text: formatLogEntry(e), isNew: i >= from }))
+    .filter((l): l is { text: string; isNew: boolean } => l.text !== null && l.text.trim().length > 0);
+  replayLog.innerHTML =
+    `<div class="review-section-title" style="margin-bottom:8px">Game Log</div>` +
+    (lines.length > 0
+      ? lines.map((l) => `<div class="review-log-line${l.isNew ? ' new' : ''}">${escHtml(l.text)}</div>`).join('')
+      : `<div class="review-log-empty">No log entries yet.</div>`);
+  replayLog.scrollTop = replayLog.scrollHeight;
+}
+
+function stepReplay(delta: number): void {
+  if (!_replay) return;
+  const last = _replay.states.length - 1;
+  showReplayStep(Math.max(0, Math.min(last, parseInt(replayRange.value, 10) + delta)));
+}
+
+/**
+ * Opens the replay viewer: every game state the recorder ingested, rebuilt
+ * from its delta encoding, with the raw log in sync on the side.
+ */
+function openReplay(title: string, meta: string, replay: GameReplay, rawLog: IChatEntry[], players: [GamePlayer, GamePlayer]): void {
+  const states = decodeSeries(replay.states);
+  stopReplay();
+  if (states.length === 0) {
+    alert('This game has no recorded updates to replay.');
+    return;
+  }
+  _replay = { states, rounds: replayRounds(states), times: replay.times, logEnds: replay.logEnds, rawLog, players };
+  document.getElementById('replay-title')!.textContent = title;
+  document.getElementById('replay-meta')!.textContent = meta;
+  replayRange.max = String(states.length - 1);
+  replayOverlay.classList.add('open');
+  showReplayStep(0);
+}
+
+replayPlayBtn.addEventListener('click', () => {
+  if (!_replay) return;
+  if (_replayTimer !== null) { stopReplay(); return; }
+  if (parseInt(replayRange.value, 10) >= _replay.states.length - 1) showReplayStep(0);
+  replayPlayBtn.textContent = '⏸ Pause';
+  _replayTimer = setInterval(() => {
+    if (!_replay || parseInt(replayRange.value, 10) >= _replay.states.length - 1) { stopReplay(); return; }
+    stepReplay(1);
+  }, parseInt(replaySpeed.value, 10));
+});
+replaySpeed.addEventListener('change', () => {
+  // Restart at the new speed
+  if (_replayTimer !== null) { stopReplay(); replayPlayBtn.click(); }
+});
+replayRange.addEventListener('input', () => { stopReplay(); showReplayStep(parseInt(replayRange.value, 10)); });
+document.getElementById('replay-prev')!.addEventListener('click', () => { stopReplay(); stepReplay(-1); });
+document.getElementById('replay-next')!.addEventListener('click', () => { stopReplay(); stepReplay(1); });
+document.getElementById('replay-first')!.addEventListener('click', () => { stopReplay(); showReplayStep(0); });
+document.getElementById('replay-last')!.addEventListener('click', () => {
+  stopReplay();
+  if (_replay) showReplayStep(_replay.states.length - 1);
+});
+document.getElementById('replay-close')!.addEventListener('click', closeReplay);
+replayOverlay.addEventListener('click', (e) => {
+  if (e.target === replayOverlay) closeReplay();
+});
+
+/** Title and meta line for a game's modal header */
+function gameHeading(game: Pick<GameRecord, 'players' | 'winner' | 'completedAt' | 'rounds'>): { title: string; meta: string } {
+  const [p0, p1] = game.players;
+  const res = game.winner === null ? 'Draw' : game.winner === p0.name ? 'Win' : 'Loss';
+  return {
+    title: `${p0.leaderName || p0.leaderId}  vs  ${p1.leaderName || p1.leaderId}`,
+    meta:  `${formatDate(game.completedAt)} · ${game.rounds} rounds · ${res}`,
+  };
+}
+
 // ─── Export ───────────────────────────────────────────────────────────────────
 
 document.getElementById('export-btn')!.addEventListener('click', async () => {
@@ -1203,6 +2141,8 @@ type ImportedDataset = {
   events: CardEvent[];
   rawLogs: { gameId: string; entries: import('../shared/types').IChatEntry[] }[];
   snapshots: { gameId: string; snapshots: import('../shared/types').RoundSnapshot[] }[];
+  replays: { gameId: string; replay: GameReplay }[];
+  decks: Deck[];
 };
 
 let _importedDatasets: ImportedDataset[] = [];
@@ -1227,16 +2167,37 @@ function renderToolsView(): void {
     const dates = ds.games.map((g) => g.completedAt).sort();
     const dateRange = dates.length ? `${fmtDateShort(dates[0])} – ${fmtDateShort(dates[dates.length - 1])}` : 'No games';
     const players = [...new Set(ds.games.map((g) => g.players[0].name))].join(', ');
+    const replayable = ds.games.filter((g) => ds.replays.some((r) => r.gameId === g.gameId));
+    const replayHtml = replayable.length === 0 ? '' : `
+        <select class="src-replay-game" data-idx="${i}">${replayable.map((g) =>
+          `<option value="${escHtml(g.gameId)}">${escHtml(gameHeading(g).title)} · ${fmtDateShort(g.completedAt)}</option>`
+        ).join('')}</select>
+        <button class="src-btn src-replay" data-idx="${i}">&#9199; Replay</button>`;
     return `
       <li class="import-source">
         <div>
           <div class="src-name">${ds.filename}</div>
           <div class="src-meta">${ds.games.length} game${ds.games.length !== 1 ? 's' : ''} · ${dateRange}${players ? ' · ' + players : ''}</div>
         </div>
-        <button class="src-remove" data-idx="${i}">✕ Remove</button>
+        <div class="src-actions">${replayHtml}
+          <button class="src-remove" data-idx="${i}">✕ Remove</button>
+        </div>
       </li>`;
   }).join('');
 
+  list.querySelectorAll<HTMLButtonElement>('.src-replay').forEach((btn) => {
+    btn.addEventListener('click', () => {
+      const ds = _importedDatasets[Number(btn.dataset.idx)];
+      const gameId = list.querySelector<HTMLSelectElement>(`.src-replay-game[data-idx="${btn.dataset.idx}"]`)!.value;
+      const game = ds.games.find((g) => g.gameId === gameId);
+      const replay = ds.replays.find((r) => r.gameId === gameId)?.replay;
+      if (!game || !replay) return;
+      const rawLog = ds.rawLogs.find((l) => l.gameId === gameId)?.entries ?? [];
+      const { title, meta } = gameHeading(game);
+      openReplay(title, meta, replay, rawLog, game.players);
+    });
+  });
+
   list.querySelectorAll<HTMLButtonElement>('.src-remove').forEach((btn) => {
     btn.addEventListener('click', () => { _importedDatasets.splice(Number(btn.dataset.idx), 1); renderToolsView(); });
   });
@@ -1254,8 +2215,8 @@ function renderToolsView(): void {
   const losses  = allGames.filter((g) => g.winner !== null && g.winner !== g.players[0].name).length;
   const draws   = allGames.filter((g) => g.winner === null).length;
   const wr      = allGames.length ? wins / allGames.length : 0;
-  const limited = allGames.filter((g) => g.isLimitedFormat).length;
-  const eternal = allGames.filter((g) => g.format === 'open').length;
+  const limited = allGames.filter((g) => formatOf(g) === 'limited').length;
+  const eternal = allGames.filter((g) => formatOf(g) === 'eternal').length;
 
   statCards.innerHTML = `
     <div class="stat-card"><div class="val">${allGames.length}</div><div class="lbl">Total Games</div></div>
@@ -1311,12 +2272,19 @@ function loadFileIntoTools(file: File): void {
   const reader = new FileReader();
   reader.onload = (e) => {
     try {
-      const json = JSON.parse(e.target!.result as string) as {
+      const parsed = JSON.parse(e.target!.result as string);
+      if ((parsed as Partial<CaptureFile>)?.kind === 'kb-tracker-capture') {
+        addReplayToTools(file.name, parseCaptureFile(parsed));
+        return;
+      }
+      const json = parsed as {
         exportedAt?: string;
         games: StoredGame[];
         events?: CardEvent[];
         rawLogs?: { gameId: string; entries: import('../shared/types').IChatEntry[] }[];
         snapshots?: { gameId: string; snapshots: import('../shared/types').RoundSnapshot[] }[];
+        replays?: { gameId: string; replay: GameReplay }[];
+        decks?: Deck[];
       };
       if (!Array.isArray(json.games)) throw new Error('Not a valid KB Tracker export (missing games array)');
       _importedDatasets.push({
@@ -1326,6 +2294,8 @@ function loadFileIntoTools(file: File): void {
         events:    Array.isArray(json.events)    ? json.events    : [],
         rawLogs:   Array.isArray(json.rawLogs)   ? json.rawLogs   : [],
         snapshots: Array.isArray(json.snapshots) ? json.snapshots : [],
+        replays:   Array.isArray(json.replays)   ? json.replays   : [],
+        decks:     Array.isArray(json.decks)     ? json.decks     : [],
       });
       renderToolsView();
     } catch (err) {
@@ -1335,6 +2305,85 @@ function loadFileIntoTools(file: File): void {
   reader.readAsText(file);
 }
 
+// ─── Session captures ────────────────────────────────────────────────────────
+
+/** Replays a capture and adds the games it produces as an import source. */
+function addReplayToTools(filename: string, capture: CaptureFile): void {
+  const { records, stateFrames, totalFrames } = replayFrames(capture.frames);
+  console.log(`[KB Tracker] replayed ${filename}: ${totalFrames} frames, ${stateFrames} game states, ${records.length} game(s)`);
+  if (records.length === 0) {
+    alert(`Replayed ${totalFrames} frame(s) from "${filename}" but no games were recorded.`);
+    return;
+  }
+  _importedDatasets.push({
+    filename: `${filename} (replay)`,
+    exportedAt: capture.session.updatedAt,
+    games: records.map(({ cardEvents: _e, rawLog: _l, snapshots: _s, replay: _r, ...header }) => header),
+    events: records.flatMap((r) => r.cardEvents),
+    rawLogs: records.map((r) => ({ gameId: r.gameId, entries: r.rawLog })),
+    snapshots: records.map((r) => ({ gameId: r.gameId, snapshots: r.snapshots })),
+    replays: records.flatMap((r) => (r.replay ? [{ gameId: r.gameId, replay: r.replay }] : [])),
+    decks: [],
+  });
+  renderToolsView();
+}
+
+function fmtChars(n: number): string {
+  if (n >= 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(n / 1024))} KB`;
+}
+
+async function loadCaptures(): Promise<void> {
+  const list = document.getElementById('tools-capture-list')!;
+  const sessions = await getCaptureSessions();
+  if (sessions.length === 0) {
+    list.innerHTML = `<li style="font-size:12px;color:var(--muted)">No captures recorded yet.</li>`;
+    return;
+  }
+
+  list.innerHTML = sessions.map((s) => `
+    <li class="import-source">
+      <div>
+        <div class="src-name">${new Date(s.startedAt).toLocaleString()}</div>
+        <div class="src-meta">${s.frameCount} frame${s.frameCount !== 1 ? 's' : ''} · ${fmtChars(s.totalChars)} · ${escHtml(s.url)}</div>
+      </div>
+      <div class="src-actions">
+        <button class="src-btn" data-action="replay" data-id="${escHtml(s.captureId)}">&#9654; Replay</button>
+        <button class="src-btn" data-action="export" data-id="${escHtml(s.captureId)}">Export</button>
+        <button class="src-remove" data-action="delete" data-id="${escHtml(s.captureId)}">✕ Delete</button>
+      </div>
+    </li>`).join('');
+
+  list.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach((btn) => {
+    btn.addEventListener('click', async () => {
+      const captureId = btn.dataset.id!;
+      try {
+        if (btn.dataset.action === 'delete') {
+          if (!confirm('Delete this capture? This cannot be undone.')) return;
+          await deleteCapture(captureId);
+          await loadCaptures();
+          return;
+        }
+        const capture = await getCaptureFile(captureId);
+        if (!capture) return;
+        if (btn.dataset.action === 'replay') {
+          addReplayToTools(captureId, capture);
+        } else {
+          const blob = new Blob([JSON.stringify(capture)], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `kb-tracker-${captureId}.json`;
+          a.click();
+          URL.revokeObjectURL(url);
+        }
+      } catch (err) {
+        alert(`Capture ${btn.dataset.action} failed: ${String(err)}`);
+      }
+    });
+  });
+}
+
 const toolsDropZone  = document.getElementById('tools-drop-zone')!;
 const toolsFileInput = document.getElementById('tools-file-input') as HTMLInputElement;
 
@@ -1365,16 +2414,18 @@ document.getElementById('tools-merge-btn')!.addEventListener('click', async () =
   btn.disabled = true;
   btn.textContent = 'Merging…';
   try {
-    const { imported, skipped } = await importGames(
+    const { imported, skipped, decksImported } = await importGames(
       allGames,
       allEvents,
       _importedDatasets.flatMap((ds) => ds.rawLogs),
-      _importedDatasets.flatMap((ds) => ds.snapshots)
+      _importedDatasets.flatMap((ds) => ds.snapshots),
+      _importedDatasets.flatMap((ds) => ds.replays),
+      _importedDatasets.flatMap((ds) => ds.decks)
     );
-    alert(`Merge complete!\n\n✅ ${imported} game(s) imported\n⏭ ${skipped} duplicate(s) skipped`);
+    alert(`Merge complete!\n\n✅ ${imported} game(s) imported\n⏭ ${skipped} duplicate(s) skipped\n🗂 ${decksImported} deck(s) added`);
     _importedDatasets = [];
     renderToolsView();
-    await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadHistory()]);
+    await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadTempo(), loadHistory(), loadDecks()]);
   } catch (err) {
     alert(`Merge failed: ${String(err)}`);
   } finally {
@@ -1383,6 +2434,258 @@ document.getElementById('tools-merge-btn')!.addEventListener('click', async () =
   }
 });
 
+// ─── Decks ────────────────────────────────────────────────────────────────────
+
+let _decks: Deck[] = [];
+/** Finished games, for per-deck records */
+let _deckGames: GameSummary[] = [];
+
+function deckStatus(msg: string): void {
+  document.getElementById('deck-import-status')!.textContent = msg;
+}
+
+/** Deck options for the sidebar filter and the import target, keeping their selections */
+function fillDeckSelects(): void {
+  const filter = document.getElementById('deck-filter') as HTMLSelectElement;
+  const prevFilter = filter.value;
+  filter.innerHTML =
+    `<option value="">All decks</option>` +
+    _decks.map((d) =>
+      `<optgroup label="${escHtml(d.name)}">` +
+      `<option value="${escHtml(d.deckId)}">${escHtml(d.name)} · all versions</option>` +
+      d.versions.map((v) => `<option value="${escHtml(d.deckId)}@${v.version}">${escHtml(d.name)} · v${v.version}</option>`).join('') +
+      `</optgroup>`
+    ).join('');
+  filter.value = [...filter.options].some((o) => o.value === prevFilter) ? prevFilter : '';
+
+  const target = document.getElementById('deck-import-target') as HTMLSelectElement;
+  const prevTarget = target.value;
+  target.innerHTML =
+    `<option value="">New deck</option>` +
+    _decks.map((d) => `<option value="${escHtml(d.deckId)}">New version of ${escHtml(d.name)}</option>`).join('');
+  target.value = _decks.some((d) => d.deckId === prevTarget) ? prevTarget : '';
+
+  const history = document.getElementById('deck-history-select') as HTMLSelectElement;
+  const prevHistory = history.value;
+  history.innerHTML = _decks.map((d) => `<option value="${escHtml(d.deckId)}">${escHtml(d.name)}</option>`).join('');
+  if (_decks.some((d) => d.deckId === prevHistory)) history.value = prevHistory;
+}
+
+function deckCardCount(cards: DeckCard[]): number {
+  return cards.reduce((n, c) => n + c.count, 0);
+}
+
+async function loadDecks(): Promise<void> {
+  _decks = await getDecks();
+  fillDeckSelects();
+
+  _deckGames = ((await getRecentGames(5000)) as GameSummary[]).filter((g) => !g.hidden && !g.incomplete);
+  if (_settings.naturalEndingsOnly) _deckGames = _deckGames.filter(isNaturalEnding);
+  const record = (deckId: string, version?: number): string => {
+    const { wins, games } = deckRecord({ deckId, version });
+    return games === 0 ? 'no games' : `${games} game${games !== 1 ? 's' : ''} · ${pct(wins / games)}`;
+  };
+
+  const list = document.getElementById('deck-list')!;
+  if (_decks.length === 0) {
+    list.innerHTML = '<li style="font-size:12px;color:var(--muted)">No decks saved yet.</li>';
+    document.getElementById('deck-history')!.innerHTML = '';
+    return;
+  }
+  list.innerHTML = _decks.map((d) => `
+      <li class="import-source">
+        <div>
+          <div class="src-name">${escHtml(d.name)}</div>
+          <div class="src-meta">${d.versions.length} version${d.versions.length !== 1 ? 's' : ''} · ${record(d.deckId)}</div>
+          <div class="deck-versions">${d.versions.map((v) =>
+            `<div>v${v.version} · ${fmtDateShort(v.importedAt)} · ${deckCardCount(v.cards)} cards` +
+            (v.sideboard.length > 0 ? ` + ${deckCardCount(v.sideboard)} sideboard` : '') +
+            ` · ${record(d.deckId, v.version)}</div>`
+          ).join('')}</div>
+        </div>
+        <div class="src-actions">
+          <button class="src-btn src-history" data-deck-id="${escHtml(d.deckId)}">History</button>
+          <button class="src-remove" data-deck-id="${escHtml(d.deckId)}">✕ Delete</button>
+        </div>
+      </li>`).join('');
+
+  list.querySelectorAll<HTMLButtonElement>('.src-history').forEach((btn) => {
+    btn.addEventListener('click', async () => {
+      (document.getElementById('deck-history-select') as HTMLSelectElement).value = btn.dataset.deckId!;
+      await renderDeckHistory();
+      document.getElementById('deck-history-select')!.scrollIntoView({ behavior: 'smooth' });
+    });
+  });
+
+  list.querySelectorAll<HTMLButtonElement>('.src-remove').forEach((btn) => {
+    btn.addEventListener('click', async () => {
+      const deck = _decks.find((d) => d.deckId === btn.dataset.deckId);
+      if (!deck || !confirm(`Delete "${deck.name}" and all its versions? Games matched to it lose their deck.`)) return;
+      await deleteDeck(deck.deckId);
+      await loadDecks();
+      await reloadFilteredViews();
+    });
+  });
+
+  await renderDeckHistory();
+}
+
+interface DeckRecord extends WinTally {
+  losses: number;
+  draws: number;
+}
+
+function deckRecord(filter: DeckFilter): DeckRecord {
+  const games = _deckGames.filter((g) => matchesDeckFilter(g, filter));
+  const wins = games.filter((g) => g.winner === g.players[0].name).length;
+  const draws = games.filter((g) => g.winner === null).length;
+  return { wins, losses: games.length - wins - draws, draws, games: games.length };
+}
+
+/** The stats row for a deck line, if the card turned up in that version's games */
+function statsForLine(stats: CardStats[], line: DeckCard): CardStats | undefined {
+  return stats.find((s) => isSameCard(line, { id: s.cardId, setId: s.cardSetId }));
+}
+
+/** "48.0% (12)" — win rate when played, with the number of games */
+function playedRateText(s: CardStats | undefined): string {
+  return s && s.gamesPlayedIn > 0 ? `${pct(s.winRateWhenPlayed)} (${s.gamesPlayedIn})` : '—';
+}
+
+function deckDiffHtml(diff: DeckDiff, prev: DeckVersion, prevStats: CardStats[], stats: CardStats[]): string {
+  const row = (c: DeckLineChange, where = ''): string => {
+    const s = statsForLine(stats, c.line) ?? statsForLine(prevStats, c.line);
+    const name = c.line.name ?? s?.cardName ?? c.line.setCode ?? '?';
+    const n = c.after - c.before;
+    return `
+      <div class="deck-diff-row">
+        <span class="n ${n > 0 ? 'add' : 'cut'}">${n > 0 ? '+' : '−'}${Math.abs(n)}</span>
+        ${cardChip(name, s?.cardSetId)}${where}
+        <span class="swap" title="Win % in games the card was played: v${prev.version} → this version">
+          played ${playedRateText(statsForLine(prevStats, c.line))} → ${playedRateText(statsForLine(stats, c.line))}
+        </span>
+      </div>`;
+  };
+  const rows = [
+    ...(diff.leaderChanged ? ['<div class="deck-diff-row"><span class="n">★</span>Leader changed</div>'] : []),
+    ...(diff.baseChanged ? ['<div class="deck-diff-row"><span class="n">★</span>Base changed</div>'] : []),
+    ...diff.cards.map((c) => row(c)),
+    ...diff.sideboard.map((c) => row(c, ' <span class="swap">(sideboard)</span>')),
+  ];
+  return rows.length > 0
+    ? `<div class="deck-diff"><div style="font-size:11px;color:var(--muted)">Changes from v${prev.version}</div>${rows.join('')}</div>`
+    : `<div class="deck-diff" style="color:var(--muted)">Same list as v${prev.version}</div>`;
+}
+
+function deckCardTableHtml(stats: CardStats[]): string {
+  const rows = stats
+    .filter((s) => s.gamesAppeared > 0)
+    .sort((a, b) => b.gamesPlayedIn - a.gamesPlayedIn || a.cardName.localeCompare(b.cardName));
+  if (rows.length === 0) return '';
+  return `
+    <details>
+      <summary>Card stats (${rows.length} cards)</summary>
+      <div class="table-wrap">
+        <table>
+          <thead><tr><th>Card</th><th>Played In</th><th>Win% Played</th><th>Win% Drawn</th><th title="Win % played minus win % drawn but not played">Played vs. Unplayed</th></tr></thead>
+          <tbody>${rows.map((s) => `
+            <tr>
+              <td>${cardChip(s.cardName, s.cardSetId)}</td>
+              <td>${s.gamesPlayedIn}</td>
+              <td>${rateCell(s.gamesWonWhenPlayed, s.gamesPlayedIn, s.winRateWhenPlayed, s.winRateWhenPlayedLow, s.winRateWhenPlayedHigh)}</td>
+              <td>${rateCell(s.gamesWonWhenDrawn, s.gamesDrawnIn, s.winRateWhenDrawn, s.winRateWhenDrawnLow, s.winRateWhenDrawnHigh)}</td>
+              <td>${s.playedWinRateDelta === null ? '—' : `<span title="95%: ${signedPct(s.playedWinRateDeltaLow!)} to ${signedPct(s.playedWinRateDeltaHigh!)}">${signedPct(s.playedWinRateDelta)}</span>`}</td>
+            </tr>`).join('')}
+          </tbody>
+        </table>
+      </div>
+    </details>`;
+}
+
+/** Every version of the picked deck, newest first, with its record, changes and card stats */
+async function renderDeckHistory(): Promise<void> {
+  const container = document.getElementById('deck-history')!;
+  const deckId = (document.getElementById('deck-history-select') as HTMLSelectElement).value;
+  const deck = _decks.find((d) => d.deckId === deckId);
+  if (!deck) {
+    container.innerHTML = '';
+    return;
+  }
+
+  const stats = await Promise.all(
+    deck.versions.map((v) =>
+      getCardStats('', undefined, undefined, undefined, {
+        naturalEndingsOnly: _settings.naturalEndingsOnly,
+        deckFilter: { deckId, version: v.version },
+      })
+    )
+  );
+
+  container.innerHTML = deck.versions
+    .map((v, i) => {
+      const { wins, losses, draws, games } = deckRecord({ deckId, version: v.version });
+      const { low, high } = wilsonInterval(wins, games);
+      const prev = deck.versions[i - 1];
+      return `
+        <div class="deck-version">
+          <div class="deck-version-head">
+            <strong>v${v.version}</strong>
+            <span class="meta">${fmtDateShort(v.importedAt)} · ${deckCardCount(v.cards)} cards</span>
+            ${games === 0
+              ? '<span class="meta">no games</span>'
+              : `<span>${pct(wins / games)}</span><span class="meta">${wins}–${losses}${draws > 0 ? `–${draws}` : ''} in ${games} game${games !== 1 ? 's' : ''}</span>${ciBar(wins / games, low, high)}`}
+          </div>
+          ${prev ? deckDiffHtml(diffDeckVersions(prev, v), prev, stats[i - 1], stats[i]) : ''}
+          ${deckCardTableHtml(stats[i])}
+        </div>`;
+    })
+    .reverse()
+    .join('');
+}
+
+document.getElementById('deck-history-select')!.addEventListener('change', renderDeckHistory);
+
+document.getElementById('deck-import-file-btn')!.addEventListener('click', () => {
+  (document.getElementById('deck-import-file') as HTMLInputElement).click();
+});
+document.getElementById('deck-import-file')!.addEventListener('change', async (e) => {
+  const input = e.target as HTMLInputElement;
+  const file = input.files?.[0];
+  if (!file) return;
+  (document.getElementById('deck-import-text') as HTMLTextAreaElement).value = await file.text();
+  const nameInput = document.getElementById('deck-import-name') as HTMLInputElement;
+  if (!nameInput.value) nameInput.value = file.name.replace(/\.(json|txt)$/i, '');
+  input.value = '';
+});
+
+document.getElementById('deck-import-btn')!.addEventListener('click', async () => {
+  const textArea = document.getElementById('deck-import-text') as HTMLTextAreaElement;
+  const nameInput = document.getElementById('deck-import-name') as HTMLInputElement;
+  const targetId = (document.getElementById('deck-import-target') as HTMLSelectElement).value || undefined;
+
+  let list: ParsedDeck;
+  try {
+    list = parseDeckList(textArea.value);
+  } catch (err) {
+    deckStatus(`Error: ${(err as Error).message}`);
+    return;
+  }
+  const name = nameInput.value.trim() || list.name || `Deck ${_decks.length + 1}`;
+  deckStatus('Saving and matching games…');
+  try {
+    const deck = await saveDeckVersion(list, name, targetId);
+    textArea.value = '';
+    nameInput.value = '';
+    deckStatus(`Saved ${deck.name} v${deck.versions.length}.`);
+  } catch (err) {
+    console.error('[KB Tracker] saveDeckVersion failed:', err);
+    deckStatus(`Error: ${String(err)}`);
+    return;
+  }
+  await loadDecks();
+  await reloadFilteredViews();
+});
+
 // ─── Boot ─────────────────────────────────────────────────────────────────────
 
 // ─── Settings ─────────────────────────────────────────────────────────────────────────────
@@ -1392,6 +2695,7 @@ function populateSettingsForm(): void {
   (document.getElementById('set-default-tab') as HTMLSelectElement).value = _settings.defaultTab;
   (document.getElementById('set-default-format') as HTMLSelectElement).value = _settings.defaultFormat;
   (document.getElementById('set-min-games') as HTMLInputElement).value = String(_settings.minGamesThreshold);
+  (document.getElementById('set-natural-only') as HTMLInputElement).checked = _settings.naturalEndingsOnly;
   (document.getElementById('set-confirm-clear') as HTMLInputElement).checked = _settings.confirmBeforeClear;
   (document.getElementById('set-retention') as HTMLInputElement).value = String(_settings.dataRetentionLimit);
   (document.getElementById('set-auto-sync') as HTMLInputElement).checked = _settings.autoSyncEnabled;
@@ -1399,7 +2703,7 @@ function populateSettingsForm(): void {
 
 function applySettingsDefaults(): void {
   const fmt = _settings.defaultFormat;
-  for (const id of ['ov-format', 'mu-format', 'cs-format', 'gh-format']) {
+  for (const id of ['ov-format', 'mu-format', 'cs-format', 'tp-format', 'gh-format', 'sc-format']) {
     const sel = document.getElementById(id) as HTMLSelectElement | null;
     if (sel && fmt) sel.value = fmt;
   }
@@ -1421,6 +2725,7 @@ document.getElementById('settings-save-btn')!.addEventListener('click', async ()
     defaultTab:         (document.getElementById('set-default-tab') as HTMLSelectElement).value as KBSettings['defaultTab'],
     defaultFormat:      (document.getElementById('set-default-format') as HTMLSelectElement).value as KBSettings['defaultFormat'],
     minGamesThreshold:  Math.max(0, parseInt((document.getElementById('set-min-games') as HTMLInputElement).value) || 0),
+    naturalEndingsOnly: (document.getElementById('set-natural-only') as HTMLInputElement).checked,
     confirmBeforeClear: (document.getElementById('set-confirm-clear') as HTMLInputElement).checked,
     dataRetentionLimit: Math.max(0, parseInt((document.getElementById('set-retention') as HTMLInputElement).value) || 0),
     autoSyncEnabled:    (document.getElementById('set-auto-sync') as HTMLInputElement).checked,
@@ -1431,8 +2736,7 @@ document.getElementById('settings-save-btn')!.addEventListener('click', async ()
   status.textContent = '✓ Saved';
   setTimeout(() => { status.textContent = ''; }, 2500);
   // Re-render views affected by changed settings
-  renderMuRows(_muData);
-  await loadHistory();
+  await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadTempo(), loadHistory(), loadDecks()]);
 });
 
 document.getElementById('set-retention-trim')!.addEventListener('click', async () => {
@@ -1516,7 +2820,7 @@ document.getElementById('account-pull-btn')!.addEventListener('click', async ()
   if (resp?.type === 'SYNC_STATUS_RESPONSE') {
     renderAccountSyncStatus(resp.status);
     // Refresh views with any newly pulled data
-    await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadHistory()]);
+    await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadTempo(), loadHistory(), loadDecks()]);
   }
 });
 
@@ -1554,7 +2858,8 @@ async function init(): Promise<void> {
 
   await loadLeaderPanel();
   await loadBaseColorDropdown();
-  await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadHistory()]);
+  await loadDecks();
+  await Promise.all([loadOverview(), loadMatchups(), loadCardStats(), loadTempo(), loadHistory(), loadScouting()]);
 
   // If URL has ?game=... open that game's detail (future: detail modal)
   const params = new URLSearchParams(location.search);
@@ -39,8 +39,9 @@
           return;
         }
         console.debug('[KB Tracker] WS msg (' + event.data.length + ' chars):', event.data.slice(0, 120));
+        // ts lets session captures record arrival time, not postMessage delivery time
         window.postMessage(
-          { source: 'KB_TRACKER_WS_MSG', data: event.data },
+          { source: 'KB_TRACKER_WS_MSG', data: event.data, ts: Date.now() },
           '*'
         );
       });
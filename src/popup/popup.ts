@@ -1,5 +1,6 @@
 import browser from 'webextension-polyfill';
-import type { ExtMessage, StoredGame } from '../shared/types';
+import { FORMAT_LABELS, formatOf } from '../shared/formatDetector';
+import type { ExtMessage, FormatMode, StoredGame } from '../shared/types';
 
 function escHtml(str: string): string {
   return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -59,9 +60,9 @@ function renderGameList(games: GameSummary[]): void {
     const p1 = game.players[1];
     const res = resultClass(game, p0.name);
 
+    const format = formatOf(game);
     const badgeHTML = `<span class="badge ${res}">${res.toUpperCase()}</span>` +
-      (game.isLimitedFormat ? '<span class="badge limited">Limited</span>' : '') +
-      (game.format === 'open' ? '<span class="badge eternal">Eternal</span>' : '');
+      (format !== 'premier' ? `<span class="badge ${format}">${FORMAT_LABELS[format]}</span>` : '');
 
     li.innerHTML = `
       <div>
@@ -105,27 +106,29 @@ async function init(): Promise<void> {
     console.error('[KB Tracker] popup error:', err);
   }
 
-  // Format mode toggle (premier → limited → eternal → premier)
+  // Format mode toggle (auto → premier → limited → eternal → auto). Formats are
+  // detected; the manual ones only apply to games detection can't settle
   const fmtBtn = document.getElementById('format-mode-btn')!;
-  const FORMAT_CYCLE: Array<'premier' | 'limited' | 'eternal'> = ['premier', 'limited', 'eternal'];
-  const FORMAT_LABELS: Record<string, string> = {
-    premier: '\u25B6 FORMAT: PREMIER',
-    limited: '\u25B6 FORMAT: LIMITED',
-    eternal: '\u25B6 FORMAT: ETERNAL',
+  const FORMAT_CYCLE: FormatMode[] = ['auto', 'premier', 'limited', 'eternal'];
+  const FORMAT_MODE_LABELS: Record<FormatMode, string> = {
+    auto: '\u25B6 FORMAT: AUTO',
+    premier: '\u25B6 FORMAT: AUTO, ELSE PREMIER',
+    limited: '\u25B6 FORMAT: AUTO, ELSE LIMITED',
+    eternal: '\u25B6 FORMAT: AUTO, ELSE ETERNAL',
   };
 
-  function setFormatModeUI(mode: 'premier' | 'limited' | 'eternal'): void {
-    fmtBtn.textContent = FORMAT_LABELS[mode];
+  function setFormatModeUI(mode: FormatMode): void {
+    fmtBtn.textContent = FORMAT_MODE_LABELS[mode];
     fmtBtn.className = mode;
   }
 
   browser.storage.local.get('formatMode').then((res) => {
-    setFormatModeUI((res['formatMode'] as 'premier' | 'limited' | 'eternal') || 'premier');
+    setFormatModeUI((res['formatMode'] as FormatMode) || 'auto');
   });
 
   fmtBtn.addEventListener('click', () => {
     browser.storage.local.get('formatMode').then((res) => {
-      const current: 'premier' | 'limited' | 'eternal' = (res['formatMode'] as 'premier' | 'limited' | 'eternal') || 'premier';
+      const current: FormatMode = (res['formatMode'] as FormatMode) || 'auto';
       const next = FORMAT_CYCLE[(FORMAT_CYCLE.indexOf(current) + 1) % FORMAT_CYCLE.length];
       browser.storage.local.set({ formatMode: next });
       setFormatModeUI(next);
@@ -159,6 +162,46 @@ async function init(): Promise<void> {
     });
   });
 
+  // Live overlay toggle (default: disabled)
+  const overlayBtn = document.getElementById('overlay-btn')!;
+
+  function setOverlayUI(enabled: boolean): void {
+    overlayBtn.textContent = enabled ? '\u25A3 Overlay ON' : '\u25A3 Overlay OFF';
+    overlayBtn.className = enabled ? 'enabled' : '';
+  }
+
+  browser.storage.local.get('overlayEnabled').then((res) => {
+    setOverlayUI(res['overlayEnabled'] === true);
+  });
+
+  overlayBtn.addEventListener('click', () => {
+    browser.storage.local.get('overlayEnabled').then((res) => {
+      const next = res['overlayEnabled'] !== true;
+      browser.storage.local.set({ overlayEnabled: next });
+      setOverlayUI(next);
+    });
+  });
+
+  // Raw session capture toggle (default: disabled)
+  const captureBtn = document.getElementById('capture-btn')!;
+
+  function setCaptureUI(enabled: boolean): void {
+    captureBtn.textContent = enabled ? '\u25CF Capture ON' : '\u25CF Capture OFF';
+    captureBtn.className = enabled ? 'enabled' : '';
+  }
+
+  browser.storage.local.get('captureEnabled').then((res) => {
+    setCaptureUI(res['captureEnabled'] === true);
+  });
+
+  captureBtn.addEventListener('click', () => {
+    browser.storage.local.get('captureEnabled').then((res) => {
+      const next = res['captureEnabled'] !== true;
+      browser.storage.local.set({ captureEnabled: next });
+      setCaptureUI(next);
+    });
+  });
+
   // Export button
   document.getElementById('export-btn')!.addEventListener('click', async () => {
     const resp = await sendMessage({ type: 'EXPORT_ALL' } as Extract<ExtMessage, { type: 'EXPORT_ALL' }>);
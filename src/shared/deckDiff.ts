@@ -0,0 +1,70 @@
+/**
+ * deckDiff.ts
+ *
+ * Card-level changes between two versions of a saved deck.
+ *
+ * Lines are matched by set code when both versions carry one and by the
+ * name's Karabast key otherwise (see deckList.ts), so a list re-imported
+ * from another source may show a card as removed and added again.
+ */
+
+import { cardKey } from './deckList';
+import type { DeckCard, DeckVersion } from './types';
+
+/** One card whose count changed; `before` or `after` is 0 when it was added or cut */
+export interface DeckLineChange {
+  /** The line as it reads in the newer version, or the older one when cut */
+  line: DeckCard;
+  before: number;
+  after: number;
+}
+
+export interface DeckDiff {
+  leaderChanged: boolean;
+  baseChanged: boolean;
+  cards: DeckLineChange[];
+  sideboard: DeckLineChange[];
+}
+
+/** Identity of a deck line across versions */
+export function deckLineKey(line: DeckCard): string {
+  return line.setCode ?? cardKey(line.name ?? '');
+}
+
+function sameLine(a: DeckCard | null, b: DeckCard | null): boolean {
+  if (!a || !b) return a === b;
+  return deckLineKey(a) === deckLineKey(b);
+}
+
+function diffLines(before: DeckCard[], after: DeckCard[]): DeckLineChange[] {
+  const changes = new Map<string, DeckLineChange>();
+  for (const line of before) {
+    const key = deckLineKey(line);
+    const c = changes.get(key);
+    if (c) c.before += line.count;
+    else changes.set(key, { line, before: line.count, after: 0 });
+  }
+  for (const line of after) {
+    const key = deckLineKey(line);
+    const c = changes.get(key);
+    if (c) {
+      c.line = line;
+      c.after += line.count;
+    } else {
+      changes.set(key, { line, before: 0, after: line.count });
+    }
+  }
+  return [...changes.values()]
+    .filter((c) => c.before !== c.after)
+    .sort((a, b) => (b.after - b.before) - (a.after - a.before) || deckLineKey(a.line).localeCompare(deckLineKey(b.line)));
+}
+
+/** What changed from `prev` to `next`; additions come first, then cuts. */
+export function diffDeckVersions(prev: DeckVersion, next: DeckVersion): DeckDiff {
+  return {
+    leaderChanged: !sameLine(prev.leader, next.leader),
+    baseChanged: !sameLine(prev.base, next.base),
+    cards: diffLines(prev.cards, next.cards),
+    sideboard: diffLines(prev.sideboard, next.sideboard),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * deckList.ts
+ *
+ * Reads decklists into DeckCard lists. Two formats are accepted:
+ *
+ *   SWUDB JSON – { metadata: { name }, leader: { id, count }, base: { id, count },
+ *                  deck: [{ id, count }], sideboard: [{ id, count }] }
+ *                where ids are set codes like "SOR_046".
+ *
+ *   Plain text – one card per line, "3 Battlefield Marine", "3x …" or
+ *                "3 | …", under optional Leader / Base / Deck / Sideboard
+ *                headings. A unique card's subtitle follows " | " or ", ".
+ *                Lines before any heading count as the main deck; a
+ *                leader or base line needs its heading.
+ *
+ * Recorded cards carry Karabast IDs ("han-solo#old-friend") and set IDs, so
+ * deck cards are compared by set code when the list has one and by the
+ * name's slug otherwise (see cardKey).
+ */
+
+import type { CardSummary, DeckCard } from './types';
+
+/** A decklist as read from an import, before it joins the library */
+export interface ParsedDeck {
+  /** Name the list carries (SWUDB metadata), if any */
+  name?: string;
+  leader: DeckCard | null;
+  base: DeckCard | null;
+  cards: DeckCard[];
+  sideboard: DeckCard[];
+}
+
+interface SwudbCard {
+  id: string;
+  count: number;
+}
+
+interface SwudbDeck {
+  metadata?: { name?: string };
+  leader?: SwudbCard | null;
+  base?: SwudbCard | null;
+  deck?: SwudbCard[];
+  sideboard?: SwudbCard[] | null;
+}
+
+/** "SOR_046" for a card's set ID */
+export function setCode(setId: { set: string; number: number }): string {
+  return `${setId.set.toUpperCase()}_${String(setId.number).padStart(3, '0')}`;
+}
+
+function slug(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Name key in Karabast's ID form: "Han Solo | Old Friend" → "han-solo#old-friend".
+ * The part before '#' is the card's title alone.
+ */
+export function cardKey(name: string): string {
+  const [title, subtitle] = name.split(/\s*\|\s*|,\s+/, 2);
+  return subtitle ? `${slug(title)}#${slug(subtitle)}` : slug(title);
+}
+
+/** Whether a recorded card is the one a deck line names */
+export function isSameCard(line: DeckCard, card: Pick<CardSummary, 'id'> & { setId?: { set: string; number: number } }): boolean {
+  if (line.setCode && card.setId) return line.setCode === setCode(card.setId);
+  if (!line.name) return false;
+  const key = cardKey(line.name);
+  return key.includes('#') ? key === card.id : key === card.id.split('#')[0];
+}
+
+function fromSwudb(json: SwudbDeck): ParsedDeck {
+  const line = (c: SwudbCard): DeckCard => ({ setCode: c.id.toUpperCase(), count: c.count });
+  if (!Array.isArray(json.deck)) throw new Error('SWUDB JSON has no "deck" list');
+  return {
+    name: json.metadata?.name || undefined,
+    leader: json.leader ? line(json.leader) : null,
+    base: json.base ? line(json.base) : null,
+    cards: json.deck.map(line),
+    sideboard: (json.sideboard ?? []).map(line),
+  };
+}
+
+const SECTION_HEADINGS: Record<string, 'leader' | 'base' | 'cards' | 'sideboard'> = {
+  leader: 'leader',
+  leaders: 'leader',
+  base: 'base',
+  bases: 'base',
+  deck: 'cards',
+  'main deck': 'cards',
+  maindeck: 'cards',
+  sideboard: 'sideboard',
+};
+
+function fromText(text: string): ParsedDeck {
+  const deck: ParsedDeck = { leader: null, base: null, cards: [], sideboard: [] };
+  let section: 'leader' | 'base' | 'cards' | 'sideboard' = 'cards';
+  for (const raw of text.split(/\r?\n/)) {
+    const lineText = raw.trim();
+    if (!lineText || lineText.startsWith('//') || lineText.startsWith('#')) continue;
+    const heading = SECTION_HEADINGS[lineText.replace(/[:\s(\d)]+$/, '').toLowerCase()];
+    if (heading) {
+      section = heading;
+      continue;
+    }
+    const m = /^(\d+)\s*(?:x\s+|\|\s*|\s)\s*(.+)$/i.exec(lineText);
+    if (!m) throw new Error(`Can't read "${lineText}" — expected "<count> <card name>"`);
+    const card: DeckCard = { name: m[2].trim(), count: parseInt(m[1], 10) };
+    if (section === 'leader') deck.leader = card;
+    else if (section === 'base') deck.base = card;
+    else deck[section].push(card);
+  }
+  if (deck.cards.length === 0) throw new Error('No main-deck cards found');
+  return deck;
+}
+
+/** Reads a SWUDB JSON export or a plain-text list; throws when it can't. */
+export function parseDeckList(text: string): ParsedDeck {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{')) return fromText(trimmed);
+  let json: SwudbDeck;
+  try {
+    json = JSON.parse(trimmed) as SwudbDeck;
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  return fromSwudb(json);
+}
@@ -0,0 +1,80 @@
+/**
+ * deckMatch.ts
+ *
+ * Works out which saved deck the local player brought to a game.
+ *
+ * The cards seen for the player — drawn, played, resourced or discarded, plus
+ * the opening hand — are checked against every deck version whose leader
+ * (when the list names one) is the game's leader. A version scores the share
+ * of seen cards it contains, sideboard included; the best score of at least
+ * MATCH_THRESHOLD wins, provided MIN_SEEN_CARDS different cards were seen.
+ *
+ * Versions of one deck often tie, since most cards survive an update. A tie
+ * goes to the newest version imported before the game ended, or to the
+ * oldest version when the game predates them all.
+ */
+
+import { isSameCard } from './deckList';
+import type { CardEvent, Deck, DeckFilter, DeckVersion, GameCardMetric, GameDeck, GamePlayer, OpeningHand } from './types';
+
+export const MATCH_THRESHOLD = 0.8;
+export const MIN_SEEN_CARDS = 3;
+
+/** Metrics that only a card from the player's own deck can produce — tokens never do */
+const DECK_METRICS: ReadonlySet<GameCardMetric> = new Set(['played', 'resourced', 'drawn', 'discarded', 'attached', 'smuggled', 'exploited']);
+
+export interface SeenCard {
+  id: string;
+  setId?: { set: string; number: number };
+}
+
+/** Distinct deck cards seen for one player, leader and base left out */
+export function seenCards(events: CardEvent[], player: GamePlayer, hand?: OpeningHand | null): SeenCard[] {
+  const seen = new Map<string, SeenCard>();
+  const add = (id: string, setId?: { set: string; number: number }): void => {
+    if (!id || id === player.leaderId || id === player.baseId || seen.has(id)) return;
+    seen.set(id, { id, setId });
+  };
+  for (const e of events) {
+    if (e.playerId === player.id && DECK_METRICS.has(e.metric)) add(e.cardId, e.cardSetId);
+  }
+  for (const c of [...(hand?.drawn ?? []), ...(hand?.kept ?? [])]) add(c.cardId, c.cardSetId);
+  return [...seen.values()];
+}
+
+function fitsLeader(v: DeckVersion, player: GamePlayer): boolean {
+  return !v.leader || isSameCard(v.leader, { id: player.leaderId, setId: player.leaderSetId });
+}
+
+/** Whether version a should win a tie against b for a game that ended at `completedAt` */
+function preferOnTie(a: DeckVersion, b: DeckVersion, completedAt: string): boolean {
+  const aBefore = a.importedAt <= completedAt;
+  const bBefore = b.importedAt <= completedAt;
+  if (aBefore !== bBefore) return aBefore;
+  return aBefore ? a.importedAt > b.importedAt : a.importedAt < b.importedAt;
+}
+
+/** The best-fitting deck version, or null when none fits well enough. */
+export function matchDeck(decks: Deck[], player: GamePlayer, seen: SeenCard[], completedAt: string): GameDeck | null {
+  if (seen.length < MIN_SEEN_CARDS) return null;
+  let best: { deck: Deck; version: DeckVersion; score: number } | null = null;
+  for (const deck of decks) {
+    for (const version of deck.versions) {
+      if (!fitsLeader(version, player)) continue;
+      const lines = [...version.cards, ...version.sideboard];
+      const score = seen.filter((c) => lines.some((l) => isSameCard(l, c))).length / seen.length;
+      if (score < MATCH_THRESHOLD) continue;
+      if (!best || score > best.score || (score === best.score && preferOnTie(version, best.version, completedAt))) {
+        best = { deck, version, score };
+      }
+    }
+  }
+  return best ? { deckId: best.deck.deckId, version: best.version.version, score: best.score } : null;
+}
+
+/** Whether a game passes a deck filter; no filter lets everything through. */
+export function matchesDeckFilter(game: { deck?: GameDeck }, filter?: DeckFilter): boolean {
+  if (!filter) return true;
+  if (game.deck?.deckId !== filter.deckId) return false;
+  return filter.version === undefined || game.deck.version === filter.version;
+}
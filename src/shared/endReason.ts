@@ -0,0 +1,56 @@
+/**
+ * endReason.ts
+ *
+ * Classifies how a game ended from its final state and log.
+ *
+ * Karabast declares winners for every ending, so the board and the log are
+ * checked in order of certainty:
+ *  • two winners                         → draw
+ *  • a loser's base damage ≥ its HP      → baseDestroyed
+ *  • "conceded" / "timed out" in the log → concede / timeout
+ *  • the losing opponent left / dropped  → opponentLeft / timeout
+ */
+
+import type { GameEndReason, GameRecord, IChatEntry, IGameState } from './types';
+import { formatLogEntry } from './logParser';
+
+/** Log phrases the server uses when a player gives up or is dropped */
+const CONCEDE_PATTERN = /\bconcede[sd]?\b/;
+const TIMEOUT_PATTERN = /\btimed out\b|\btimeout\b|\binactiv/;
+/** How many trailing log entries are searched for a concede / timeout message */
+const END_LOG_WINDOW = 10;
+
+export const END_REASON_LABELS: Record<GameEndReason, string> = {
+  baseDestroyed: 'Base destroyed',
+  concede: 'Concession',
+  opponentLeft: 'Opponent left',
+  timeout: 'Timeout',
+  draw: 'Draw',
+};
+
+/** Works out why a game with declared winners ended. */
+export function classifyEnd(state: IGameState, opponentId: string, log: IChatEntry[]): GameEndReason {
+  if (state.winners.length > 1) return 'draw';
+  const losers = Object.values(state.players).filter((p) => !state.winners.includes(p.name));
+  if (losers.some((p) => (p.base?.damage ?? 0) >= (p.base?.hp ?? 30))) return 'baseDestroyed';
+
+  const text = log.slice(-END_LOG_WINDOW).map((e) => formatLogEntry(e) ?? '').join(' ');
+  if (CONCEDE_PATTERN.test(text)) return 'concede';
+  if (TIMEOUT_PATTERN.test(text)) return 'timeout';
+
+  const opp = state.players[opponentId];
+  if (opp && !state.winners.includes(opp.name)) {
+    if (opp.left) return 'opponentLeft';
+    if (opp.disconnected) return 'timeout';
+  }
+  // A result with the loser's base intact and no other signal is a concession
+  return 'concede';
+}
+
+/**
+ * True when the game was decided on the board. Games recorded before end
+ * reasons were tracked have no reason and are treated as natural.
+ */
+export function isNaturalEnding(game: Pick<GameRecord, 'endReason'>): boolean {
+  return game.endReason === undefined || game.endReason === 'baseDestroyed' || game.endReason === 'draw';
+}
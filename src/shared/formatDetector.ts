@@ -0,0 +1,139 @@
+/**
+ * formatDetector.ts
+ *
+ * Works out what format a game was played as: Premier, Twin Suns, Limited
+ * (draft or sealed), Eternal or Next Set Preview.
+ *
+ * The lobby's game mode alone can't tell: Karabast only offers Premier,
+ * Next Set Preview and open lobbies, and open lobbies host Eternal as well
+ * as limited and casual games. So the decks decide first:
+ *  - More than two players, or decks of TWIN_SUNS_MIN_DECK cards or more
+ *    with no card seen twice, is Twin Suns.
+ *  - A deck under PREMIER_MIN_DECK cards, or more than
+ *    MAX_CONSTRUCTED_COPIES copies of one card, is Limited.
+ *  - A Next Set Preview lobby, or a card in an open lobby from a set not in
+ *    RELEASED_SETS, is Next Set Preview. Premier lobbies check set legality
+ *    on the server, so a stale set list can't misfile those games.
+ *  - Otherwise the lobby decides: Premier, or Eternal for an open lobby.
+ *
+ * An open-lobby game that nothing else settles is marked uncertain; only
+ * then does the popup's manual format apply (see applyFormatMode).
+ */
+
+import type { FormatDetection, FormatMode, FormatSightings, GameFormat, GameRecord, IGameState } from './types';
+
+/** Smallest Premier deck; Limited decks start at 30 */
+export const PREMIER_MIN_DECK = 50;
+/** Smallest Twin Suns deck */
+export const TWIN_SUNS_MIN_DECK = 80;
+/** Copies of one card a constructed deck may run */
+export const MAX_CONSTRUCTED_COPIES = 3;
+
+/** Set codes of released sets; needs the new code each time a set releases */
+export const RELEASED_SETS: ReadonlySet<string> = new Set(['SOR', 'SHD', 'TWI', 'JTL', 'LOF', 'IBH', 'SEC', 'LAW']);
+
+export const FORMAT_LABELS: Record<GameFormat, string> = {
+  premier: 'Premier',
+  twinSuns: 'Twin Suns',
+  limited: 'Limited',
+  eternal: 'Eternal',
+  nextSetPreview: 'Next Set Preview',
+};
+
+export interface FormatEvidence {
+  /** The lobby's game mode */
+  gameMode: string;
+  playerCount: number;
+  /** Cards each player started with (GamePlayer.deckSize) */
+  deckSizes: number[];
+  /** Most copies of one card seen for any one player */
+  maxCopies: number;
+  /** Set codes of every card seen */
+  sets: string[];
+}
+
+export function emptySightings(): FormatSightings {
+  return { copies: {}, sets: [] };
+}
+
+/** Adds the cards in one state to the sightings. */
+export function noteSightings(s: FormatSightings, state: IGameState): void {
+  for (const [playerId, ps] of Object.entries(state.players ?? {})) {
+    const piles = ps.cardPiles;
+    // Lobby and partial states come without piles
+    if (!piles) continue;
+    const owned = [...(piles.hand ?? []), ...(piles.resources ?? []), ...(piles.discard ?? [])];
+    // Piles a card only reaches from its owner's deck; arenas hold stolen units too
+    for (const c of owned) {
+      if (!c.id || !c.uuid || (c.type ?? '').toLowerCase().includes('token')) continue;
+      const uuids = (s.copies[`${playerId}|${c.id}`] ??= []);
+      if (!uuids.includes(c.uuid)) uuids.push(c.uuid);
+    }
+    const units = [...(piles.groundArena ?? []), ...(piles.spaceArena ?? [])];
+    const all = [ps.leader, ps.base, ...owned, ...units, ...units.flatMap((u) => u.upgrades ?? [])];
+    for (const c of all) {
+      const set = c?.setId?.set.toUpperCase();
+      if (set && !s.sets.includes(set)) s.sets.push(set);
+    }
+  }
+}
+
+/** Most uuids seen for one player's copies of one card */
+export function maxCopiesSeen(s: FormatSightings): number {
+  return Math.max(0, ...Object.values(s.copies).map((uuids) => uuids.length));
+}
+
+/** Classifies a game; see the file comment for the order signals are checked in. */
+export function detectFormat(e: FormatEvidence): FormatDetection {
+  const smallest = e.deckSizes.length > 0 ? Math.min(...e.deckSizes) : 0;
+
+  if (e.playerCount > 2) return { format: 'twinSuns', certain: true, reasons: [`${e.playerCount} players`] };
+  if (smallest >= TWIN_SUNS_MIN_DECK && e.maxCopies <= 1) {
+    return { format: 'twinSuns', certain: true, reasons: [`singleton decks of ${smallest}+ cards`] };
+  }
+
+  const limited: string[] = [];
+  if (smallest > 0 && smallest < PREMIER_MIN_DECK) limited.push(`${smallest}-card deck`);
+  if (e.maxCopies > MAX_CONSTRUCTED_COPIES) limited.push(`${e.maxCopies} copies of one card`);
+  if (limited.length > 0) return { format: 'limited', certain: true, reasons: limited };
+
+  if (e.gameMode === 'nextSetPreview') return { format: 'nextSetPreview', certain: true, reasons: ['Next Set Preview lobby'] };
+  if (e.gameMode === 'open') {
+    const unreleased = e.sets.filter((set) => !RELEASED_SETS.has(set));
+    if (unreleased.length > 0) {
+      return { format: 'nextSetPreview', certain: true, reasons: [`unreleased cards (${unreleased.join(', ')})`] };
+    }
+    return { format: 'eternal', certain: false, reasons: ['open lobby'] };
+  }
+  if (e.gameMode === 'premier') return { format: 'premier', certain: true, reasons: ['Premier lobby'] };
+  return { format: 'premier', certain: false, reasons: [`unknown lobby mode "${e.gameMode}"`] };
+}
+
+/**
+ * A game's format. Games recorded before detection fall back to the fields
+ * the popup's override used to set.
+ */
+export function formatOf(game: Pick<GameRecord, 'format' | 'isLimitedFormat' | 'formatDetection'>): GameFormat {
+  if (game.formatDetection) return game.formatDetection.format;
+  if (game.isLimitedFormat) return 'limited';
+  if (game.format === 'open') return 'eternal';
+  if (game.format === 'nextSetPreview') return 'nextSetPreview';
+  return 'premier';
+}
+
+/** Whether a game passes a format filter: '' lets everything through, anything else names a GameFormat. */
+export function matchesFormatFilter(game: Pick<GameRecord, 'format' | 'isLimitedFormat' | 'formatDetection'>, filter: string): boolean {
+  return !filter || formatOf(game) === filter;
+}
+
+/** A hand-picked format; History's Change Format stores it as is */
+export function manualFormat(format: GameFormat, reason = 'History → Change Format'): FormatDetection {
+  return { format, certain: true, reasons: [reason], manual: true };
+}
+
+/** Applies the popup's format mode to a game the detector wasn't sure about. */
+export function applyFormatMode<T extends Pick<GameRecord, 'isLimitedFormat' | 'formatDetection'>>(record: T, mode: FormatMode): T {
+  if (mode === 'auto' || record.formatDetection?.certain !== false) return record;
+  const reason = `the popup's format mode (detected ${record.formatDetection.reasons.join(', ')})`;
+  return { ...record, isLimitedFormat: mode === 'limited', formatDetection: manualFormat(mode, reason) };
+}
@@ -5,26 +5,53 @@
  *  1. Receives each incoming IGameState update
  *  2. Diffs against the previous snapshot to accumulate CardEvents
  *  3. Parses new log entries for activation events
- *  4. Detects game-end (winners.length > 0) and emits a complete GameRecord
+ *  4. Records the local player's opening hand and mulligan, a per-action
+ *     timeline inside each round, the round and turn each leader first
+ *     deploys, and who held and claimed initiative
+ *  5. Keeps every ingested state, delta-encoded, for the replay viewer
+ *  6. Detects game-end (winners declared, or the opponent leaving) and emits
+ *     a complete GameRecord with the reason the game ended
+ *  7. Round-trips its full state through a RecorderCheckpoint so an
+ *     in-progress game survives a page reload or extension restart
+ *  8. Counts each player's cards at every round start and at the end, and
+ *     scores how well the counts matched the deck sizes (see tracking.ts)
+ *  9. Notes card copies and sets seen, and classifies the game's format
+ *     from them when it ends (see formatDetector.ts)
  */
 
 import type {
   BaseHpChange,
+  CardCount,
   CardEvent,
+  CardSide,
+  FormatDetection,
+  FormatSightings,
+  GameEndReason,
   GamePlayer,
   GameRecord,
+  GameReplay,
   IChatEntry,
   IGameState,
+  LiveGameView,
+  OpeningHand,
   PhaseName,
   PlayerStateSummary,
   PlayerSnapshot,
+  RecorderCheckpoint,
   RoundSnapshot,
   SwuGameFormat,
+  TrackingReport,
 } from './types';
 import { diffSnapshots } from './stateDiffer';
 import { parseLogEntries } from './logParser';
-
-const LIMITED_DECK_SIZE_THRESHOLD = 35;
+import { classifyEnd } from './endReason';
+import { buildSeenOpponentList } from './opponentList';
+import { ACTION_METRICS, isLeaderDeployed } from './leaderDeploy';
+import { initiativeHolder } from './initiative';
+import { handCards, isRedraw, isStillDealing } from './openingHand';
+import { appendToSeries } from './stateDelta';
+import { cardsAccountedFor, reconcileCounts } from './tracking';
+import { detectFormat, emptySightings, maxCopiesSeen, noteSightings } from './formatDetector';
 
 function buildPlayer(playerId: string, state: IGameState): GamePlayer {
   const p = state.players[playerId];
@@ -38,12 +65,50 @@ function buildPlayer(playerId: string, state: IGameState): GamePlayer {
     baseName: p.base?.name ?? p.base?.id ?? '',
     baseSetId: p.base?.setId,
     baseAspects: p.base?.aspects,
-    deckSize: p.numCardsInDeck,
+    deckSize: cardsAccountedFor(p),
+    deploy: null,
   };
 }
 
+/** The board a PlayerStateSummary describes, in the shape snapshots store. */
+export function toPlayerSnapshot(ps: PlayerStateSummary): PlayerSnapshot {
+  return {
+    name: ps.name,
+    hasInitiative: ps.hasInitiative,
+    availableResources: ps.availableResources,
+    totalResources: ps.cardPiles.resources.length,
+    credits: ps.cardPiles.credits?.length ?? 0,
+    numCardsInDeck: ps.numCardsInDeck,
+    base: ps.base,
+    leader: ps.leader,
+    groundArena: ps.cardPiles.groundArena,
+    spaceArena: ps.cardPiles.spaceArena,
+    hand: ps.cardPiles.hand,
+    discard: ps.cardPiles.discard,
+  };
+}
+
+/** A state as the replay stores it — its log entries already live in rawLog. */
+function replayState(state: IGameState): IGameState {
+  return { ...state, newMessages: [] };
+}
+
+/**
+ * Longest replay a checkpoint still carries. Checkpoints go out about once a
+ * second, so a long game's replay is left out rather than resent each time;
+ * a game resumed without one replays from the reload on.
+ */
+export const CHECKPOINT_REPLAY_MAX_STATES = 300;
+
+function emptyReplay(): GameReplay {
+  return { states: { keyframe: null, patches: [] }, times: [], logEnds: [] };
+}
+
 export type GameCompleteCallback = (record: GameRecord) => void | Promise<void>;
 
+/** Source of "now" — the replayer substitutes the captured frame time. */
+export type RecorderClock = () => Date;
+
 export class GameRecorder {
   private gameId: string;
   private startedAt: string;
@@ -51,7 +116,6 @@ export class GameRecorder {
   private cardEvents: CardEvent[] = [];
   private rawLog: IGameState['newMessages'] = [];
   private players: [GamePlayer, GamePlayer] | null = null;
-  private isLimitedFormat = false;
   private format: SwuGameFormat = 'premier';
   private roundNumber = 0;
   private completed = false;
@@ -64,23 +128,105 @@ export class GameRecorder {
   /** Last known base HP for each player — used to detect mid-round changes */
   private lastKnownYouHp: number | null = null;
   private lastKnownOppHp: number | null = null;
+  /** Plays, attacks, activations and deploys so far this round — the deploy "turn" */
+  private roundActions = 0;
+  /** Initiative holder at the start of each round (index 0 = round 1) */
+  private initiativeHeldBy: (string | null)[] = [];
+  /** Who claimed initiative during each round; null until someone does */
+  private initiativeClaimedBy: (string | null)[] = [];
+  /** The local player's setup hands; null until the first one is seen */
+  private openingHand: OpeningHand | null = null;
+  /** Every ingested state, for the replay viewer */
+  private replay: GameReplay = emptyReplay();
+  /** Both players' card counts at each round start */
+  private cardCounts: CardCount[] = [];
+  /** Card copies and sets seen so far, for format detection */
+  private formatSightings: FormatSightings = emptySightings();
   /** Previous phase — used for phase-transition round detection */
   private prevPhase: PhaseName | null = null;
   /** The player ID for the extension user (from state.playerUpdate). */
   private localPlayerId: string | null = null;
+  /** ISO time of the most recent ingest — used to date abandoned games */
+  private lastIngestAt: string;
 
   private onComplete: GameCompleteCallback;
+  private clock: RecorderClock;
 
-  constructor(gameId: string, onComplete: GameCompleteCallback) {
+  constructor(gameId: string, onComplete: GameCompleteCallback, clock: RecorderClock = () => new Date()) {
     this.gameId = gameId;
-    this.startedAt = new Date().toISOString();
+    this.clock = clock;
+    this.startedAt = this.clock().toISOString();
+    this.lastIngestAt = this.startedAt;
     this.onComplete = onComplete;
   }
 
+  /** Rebuilds a recorder from a checkpoint so ingestion can pick up where it left off. */
+  public static fromCheckpoint(
+    cp: RecorderCheckpoint,
+    onComplete: GameCompleteCallback,
+    clock?: RecorderClock
+  ): GameRecorder {
+    const rec = new GameRecorder(cp.gameId, onComplete, clock);
+    rec.startedAt = cp.startedAt;
+    rec.lastIngestAt = cp.updatedAt;
+    rec.prevState = cp.prevState;
+    rec.cardEvents = cp.cardEvents;
+    rec.rawLog = cp.rawLog;
+    rec.players = cp.players;
+    rec.format = cp.format;
+    rec.roundNumber = cp.roundNumber;
+    rec.snapshots = cp.snapshots;
+    rec.currentRoundLogs = cp.currentRoundLogs;
+    rec.currentRoundBaseHpChanges = cp.currentRoundBaseHpChanges;
+    rec.lastKnownYouHp = cp.lastKnownYouHp;
+    rec.lastKnownOppHp = cp.lastKnownOppHp;
+    rec.prevPhase = cp.prevPhase;
+    rec.localPlayerId = cp.localPlayerId;
+    rec.roundActions = cp.roundActions ?? 0;
+    rec.initiativeHeldBy = cp.initiativeHeldBy ?? [];
+    rec.initiativeClaimedBy = cp.initiativeClaimedBy ?? [];
+    rec.openingHand = cp.openingHand ?? null;
+    rec.replay = cp.replay ?? emptyReplay();
+    rec.cardCounts = cp.cardCounts ?? [];
+    rec.formatSightings = cp.formatSightings ?? emptySightings();
+    return rec;
+  }
+
+  /** Serialisable copy of everything needed to resume this recorder. */
+  public toCheckpoint(): RecorderCheckpoint {
+    return {
+      gameId: this.gameId,
+      startedAt: this.startedAt,
+      updatedAt: this.lastIngestAt,
+      prevState: this.prevState,
+      cardEvents: this.cardEvents,
+      rawLog: this.rawLog,
+      players: this.players,
+      format: this.format,
+      roundNumber: this.roundNumber,
+      snapshots: this.snapshots,
+      currentRoundLogs: this.currentRoundLogs,
+      currentRoundBaseHpChanges: this.currentRoundBaseHpChanges,
+      lastKnownYouHp: this.lastKnownYouHp,
+      lastKnownOppHp: this.lastKnownOppHp,
+      prevPhase: this.prevPhase,
+      localPlayerId: this.localPlayerId,
+      roundActions: this.roundActions,
+      initiativeHeldBy: this.initiativeHeldBy,
+      initiativeClaimedBy: this.initiativeClaimedBy,
+      openingHand: this.openingHand,
+      ...(this.replay.times.length <= CHECKPOINT_REPLAY_MAX_STATES ? { replay: this.replay } : {}),
+      cardCounts: this.cardCounts,
+      formatSightings: this.formatSightings,
+    };
+  }
+
   /** Feed the next game state update. Returns true if the game is now complete. */
   public ingest(state: IGameState): boolean {
     if (this.completed) return true;
     if (state.id !== this.gameId) return false;
+    this.lastIngestAt = this.clock().toISOString();
+    const eventsBefore = this.cardEvents.length;
 
     // Identify the local player from playerUpdate.
     // playerUpdate may equal a key in state.players, or it may be the player's
@@ -111,28 +257,34 @@ export class GameRecorder {
           console.warn('[KB Tracker] buildPlayer: missing player data for', localId, 'or', oppId);
         } else {
           this.players = [buildPlayer(localId, state), buildPlayer(oppId, state)];
-          // Determine limited format from smaller starting deck
-          const minDeck = Math.min(
-            state.players[localId].numCardsInDeck,
-            state.players[oppId].numCardsInDeck
-          );
-          this.isLimitedFormat = minDeck <= LIMITED_DECK_SIZE_THRESHOLD;
           this.format = state.gameMode;
         }
       }
     }
+    noteSightings(this.formatSightings, state);
 
     // Accumulate log entries
     if (state.newMessages && state.newMessages.length > 0) {
       this.rawLog.push(...state.newMessages);
       this.currentRoundLogs.push(...state.newMessages);
 
-      // Parse activations from new log entries (use max(1, roundNumber) so
-      // pre-game events get round=1 before the first phase transition)
-      const logEvents = parseLogEntries(this.gameId, Math.max(1, this.roundNumber), state.newMessages);
-      this.cardEvents.push(...logEvents);
+      // Parse activations, attacks, defeats etc. from new log entries (use
+      // max(1, roundNumber) so pre-game events get round=1 before the first
+      // phase transition)
+      const logEvents = parseLogEntries(
+        this.gameId,
+        Math.max(1, this.roundNumber),
+        state.newMessages,
+        this.players ?? undefined
+      );
+      this.cardEvents.push(...logEvents.map((e) => ({ ...e, side: this.sideOf(e.playerId, e.playerName) })));
     }
 
+    const prevReplayState = this.prevState && this.replay.states.keyframe !== null ? replayState(this.prevState) : null;
+    appendToSeries(this.replay.states, prevReplayState, replayState(state));
+    this.replay.times.push(this.clock().getTime());
+    this.replay.logEnds.push(this.rawLog.length);
+
     // PRIMARY round detection: phase transition into action phase
     // Every time we enter action (from setup or regroup) = a new round begins.
     const prevPhase = this.prevPhase;
@@ -145,13 +297,21 @@ export class GameRecorder {
       }
       this.currentRoundLogs = [];
       this.currentRoundBaseHpChanges = [];
+      this.roundActions = 0;
 
       // Advance round number
       this.roundNumber = Math.max(this.roundNumber + 1, 1);
 
+      // Whoever holds initiative now takes the round's first action
+      const ids = this.players.map((p) => p.id);
+      this.initiativeHeldBy[this.roundNumber - 1] = initiativeHolder(state, ids);
+      this.initiativeClaimedBy[this.roundNumber - 1] = null;
+
       // Capture arena snapshot for the NEW round
       const snap = this.captureSnapshot(state, this.roundNumber);
       if (snap) this.snapshots.push(snap);
+      const count = this.countCards(state, this.roundNumber);
+      if (count) this.cardCounts.push(count);
 
       // Seed the HP baseline from the newly captured snapshot
       if (snap && this.players) {
@@ -181,6 +341,15 @@ export class GameRecorder {
     }
     this.prevPhase = state.phase;
 
+    // Claiming initiative hands the token over at once, so the new holder is the claimant
+    if (
+      state.phase === 'action' && this.players && this.roundNumber > 0 &&
+      state.initiativeClaimed && !this.prevState?.initiativeClaimed &&
+      !this.initiativeClaimedBy[this.roundNumber - 1]
+    ) {
+      this.initiativeClaimedBy[this.roundNumber - 1] = initiativeHolder(state, this.players.map((p) => p.id));
+    }
+
     // Diff against previous snapshot (skip on first snapshot)
     if (this.prevState) {
       try {
@@ -197,6 +366,8 @@ export class GameRecorder {
     }
 
     this.prevState = state;
+    this.trackOpeningHand(state);
+    this.trackActions(state, this.cardEvents.slice(eventsBefore));
 
     // Check for game end
     if (state.winners && state.winners.length > 0 && this.players) {
@@ -204,41 +375,182 @@ export class GameRecorder {
       return true;
     }
 
+    // The opponent walked out without the server declaring a result
+    if (this.players && state.players[this.players[1].id]?.left) {
+      this.finalize(state);
+      return true;
+    }
+
     return false;
   }
 
-  private captureSnapshot(state: IGameState, round: number): RoundSnapshot | null {
+  /**
+   * Snapshot of the game so far for live display. Null until both players
+   * are known and one of them is this client — a spectator's view would
+   * show the first seat as "you".
+   */
+  public getLiveView(): LiveGameView | null {
+    if (!this.players || !this.hasLocalPlayer) return null;
+    const [you, opp] = this.players;
+
+    const baseHp: BaseHpChange[] = [];
+    const roundStarts: number[] = [];
+    this.snapshots.forEach((snap, i) => {
+      roundStarts.push(baseHp.length);
+      const [ys, os] = snap.players;
+      baseHp.push({
+        youHp: Math.max(0, (ys.base.hp ?? 30) - (ys.base.damage ?? 0)),
+        oppHp: Math.max(0, (os.base.hp ?? 30) - (os.base.damage ?? 0)),
+      });
+      // The current round's changes aren't flushed into its snapshot until it ends
+      const isCurrent = i === this.snapshots.length - 1;
+      baseHp.push(...(isCurrent ? this.currentRoundBaseHpChanges : snap.baseHpChanges));
+    });
+
+    return {
+      gameId: this.gameId,
+      round: this.roundNumber,
+      players: [you, opp],
+      baseHp,
+      roundStarts,
+      opponentCards: buildSeenOpponentList(this.gameId, opp, this.cardEvents, this.snapshots).cards,
+    };
+  }
+
+  /**
+   * Keeps the local player's first setup hand, growing it while it is still
+   * being dealt, and replaces the kept hand when a mulligan redraws it (see
+   * openingHand.ts).
+   */
+  private trackOpeningHand(state: IGameState): void {
+    if (state.phase !== 'setup' || !this.players || !this.localPlayerId) return;
+    const ps = state.players[this.players[0].id];
+    if (!ps) return;
+    const hand = handCards(ps);
+    if (hand.length === 0) return;
+    if (!this.openingHand) {
+      this.openingHand = { playerId: this.players[0].id, drawn: hand, mulliganed: false, kept: hand };
+      return;
+    }
+    if (isStillDealing(this.openingHand.kept, hand)) {
+      this.openingHand = this.openingHand.mulliganed
+        ? { ...this.openingHand, kept: hand }
+        : { ...this.openingHand, drawn: hand, kept: hand };
+      return;
+    }
+    if ((ps.cardPiles?.resources?.length ?? 0) === 0 && isRedraw(this.openingHand.kept, hand)) {
+      this.openingHand = { ...this.openingHand, mulliganed: true, kept: hand };
+      console.debug(`[KB Tracker] ${ps.name} mulliganed`);
+    }
+  }
+
+  /**
+   * Stamps each leader's first deploy with the current round and turn, adds
+   * an action-phase update that carried an action to the round's timeline,
+   * then advances the turn counter past this update's actions. A deploy is
+   * numbered before any other action that arrives in the same update.
+   */
+  private trackActions(state: IGameState, newEvents: CardEvent[]): void {
+    if (!this.players) return;
+    for (const p of this.players) {
+      if (p.deploy) continue;
+      const ps = state.players[p.id];
+      if (!ps || !isLeaderDeployed(ps)) continue;
+      p.deploy = { round: Math.max(1, this.roundNumber), turn: this.roundActions + 1 };
+      console.debug(`[KB Tracker] ${p.name} deployed ${p.leaderName} in round ${p.deploy.round}, turn ${p.deploy.turn}`);
+    }
+    if (state.phase !== 'action') return;
+
+    const actionEvents = newEvents.filter((e) => ACTION_METRICS.has(e.metric));
+    if (actionEvents.length === 0) return;
+
+    const snap = this.snapshots[this.snapshots.length - 1];
+    const board = this.playerSnapshots(state);
+    if (snap && snap.round === this.roundNumber && board) {
+      (snap.actions ??= []).push({
+        turn: this.roundActions + 1,
+        capturedAt: this.clock().toISOString(),
+        actor: actionEvents[0].side ?? null,
+        events: newEvents,
+        logEntries: state.newMessages ?? [],
+        players: board,
+      });
+    }
+    this.roundActions += actionEvents.length;
+  }
+
+  /** Classifies a log-referenced player as the extension user or their opponent. */
+  private sideOf(playerId: string, playerName: string): CardSide | undefined {
+    if (!this.players) return undefined;
+    const you = this.players[0];
+    return playerId === you.id || playerName === you.name ? 'you' : 'opponent';
+  }
+
+  /** Both players' boards in this state, local player first. */
+  private playerSnapshots(state: IGameState): [PlayerSnapshot, PlayerSnapshot] | null {
     if (!this.players) return null;
     const [localPlayer, oppPlayer] = this.players;
     const localState = state.players[localPlayer.id];
     const oppState = state.players[oppPlayer.id];
     if (!localState || !oppState) return null;
 
-    const buildPlayerSnapshot = (ps: PlayerStateSummary): PlayerSnapshot => ({
-      name: ps.name,
-      hasInitiative: ps.hasInitiative,
-      availableResources: ps.availableResources,
-      totalResources: ps.cardPiles.resources.length,
-      credits: ps.cardPiles.credits?.length ?? 0,
-      numCardsInDeck: ps.numCardsInDeck,
-      base: ps.base,
-      leader: ps.leader,
-      groundArena: ps.cardPiles.groundArena,
-      spaceArena: ps.cardPiles.spaceArena,
-      hand: ps.cardPiles.hand,
-      discard: ps.cardPiles.discard,
-    });
+    return [toPlayerSnapshot(localState), toPlayerSnapshot(oppState)];
+  }
+
+  private captureSnapshot(state: IGameState, round: number): RoundSnapshot | null {
+    const players = this.playerSnapshots(state);
+    if (!players) return null;
 
     return {
       round,
       phase: state.phase,
-      capturedAt: new Date().toISOString(),
-      players: [buildPlayerSnapshot(localState), buildPlayerSnapshot(oppState)],
+      capturedAt: this.clock().toISOString(),
+      players,
       logEntries: [],    // filled in when next round starts (or at finalize)
       baseHpChanges: [], // filled in when next round starts (or at finalize)
+      actions: [],
+    };
+  }
+
+  /** Cards accounted for per player in this state, local player first. */
+  private countCards(state: IGameState, round: number, atEnd = false): CardCount | null {
+    if (!this.players) return null;
+    const [localState, oppState] = this.players.map((p) => state.players[p.id]);
+    if (!localState?.cardPiles || !oppState?.cardPiles) return null;
+    return {
+      round,
+      ...(atEnd ? { atEnd: true } : {}),
+      counts: [cardsAccountedFor(localState), cardsAccountedFor(oppState)],
     };
   }
 
+  /** The game's format, from the lobby mode, deck sizes and the cards seen. */
+  private classifyFormat(): FormatDetection {
+    const detection = detectFormat({
+      gameMode: this.format,
+      playerCount: Object.keys(this.prevState?.players ?? {}).length,
+      deckSizes: this.players!.map((p) => p.deckSize),
+      maxCopies: maxCopiesSeen(this.formatSightings),
+      sets: this.formatSightings.sets,
+    });
+    console.debug(`[KB Tracker] game ${this.gameId} format: ${detection.format} (${detection.reasons.join(', ')})`);
+    return detection;
+  }
+
+  /** The reconciliation pass: the round-start counts plus one from the last state. */
+  private reconcile(): TrackingReport {
+    const [you, opp] = this.players!;
+    const last = this.prevState ? this.countCards(this.prevState, Math.max(1, this.roundNumber), true) : null;
+    const report = reconcileCounts([you.deckSize, opp.deckSize], last ? [...this.cardCounts, last] : this.cardCounts);
+    if (report.drifts.length > 0) {
+      console.warn(
+        `[KB Tracker] card counts drifted in game ${this.gameId}: ` +
+        report.drifts.map((d) => `${d.atEnd ? 'end' : `R${d.round}`} ${d.drift.join('/')}`).join(', ')
+      );
+    }
+    return report;
+  }
+
   private finalize(finalState: IGameState): void {
     this.completed = true;
 
@@ -249,6 +561,53 @@ export class GameRecorder {
       return;
     }
 
+    const [you, opp] = this.players!;
+    const winners = finalState.winners;
+    let winner: string | null;
+    let endReason: GameEndReason;
+    if (winners.length === 0) {
+      winner = you.name;
+      endReason = 'opponentLeft';
+    } else {
+      winner = winners.length === 1 ? winners[0] : null; // null = draw
+      endReason = classifyEnd(finalState, opp.id, this.rawLog);
+    }
+
+    console.log(
+      `[KB Tracker] finalizing game ${this.gameId}: ` +
+      `${this.cardEvents.length} card events, ` +
+      `${this.rawLog.length} log entries, ` +
+      `rounds=${this.roundNumber}, ` +
+      `winner=${winner}, ` +
+      `endReason=${endReason}`
+    );
+
+    this.onComplete(this.buildRecord(winner, this.clock().toISOString(), endReason));
+  }
+
+  /**
+   * Closes out a game that never reached a result (tab closed, crash, left
+   * the lobby). Returns null when there is nothing worth keeping.
+   *
+   * If the opponent was disconnected in the last state we saw and never came
+   * back, the game is recorded as a win by timeout instead.
+   */
+  public finalizeIncomplete(): GameRecord | null {
+    if (this.completed) return null;
+    this.completed = true;
+    if (!this.localPlayerId || !this.players) return null;
+
+    const [you, opp] = this.players;
+    if (this.prevState?.players[opp.id]?.disconnected) {
+      console.log(`[KB Tracker] opponent never reconnected to game ${this.gameId}: recording timeout win`);
+      return this.buildRecord(you.name, this.lastIngestAt, 'timeout');
+    }
+
+    console.log(`[KB Tracker] saving incomplete game ${this.gameId}: rounds=${this.roundNumber}`);
+    return { ...this.buildRecord(null, this.lastIngestAt), incomplete: true };
+  }
+
+  private buildRecord(winner: string | null, completedAt: string, endReason?: GameEndReason): GameRecord {
     // Flush remaining logs and HP changes into the last snapshot
     if (this.snapshots.length > 0) {
       const last = this.snapshots[this.snapshots.length - 1];
@@ -260,35 +619,38 @@ export class GameRecorder {
       }
     }
 
-    const winners = finalState.winners;
-    const winner = winners.length === 1 ? winners[0] : null; // null = draw
-
-    console.log(
-      `[KB Tracker] finalizing game ${this.gameId}: ` +
-      `${this.cardEvents.length} card events, ` +
-      `${this.rawLog.length} log entries, ` +
-      `rounds=${this.roundNumber}, ` +
-      `winner=${winner}`
-    );
-
-    const record: GameRecord = {
+    const formatDetection = this.classifyFormat();
+    return {
       gameId: this.gameId,
       startedAt: this.startedAt,
-      completedAt: new Date().toISOString(),
+      completedAt,
       format: this.format,
-      isLimitedFormat: this.isLimitedFormat,
+      isLimitedFormat: formatDetection.format === 'limited',
+      formatDetection,
       players: this.players!,
       winner,
+      endReason,
       rounds: this.roundNumber,
+      initiative: {
+        firstPlayerId: this.initiativeHeldBy[0] ?? null,
+        heldBy: this.initiativeHeldBy,
+        claimedBy: this.initiativeClaimedBy,
+      },
+      ...(this.openingHand ? { openingHand: this.openingHand } : {}),
+      tracking: this.reconcile(),
       cardEvents: this.cardEvents,
       rawLog: this.rawLog,
       snapshots: this.snapshots,
+      replay: this.replay,
     };
-
-    this.onComplete(record);
   }
 
   get isCompleted(): boolean {
     return this.completed;
   }
+
+  /** False for spectated games — those are never checkpointed or saved. */
+  get hasLocalPlayer(): boolean {
+    return this.localPlayerId !== null;
+  }
 }
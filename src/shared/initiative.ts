@@ -0,0 +1,32 @@
+/**
+ * initiative.ts
+ *
+ * Reads a game's InitiativeRecord from one player's point of view.
+ *
+ * The player with initiative at the start of a round takes its first action,
+ * so holding it in round 1 is being "on the play" and not holding it is
+ * being "on the draw".
+ */
+
+import type { GameRecord, IGameState } from './types';
+
+/** ID of the player holding initiative in this state, if either does */
+export function initiativeHolder(state: IGameState, playerIds: string[]): string | null {
+  return playerIds.find((id) => state.players[id]?.hasInitiative) ?? null;
+}
+
+/**
+ * 'play' when the player went first in round 1, 'draw' when the opponent did.
+ * Null when unknown or the game predates initiative tracking.
+ */
+export function playOrDraw(game: Pick<GameRecord, 'initiative'>, playerId: string): 'play' | 'draw' | null {
+  const first = game.initiative?.firstPlayerId;
+  if (!first) return null;
+  return first === playerId ? 'play' : 'draw';
+}
+
+/** Rounds the player started holding initiative; null when not tracked. */
+export function roundsHoldingInitiative(game: Pick<GameRecord, 'initiative'>, playerId: string): number | null {
+  if (!game.initiative) return null;
+  return game.initiative.heldBy.filter((id) => id === playerId).length;
+}
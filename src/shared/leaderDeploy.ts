@@ -0,0 +1,48 @@
+/**
+ * leaderDeploy.ts
+ *
+ * Leader deploy detection and timing.
+ *
+ * A deployed leader shows up two ways in the game state: the leader card is
+ * flagged `deployed`, and a unit with the leader's uuid appears in an arena.
+ * Either is enough.
+ *
+ * Deploy timing is recorded as (round, turn), where turn is the action number
+ * within the round — every play, attack, ability activation and deploy by
+ * either player counts as one action.
+ */
+
+import type { GameCardMetric, GamePlayer, LeaderDeploy, PlayerStateSummary } from './types';
+
+/** Card-event metrics that each mark one player action */
+export const ACTION_METRICS: ReadonlySet<GameCardMetric> = new Set(['played', 'attacked', 'activated', 'deployed']);
+
+export function isLeaderDeployed(ps: PlayerStateSummary): boolean {
+  if (ps.leader?.deployed) return true;
+  const uuid = ps.leader?.uuid;
+  if (!uuid) return false;
+  const { groundArena = [], spaceArena = [] } = ps.cardPiles ?? {};
+  return [...groundArena, ...spaceArena].some((c) => c.uuid === uuid);
+}
+
+function isBefore(a: LeaderDeploy, b: LeaderDeploy): boolean {
+  return a.round !== b.round ? a.round < b.round : a.turn < b.turn;
+}
+
+/**
+ * Which of two players deployed their leader first. A player who deployed
+ * beats one who never did. Null when neither deployed, on a same-action tie,
+ * or when either game predates deploy tracking.
+ */
+export function firstDeployer(
+  you: Pick<GamePlayer, 'deploy'>,
+  opp: Pick<GamePlayer, 'deploy'>
+): 'you' | 'opponent' | null {
+  if (you.deploy === undefined || opp.deploy === undefined) return null;
+  if (!you.deploy && !opp.deploy) return null;
+  if (!opp.deploy) return 'you';
+  if (!you.deploy) return 'opponent';
+  if (isBefore(you.deploy, opp.deploy)) return 'you';
+  if (isBefore(opp.deploy, you.deploy)) return 'opponent';
+  return null;
+}
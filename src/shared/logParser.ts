@@ -2,9 +2,11 @@
  * logParser.ts
  *
  * Parses forceteki IChatEntry game-log messages to extract card events that
- * cannot be reliably detected through state diffing, primarily:
+ * cannot be reliably detected through state diffing:
  *
  *  • Activated  – leader/upgrade abilities triggered
+ *  • Attacked / dealtDamage / defeated / captured / healed
+ *  • Smuggled / exploited / bountyCollected / deployed
  *
  * Log message format:
  *   { alert: { type: 'notification', message: [...ChatMessagePart[]] } }
@@ -12,11 +14,27 @@
  * Each ChatMessagePart is either a plain string/number or an IChatObject
  * (embedded card or player reference with { type, id, name, ... }).
  *
- * We scan the message array for patterns like:
- *   [player] "used" [card] "ability" / "activated" / "uses"
+ * Activations are found by keyword: [player] "used" [card] "ability" /
+ * "activated" / "uses". "uses X to attack / deploy" is the one phrasing with
+ * those keywords that is not an activation; every other message is checked
+ * for both, so "uses X to deal 2 damage" counts as damage and an activation.
+ *
+ * Everything else goes through LOG_RULES. Each message is flattened into a
+ * "shape" — lowercased text with {pN} / {cN} standing in for the Nth player
+ * and card reference — and matched against one regex per rule, so
+ *   [Alice] "attacks" [Bob] "'s" [TIE Fighter] "with" [X-Wing]
+ * becomes "{p0} attacks {p1}'s {c0} with {c1}".
  */
 
-import type { CardEvent, ChatMessagePart, IChatEntry, IChatObject, IAlertMessage } from './types';
+import type {
+  CardEvent,
+  ChatMessagePart,
+  GameCardMetric,
+  GamePlayer,
+  IChatEntry,
+  IChatObject,
+  IAlertMessage,
+} from './types';
 
 // Keywords that indicate an activation event in the log text
 const ACTIVATION_KEYWORDS = [
@@ -54,13 +72,183 @@ export interface ParsedLogEvent {
   metric: 'activated';
 }
 
+// ─── Structured log rules ────────────────────────────────────────────────────
+
+/** Who an event belongs to when the card reference carries no controllerId */
+type RuleOwner = 'actor' | 'opponent';
+
+interface LogRule {
+  metric: GameCardMetric;
+  /** Matched against the message shape; see rule() for the named groups */
+  pattern: RegExp;
+  /** Default owner of the event's card relative to the acting {player} */
+  owner: RuleOwner;
+}
+
 /**
- * Parse a batch of new IChatEntry messages and return activation events found.
+ * Builds a rule from a shape template. Placeholders expand to named groups:
+ *   <player>           – the acting player's reference index
+ *   <owner>            – the "{p}'s" possessive in front of <card>, if any
+ *   <card> <target>    – card reference index
+ *   <amount>           – a number in the text
+ * <of> skips a possessive in front of <target>.
+ */
+function rule(metric: GameCardMetric, template: string, owner: RuleOwner = 'actor'): LogRule {
+  const source = template
+    .replace(/<player>/g, '\\{p(?<player>\\d+)\\}')
+    .replace(/<owner>/g, '(?:\\{p(?<owner>\\d+)\\}\'s )?')
+    .replace(/<of>/g, '(?:\\{p\\d+\\}\'s )?')
+    .replace(/<card>/g, '\\{c(?<card>\\d+)\\}')
+    .replace(/<target>/g, '\\{c(?<target>\\d+)\\}')
+    .replace(/<amount>/g, '(?<amount>\\d+)');
+  return { metric, pattern: new RegExp(source), owner };
+}
+
+/**
+ * One entry per phrasing the server is known to use. The first rule that
+ * matches wins for its metric; a message can still yield several metrics
+ * ("uses X to attack Y" is also checked for damage).
+ */
+const LOG_RULES: LogRule[] = [
+  rule('attacked', '<player> attacks <of><target> with <card>'),
+  rule('attacked', '<player> uses <card> to attack <of><target>'),
+
+  rule('dealtDamage', '<card> deals <amount> damage to <of><target>'),
+  rule('dealtDamage', '<player> uses <card> to deal <amount> damage to <of><target>'),
+
+  // The defeated card is the event card; the card that defeated it is the target
+  rule('defeated', '<player> uses <target> to defeat <owner><card>', 'opponent'),
+  rule('defeated', '^<owner><card> (?:is|was) defeated(?: by <target>)?'),
+
+  // The captured card is the event card; the captor is the target
+  rule('captured', '<player> uses <target> to capture <owner><card>', 'opponent'),
+  rule('captured', '^<owner><card> (?:is|was) captured by <target>'),
+
+  rule('healed', '<player> uses <card> to heal <amount> damage from <of><target>'),
+
+  rule('smuggled', '<player> plays <card> using smuggle'),
+  rule('exploited', '<player> plays <card> using exploit'),
+
+  rule('bountyCollected', '<player> collects (?:the )?bounty (?:on|of|from) <owner><card>', 'opponent'),
+  rule('bountyCollected', '<player> uses <owner><card>\'s bounty', 'opponent'),
+
+  rule('deployed', '<player> deploys <card>'),
+  rule('deployed', '<player> uses <card> to deploy'),
+];
+
+/** Metrics whose messages are never ability activations, whatever their wording */
+const NOT_ACTIVATION_METRICS: ReadonlySet<GameCardMetric> = new Set(['attacked', 'deployed']);
+
+/** Metrics where the event count is the <amount> group rather than 1 */
+const AMOUNT_METRICS: ReadonlySet<GameCardMetric> = new Set(['dealtDamage', 'healed']);
+
+/**
+ * Flattens a message into its shape and the references it points at.
+ * Possessives are attached to the reference ("{c0} 's" → "{c0}'s").
+ */
+function toShape(parts: ChatMessagePart[]): { shape: string; players: IChatObject[]; cards: IChatObject[] } {
+  const players: IChatObject[] = [];
+  const cards: IChatObject[] = [];
+  const text = parts
+    .map((p) => {
+      if (isPlayerObject(p)) return `{p${players.push(p) - 1}}`;
+      if (isCardObject(p)) return `{c${cards.push(p) - 1}}`;
+      return String(p).toLowerCase();
+    })
+    .join(' ');
+  const shape = text.replace(/\s+/g, ' ').replace(/\} ?'s\b/g, "}'s").trim();
+  return { shape, players, cards };
+}
+
+/**
+ * Works out which player an event's card belongs to, in order of certainty:
+ * the card's controllerId, an explicit "{p}'s" owner, then the rule default
+ * relative to the acting player. Returns null when it can't be decided.
+ */
+function resolveOwner(
+  card: IChatObject,
+  owner: IChatObject | undefined,
+  actor: IChatObject | undefined,
+  rule: LogRule,
+  players: Pick<GamePlayer, 'id' | 'name'>[] | undefined
+): Pick<GamePlayer, 'id' | 'name'> | null {
+  if (card.controllerId) {
+    const known = players?.find((p) => p.id === card.controllerId);
+    if (known) return known;
+    if (actor?.id === card.controllerId) return actor;
+    if (owner?.id === card.controllerId) return owner;
+  }
+  if (owner) return owner;
+  if (!actor) return null;
+  if (rule.owner === 'actor') return actor;
+  const other = players?.find((p) => p.id !== actor.id);
+  return other ?? null;
+}
+
+/**
+ * Runs LOG_RULES over one message. Returns the events it yields — none if
+ * the owner couldn't be resolved — and the metrics of every rule that
+ * recognised the message.
+ */
+function parseStructuredEvents(
+  gameId: string,
+  roundNumber: number,
+  parts: ChatMessagePart[],
+  players: Pick<GamePlayer, 'id' | 'name'>[] | undefined
+): { events: CardEvent[]; recognised: Set<GameCardMetric> } {
+  const recognised = new Set<GameCardMetric>();
+  const events: CardEvent[] = [];
+  const { shape, players: playerRefs, cards } = toShape(parts);
+  if (cards.length === 0) return { events, recognised };
+
+  const matched = new Set<GameCardMetric>();
+  for (const r of LOG_RULES) {
+    if (matched.has(r.metric)) continue;
+    const groups = r.pattern.exec(shape)?.groups;
+    if (!groups) continue;
+    recognised.add(r.metric);
+
+    const card = cards[Number(groups.card)];
+    if (!card) continue;
+    const actor = groups.player !== undefined ? playerRefs[Number(groups.player)] : undefined;
+    const ownerRef = groups.owner !== undefined ? playerRefs[Number(groups.owner)] : undefined;
+    const owner = resolveOwner(card, ownerRef, actor, r, players);
+    if (!owner) continue;
+
+    const target = groups.target !== undefined ? cards[Number(groups.target)] : undefined;
+    const amount = groups.amount !== undefined ? parseInt(groups.amount, 10) : 1;
+    const count = AMOUNT_METRICS.has(r.metric) ? amount : 1;
+    if (count <= 0) continue;
+
+    matched.add(r.metric);
+    events.push({
+      gameId,
+      roundNumber,
+      playerId: owner.id,
+      playerName: owner.name,
+      cardId: card.id,
+      cardName: card.name,
+      cardSetId: card.setId,
+      metric: r.metric,
+      count,
+      ...(target ? { targetCardId: target.id, targetCardName: target.name } : {}),
+    });
+  }
+  return { events, recognised };
+}
+
+/**
+ * Parse a batch of new IChatEntry messages and return the card events found.
+ *
+ * `players` (local player first) lets events whose card belongs to the
+ * other player — a defeated or captured unit — be attributed without a
+ * controllerId on the card reference. Without it those events are skipped.
  */
 export function parseLogEntries(
   gameId: string,
   roundNumber: number,
-  entries: IChatEntry[]
+  entries: IChatEntry[],
+  players?: Pick<GamePlayer, 'id' | 'name'>[]
 ): CardEvent[] {
   const events: CardEvent[] = [];
 
@@ -69,6 +257,11 @@ export function parseLogEntries(
     if (!isAlertMessage(msg)) continue;
 
     const parts = msg.alert.message;
+    const structured = parseStructuredEvents(gameId, roundNumber, parts, players);
+    events.push(...structured.events);
+    // "uses X to attack / deploy …" is not an ability activation
+    if ([...structured.recognised].some((m) => NOT_ACTIVATION_METRICS.has(m))) continue;
+
     const text = partsToText(parts);
 
     const hasActivationKeyword = ACTIVATION_KEYWORDS.some((kw) => text.includes(kw));
@@ -0,0 +1,107 @@
+/**
+ * matchGrouper.ts
+ *
+ * Groups standalone GameRecords into Bo1 / Bo3 matches.
+ *
+ * Karabast doesn't tell us when a lobby is playing a best-of-three, so we
+ * infer it: a game continues the previous match when
+ *  • the same two players sit in the same seats with the same leaders,
+ *  • it starts within MATCH_GAP_MINUTES of the previous game ending, and
+ *  • the previous match is still undecided (nobody has 2 wins, < 3 games).
+ *
+ * A match with a single game is reported as Bo1 until a second game joins it.
+ * Incomplete games never join a match: stats leave them out, so counting
+ * them would make the next real game look like a game 2.
+ */
+
+import type { GameRecord, Match } from './types';
+
+const MATCH_GAP_MINUTES = 20;
+const GAMES_TO_WIN = 2;
+const MAX_GAMES = 3;
+
+export type MatchableGame = Pick<GameRecord, 'gameId' | 'startedAt' | 'completedAt' | 'players' | 'winner' | 'incomplete'>;
+
+export function matchIdFor(firstGameId: string): string {
+  return `match-${firstGameId}`;
+}
+
+/** True when `game` is the next game of the still-open `match`. */
+export function continuesMatch(match: Match, game: MatchableGame): boolean {
+  const [you, opp] = game.players;
+  if (match.playerNames[0] !== you.name || match.playerNames[1] !== opp.name) return false;
+  if (match.leaderIds[0] !== you.leaderId || match.leaderIds[1] !== opp.leaderId) return false;
+  if (match.gameIds.length >= MAX_GAMES) return false;
+  if (match.wins.some((w) => w >= GAMES_TO_WIN)) return false;
+
+  const gapMs = new Date(game.startedAt).getTime() - new Date(match.completedAt).getTime();
+  return gapMs <= MATCH_GAP_MINUTES * 60 * 1000;
+}
+
+/** Builds the Match summary for `games`, which must be in play order. */
+export function buildMatch(matchId: string, games: MatchableGame[]): Match {
+  const first = games[0];
+  const last = games[games.length - 1];
+  const playerNames: [string, string] = [first.players[0].name, first.players[1].name];
+  const wins: [number, number] = [0, 0];
+  for (const g of games) {
+    if (g.winner === playerNames[0]) wins[0]++;
+    else if (g.winner === playerNames[1]) wins[1]++;
+  }
+
+  const bestOf = games.length > 1 ? 3 : 1;
+  let winner: string | null = null;
+  if (bestOf === 1) winner = first.winner;
+  else if (wins[0] >= GAMES_TO_WIN) winner = playerNames[0];
+  else if (wins[1] >= GAMES_TO_WIN) winner = playerNames[1];
+
+  return {
+    matchId,
+    startedAt: first.startedAt,
+    completedAt: last.completedAt,
+    playerNames,
+    leaderIds: [first.players[0].leaderId, first.players[1].leaderId],
+    gameIds: games.map((g) => g.gameId),
+    wins,
+    bestOf,
+    winner,
+  };
+}
+
+/**
+ * Groups every complete game from scratch. Returns the matches plus each
+ * grouped game's match ID and 1-based position within it.
+ */
+export function groupIntoMatches(games: MatchableGame[]): {
+  matches: Match[];
+  assignments: Map<string, { matchId: string; matchGameNumber: number }>;
+} {
+  const sorted = games.filter((g) => !g.incomplete).sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const groups: MatchableGame[][] = [];
+  const matches: Match[] = [];
+
+  for (const g of sorted) {
+    // Only the most recent match between these players can still be open
+    let idx = -1;
+    for (let i = matches.length - 1; i >= 0; i--) {
+      const m = matches[i];
+      if (m.playerNames[0] === g.players[0].name && m.playerNames[1] === g.players[1].name) {
+        idx = i;
+        break;
+      }
+    }
+    if (idx >= 0 && continuesMatch(matches[idx], g)) {
+      groups[idx].push(g);
+      matches[idx] = buildMatch(matches[idx].matchId, groups[idx]);
+    } else {
+      groups.push([g]);
+      matches.push(buildMatch(matchIdFor(g.gameId), [g]));
+    }
+  }
+
+  const assignments = new Map<string, { matchId: string; matchGameNumber: number }>();
+  for (const m of matches) {
+    m.gameIds.forEach((gameId, i) => assignments.set(gameId, { matchId: m.matchId, matchGameNumber: i + 1 }));
+  }
+  return { matches, assignments };
+}
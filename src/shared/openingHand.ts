@@ -0,0 +1,40 @@
+/**
+ * openingHand.ts
+ *
+ * Opening hand and mulligan detection.
+ *
+ * During setup the local player sees their own hand. A mulligan shuffles it
+ * back and draws a new one, so it shows up as a hand holding cards that were
+ * not in the previous one — before any card has been resourced. Resourcing
+ * only ever removes cards from the hand.
+ *
+ * A hand can also arrive over several updates (three cards, then six). An
+ * update that keeps every card and adds more is the same hand still being
+ * dealt, not a redraw.
+ */
+
+import type { GameRecord, HandCard, OpeningHand, PlayerStateSummary } from './types';
+
+/** The face-up cards in a player's hand */
+export function handCards(ps: PlayerStateSummary): HandCard[] {
+  return (ps.cardPiles?.hand ?? [])
+    .filter((c) => !c.facedown && c.id)
+    .map((c) => ({ uuid: c.uuid, cardId: c.id, cardName: c.name ?? c.id, cardSetId: c.setId }));
+}
+
+/** True when `hand` holds a card that `kept` did not — a fresh draw. */
+export function isRedraw(kept: HandCard[], hand: HandCard[]): boolean {
+  const keptUuids = new Set(kept.map((c) => c.uuid));
+  return hand.some((c) => !keptUuids.has(c.uuid));
+}
+
+/** True when `hand` is `kept` plus more cards — the deal isn't finished yet. */
+export function isStillDealing(kept: HandCard[], hand: HandCard[]): boolean {
+  const handUuids = new Set(hand.map((c) => c.uuid));
+  return hand.length > kept.length && kept.every((c) => handUuids.has(c.uuid));
+}
+
+/** The game's opening hand if it belongs to this player; null otherwise. */
+export function openingHandOf(game: Pick<GameRecord, 'openingHand'>, playerId: string): OpeningHand | null {
+  return game.openingHand?.playerId === playerId ? game.openingHand : null;
+}
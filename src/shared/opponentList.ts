@@ -0,0 +1,80 @@
+/**
+ * opponentList.ts
+ *
+ * Reconstructs the part of an opponent's decklist that was revealed during a
+ * game. Two sources are combined:
+ *
+ *  • CardEvents with side='opponent' (played / discarded / activated)
+ *  • RoundSnapshot arena and discard piles for players[1]
+ *
+ * Copies are the number of distinct card UUIDs seen with the same card ID
+ * (each UUID is one physical copy). Replaying one copy, say bounced back to
+ * hand, adds play events but no copies, so the play count is only used for
+ * a card no snapshot caught.
+ */
+
+import type { CardEvent, CardSummary, GamePlayer, RoundSnapshot, SeenCard, SeenOpponentList } from './types';
+
+interface CardAccum {
+  card: SeenCard;
+  uuids: Set<string>;
+  plays: number;
+}
+
+export function buildSeenOpponentList(
+  gameId: string,
+  opponent: GamePlayer,
+  events: CardEvent[],
+  snapshots: RoundSnapshot[]
+): SeenOpponentList {
+  const map = new Map<string, CardAccum>();
+
+  const accum = (cardId: string, cardName: string, cardSetId?: SeenCard['cardSetId']): CardAccum => {
+    let acc = map.get(cardId);
+    if (!acc) {
+      acc = { card: { cardId, cardName, cardSetId, copies: 0 }, uuids: new Set(), plays: 0 };
+      map.set(cardId, acc);
+    }
+    if (!acc.card.cardSetId && cardSetId) acc.card.cardSetId = cardSetId;
+    return acc;
+  };
+
+  for (const e of events) {
+    if (e.gameId !== gameId || e.cardId === '__unknown__' || e.cardId === opponent.leaderId) continue;
+    // Legacy events have no side marker; fall back to the opponent's name
+    const isOpp = e.side ? e.side === 'opponent' : e.playerName === opponent.name;
+    // Tokens aren't part of the deck
+    if (!isOpp || e.metric === 'tokenCreated') continue;
+    const acc = accum(e.cardId, e.cardName, e.cardSetId);
+    if (e.metric === 'played') acc.plays += e.count;
+  }
+
+  const addSeen = (c: CardSummary): void => {
+    if (c.facedown || !c.id) return;
+    if (c.id === opponent.leaderId || (c.type ?? '').toLowerCase().includes('token')) return;
+    accum(c.id, c.name ?? c.id, c.setId).uuids.add(c.uuid);
+  };
+
+  // Round starts, and the board after each action so the last round counts too
+  const boards = snapshots.flatMap((snap) => [snap.players[1], ...(snap.actions ?? []).map((a) => a.players[1])]);
+  for (const opp of boards) {
+    for (const c of [...opp.groundArena, ...opp.spaceArena, ...opp.discard]) addSeen(c);
+  }
+
+  const cards: SeenCard[] = [];
+  for (const acc of map.values()) {
+    acc.card.copies = acc.uuids.size > 0 ? acc.uuids.size : Math.max(acc.plays, 1);
+    cards.push(acc.card);
+  }
+
+  return {
+    gameId,
+    leaderId: opponent.leaderId,
+    leaderName: opponent.leaderName,
+    leaderSetId: opponent.leaderSetId,
+    baseId: opponent.baseId,
+    baseName: opponent.baseName,
+    baseSetId: opponent.baseSetId,
+    cards: cards.sort((a, b) => b.copies - a.copies || a.cardName.localeCompare(b.cardName)),
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * resourceCurve.ts
+ *
+ * Per-round resource figures for one player, read from a game's round
+ * snapshots.
+ *
+ * A round's snapshot is taken as the action phase starts, when resources
+ * have just readied, so it gives the round's resource count. What was left
+ * unspent is read from the last board of the round's action timeline: ready
+ * resources still standing after the round's final action. Credits are
+ * tokens that carry over between rounds, so they never count as unspent.
+ */
+
+import type { RoundSnapshot } from './types';
+
+/** A round ending with at least this many ready resources is flagged */
+export const UNSPENT_FLAG_THRESHOLD = 2;
+
+/** One player's resources in one round */
+export interface RoundResources {
+  round: number;
+  /** Cards in the resource zone */
+  total: number;
+  /** Ready resources at the start of the round */
+  available: number;
+  credits: number;
+  /**
+   * Ready resources left after the round's last action. Null for games
+   * recorded before the action timeline, and for the game's final round —
+   * the game ended before the round did.
+   */
+  unspent: number | null;
+}
+
+/** Resources round by round; side 0 is the local player, 1 the opponent. */
+export function resourceCurve(snaps: RoundSnapshot[], side: 0 | 1): RoundResources[] {
+  return snaps.map((snap, i) => {
+    const start = snap.players[side];
+    const isFinal = i === snaps.length - 1;
+    let unspent: number | null = null;
+    if (snap.actions && !isFinal) {
+      const last = snap.actions[snap.actions.length - 1];
+      unspent = (last ? last.players[side] : start).availableResources;
+    }
+    return {
+      round: snap.round,
+      total: start.totalResources,
+      available: start.availableResources,
+      credits: start.credits,
+      unspent,
+    };
+  });
+}
+
+export function isFlagged(r: RoundResources): boolean {
+  return r.unspent !== null && r.unspent >= UNSPENT_FLAG_THRESHOLD;
+}
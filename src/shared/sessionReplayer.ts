@@ -0,0 +1,80 @@
+/**
+ * sessionReplayer.ts
+ *
+ * Offline replay of a captured WebSocket session.
+ *
+ * Feeds every CapturedFrame through the same pipeline content.ts uses live
+ * (parseFrame → extractGameState → GameRecorder.ingest) so a recorded session
+ * can reproduce tracking bugs, or be re-processed after a parser fix.
+ *
+ * The recorders run on the captured frame times, so replayed games keep their
+ * original start and end dates. Games still open when the capture ends are
+ * returned as incomplete records.
+ */
+
+import type { CapturedFrame, CaptureFile, GameRecord } from './types';
+import { parseFrame, extractGameState } from './socketParser';
+import { GameRecorder } from './gameRecorder';
+
+export interface ReplayResult {
+  /** Completed and incomplete games, in the order they ended */
+  records: GameRecord[];
+  /** Frames that carried a gamestate */
+  stateFrames: number;
+  totalFrames: number;
+}
+
+export function replayFrames(frames: CapturedFrame[]): ReplayResult {
+  const records: GameRecord[] = [];
+  const recorders = new Map<string, GameRecorder>();
+  const finishedGames = new Set<string>();
+  let now = frames[0]?.t ?? Date.now();
+  const clock = (): Date => new Date(now);
+  let stateFrames = 0;
+
+  for (const f of frames) {
+    now = f.t;
+    const frame = parseFrame(f.data);
+    if (!frame || frame.type === 'other') continue;
+    const state = extractGameState(frame);
+    if (!state) continue;
+    stateFrames++;
+
+    const gameId = state.id;
+    if (finishedGames.has(gameId)) continue;
+
+    let recorder = recorders.get(gameId);
+    if (!recorder) {
+      // Same rule as content.ts — a post-game state alone is not a new game
+      if (state.winners.length > 0) continue;
+      recorder = new GameRecorder(gameId, (record) => { records.push(record); }, clock);
+      recorders.set(gameId, recorder);
+    }
+
+    if (recorder.ingest(state)) {
+      recorders.delete(gameId);
+      finishedGames.add(gameId);
+    }
+  }
+
+  for (const recorder of recorders.values()) {
+    const record = recorder.finalizeIncomplete();
+    if (record) records.push(record);
+  }
+
+  return { records, stateFrames, totalFrames: frames.length };
+}
+
+/** Validates a parsed capture export. Throws on anything that isn't one. */
+export function parseCaptureFile(json: unknown): CaptureFile {
+  const file = json as Partial<CaptureFile> | null;
+  if (!file || file.kind !== 'kb-tracker-capture' || !Array.isArray(file.frames) || !file.session) {
+    throw new Error('Not a KB Tracker session capture');
+  }
+  for (const f of file.frames) {
+    if (typeof f?.t !== 'number' || typeof f?.data !== 'string') {
+      throw new Error('Capture contains a malformed frame');
+    }
+  }
+  return file as CaptureFile;
+}
@@ -1,4 +1,5 @@
 import browser from 'webextension-polyfill';
+import type { GameFormat } from './types';
 
 // ─── Settings ─────────────────────────────────────────────────────────────────
 
@@ -7,10 +8,12 @@ export interface KBSettings {
   popupGameLimit: number;
   /** Hide matchup rows with fewer than this many games (0 = show all) */
   minGamesThreshold: number;
+  /** Leave games that ended by concession, leaving or timeout out of stats */
+  naturalEndingsOnly: boolean;
   /** Default format filter applied to all dropdowns on load */
-  defaultFormat: '' | 'premier' | 'limited' | 'eternal';
+  defaultFormat: '' | GameFormat;
   /** Tab to activate when the dashboard opens */
-  defaultTab: 'overview' | 'matchups' | 'cards' | 'history' | 'tools';
+  defaultTab: 'overview' | 'matchups' | 'cards' | 'tempo' | 'history' | 'scouting' | 'decks' | 'tools';
   /** Max number of games to retain in the DB (0 = unlimited) */
   dataRetentionLimit: number;
   /** Show a confirm() dialog before permanently deleting a game */
@@ -22,6 +25,7 @@ export interface KBSettings {
 export const DEFAULT_SETTINGS: KBSettings = {
   popupGameLimit: 5,
   minGamesThreshold: 5,
+  naturalEndingsOnly: false,
   defaultFormat: '',
   defaultTab: 'overview',
   dataRetentionLimit: 0,
@@ -0,0 +1,48 @@
+/**
+ * snapshotPacking.ts
+ *
+ * Converts a game's RoundSnapshot[] to and from the delta-encoded form the
+ * game_snapshots store keeps.
+ *
+ * Consecutive boards differ in a card or two, but each RoundSnapshot and each
+ * TimelineAction carries both players' full boards. Packing pulls the boards
+ * out, in the order they happened, into one DeltaSeries; the rest of each
+ * round is kept as is.
+ */
+
+import type { PackedRound, PackedSnapshots, PlayerSnapshot, RoundSnapshot } from './types';
+import { appendToSeries, decodeSeries } from './stateDelta';
+
+type Board = [PlayerSnapshot, PlayerSnapshot];
+
+export function packSnapshots(gameId: string, snapshots: RoundSnapshot[]): PackedSnapshots {
+  const packed: PackedSnapshots = { gameId, boards: { keyframe: null, patches: [] }, rounds: [] };
+  let prev: Board | null = null;
+  const addBoard = (board: Board): void => {
+    appendToSeries(packed.boards, prev, board);
+    prev = board;
+  };
+
+  for (const { players, actions, ...round } of snapshots) {
+    addBoard(players);
+    const packedRound: PackedRound = { ...round };
+    if (actions) {
+      packedRound.actions = actions.map(({ players: board, ...action }) => {
+        addBoard(board);
+        return action;
+      });
+    }
+    packed.rounds.push(packedRound);
+  }
+  return packed;
+}
+
+export function unpackSnapshots(packed: PackedSnapshots): RoundSnapshot[] {
+  const boards = decodeSeries(packed.boards);
+  let next = 0;
+  return packed.rounds.map(({ actions, ...round }) => {
+    const snap: RoundSnapshot = { ...round, players: boards[next++] };
+    if (actions) snap.actions = actions.map((action) => ({ ...action, players: boards[next++] }));
+    return snap;
+  });
+}
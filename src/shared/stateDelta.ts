@@ -0,0 +1,103 @@
+/**
+ * stateDelta.ts
+ *
+ * Delta encoding for a series of JSON values — successive game states or
+ * board snapshots, where each value differs from the last in a few places.
+ *
+ * A DeltaSeries keeps the first value whole (the keyframe) and, for every
+ * value after it, the patch that turns its predecessor into it. A patch is a
+ * list of ops:
+ *   [path, value]  – set the value at path (creating it if absent)
+ *   [path]         – delete the property at path
+ * Paths are property names and array indices from the root.
+ *
+ * Objects are diffed key by key. Arrays of the same length are diffed index
+ * by index; an array that changed length is replaced whole, which keeps the
+ * encoder simple — card piles are short.
+ */
+
+import type { DeltaSeries, PatchOp, PatchPath } from './types';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(v: unknown): v is JsonObject {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function diffInto(a: unknown, b: unknown, path: PatchPath, ops: PatchOp[]): void {
+  if (a === b) return;
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    for (let i = 0; i < a.length; i++) diffInto(a[i], b[i], [...path, i], ops);
+    return;
+  }
+  if (isObject(a) && isObject(b)) {
+    for (const key of Object.keys(a)) {
+      if (b[key] === undefined && a[key] !== undefined) ops.push([[...path, key]]);
+    }
+    for (const key of Object.keys(b)) {
+      if (b[key] === undefined) continue;
+      diffInto(a[key], b[key], [...path, key], ops);
+    }
+    return;
+  }
+  ops.push([path, b]);
+}
+
+/** Ops that turn `a` into `b`. Both must be JSON-compatible. */
+export function diffValues(a: unknown, b: unknown): PatchOp[] {
+  const ops: PatchOp[] = [];
+  diffInto(a, b, [], ops);
+  return ops;
+}
+
+/**
+ * Applies a patch to a deep copy of `value` and returns the copy. Values set
+ * by an op are copied too, so no two decoded values share structure.
+ */
+export function applyPatch<T>(value: T, ops: PatchOp[]): T {
+  let root: unknown = structuredClone(value);
+  for (const op of ops) {
+    const [path] = op;
+    const next = op.length === 2 ? structuredClone(op[1]) : undefined;
+    if (path.length === 0) {
+      root = next;
+      continue;
+    }
+    let parent = root as JsonObject;
+    for (const key of path.slice(0, -1)) parent = parent[key] as JsonObject;
+    const last = path[path.length - 1];
+    if (op.length === 1) delete parent[last];
+    else parent[last] = next;
+  }
+  return root as T;
+}
+
+export function encodeSeries<T>(values: T[]): DeltaSeries<T> {
+  const series: DeltaSeries<T> = { keyframe: null, patches: [] };
+  values.forEach((v, i) => appendToSeries(series, i > 0 ? values[i - 1] : null, v));
+  return series;
+}
+
+/**
+ * Adds `next` to the end of a series. `prev` must be the series' current last
+ * value (ignored for an empty series) — callers that already hold it avoid
+ * decoding the whole series to append.
+ */
+export function appendToSeries<T>(series: DeltaSeries<T>, prev: T | null, next: T): void {
+  if (series.keyframe === null) {
+    series.keyframe = structuredClone(next);
+    return;
+  }
+  series.patches.push(diffValues(prev, next));
+}
+
+export function seriesLength(series: DeltaSeries<unknown>): number {
+  return series.keyframe === null ? 0 : series.patches.length + 1;
+}
+
+export function decodeSeries<T>(series: DeltaSeries<T>): T[] {
+  if (series.keyframe === null) return [];
+  const values: T[] = [structuredClone(series.keyframe)];
+  for (const ops of series.patches) values.push(applyPatch(values[values.length - 1], ops));
+  return values;
+}
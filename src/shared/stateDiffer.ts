@@ -6,15 +6,27 @@
  *
  * Accuracy notes per metric:
  *  Played       – card left hand AND appeared in ground/space arena → exact for both players
+ *                 (opponent: any new non-token arrival in the arena, or a new event in discard)
  *  Resourced    – card left hand AND appeared in resources  → exact for local player only
  *                 (opponent hand is face-down; we can't see which card became a resource)
  *  Discarded    – card uuid appeared in discard not present before → exact for both players
  *  Drawn (count)– numCardsInDeck decreased → exact count
  *  Drawn (which)– new card uuids appeared in local player's hand → exact for local player
  *                 (opponent hand face-down; we only know count)
+ *
+ * Upgrades, tokens and captives sit inside the units they belong to, or in
+ * the credits pile, so they are diffed across the whole board (diffNested):
+ *  Attached     – a non-token upgrade new to play. One that left a player's
+ *                 hand is also played by them; one from their discard or
+ *                 resources is theirs but not a play. An upgrade from nowhere
+ *                 visible came from the opponent's deck or hidden zones
+ *  TokenCreated – a new token unit, a token upgrade (Shield, Experience) new
+ *                 on a unit, or new credits → credited to the controller
+ *  TookCaptive  – a unit holding a captive it didn't hold before
+ *  Rescued      – a former captive back in an arena
  */
 
-import type { CardEvent, CardSummary, IGameState, PlayerStateSummary } from './types';
+import type { CardEvent, CardSide, CardSummary, GameCardMetric, IGameState, PlayerStateSummary } from './types';
 
 function uuidSet(cards: CardSummary[]): Set<string> {
   return new Set(cards.map((c) => c.uuid));
@@ -31,28 +43,199 @@ function cardLabel(c: CardSummary): string {
 }
 
 function allArena(p: PlayerStateSummary): CardSummary[] {
-  return [...p.cardPiles.groundArena, ...p.cardPiles.spaceArena];
+  return [...(p.cardPiles?.groundArena ?? []), ...(p.cardPiles?.spaceArena ?? [])];
+}
+
+function isToken(c: CardSummary): boolean {
+  return (c.type ?? '').toLowerCase().includes('token');
+}
+
+/** UUIDs of every upgrade on any unit in play. */
+function upgradeUuids(state: IGameState): Set<string> {
+  const s = new Set<string>();
+  for (const p of Object.values(state.players)) {
+    for (const unit of allArena(p)) {
+      for (const c of unit.upgrades ?? []) s.add(c.uuid);
+    }
+  }
+  return s;
+}
+
+/** UUIDs of every unit currently held captive under any unit in play. */
+function capturedUuids(state: IGameState): Set<string> {
+  const s = new Set<string>();
+  for (const p of Object.values(state.players)) {
+    for (const unit of allArena(p)) {
+      for (const c of unit.capturedUnits ?? []) s.add(c.uuid);
+    }
+  }
+  return s;
 }
 
 interface DiffContext {
   gameId: string;
   roundNumber: number;
-  /** Only generate events for this player ID. If omitted, all players are diffed. */
+  /**
+   * The extension user's player ID. Events for this player are marked
+   * side='you'; every other player's public plays/discards are marked
+   * side='opponent'. If omitted, all players are diffed as if local.
+   */
   localPlayerId?: string;
 }
 
+/**
+ * Opponent hands and resources are face-down, so only public-zone arrivals
+ * can be attributed to a card: new units in the arena and new cards in the
+ * discard pile.
+ */
+function diffOpponent(
+  playerId: string,
+  p0: PlayerStateSummary,
+  p1: PlayerStateSummary,
+  prevCaptured: Set<string>,
+  ctx: DiffContext
+): CardEvent[] {
+  const events: CardEvent[] = [];
+  const playerName = p1.name;
+  const event = (card: CardSummary, metric: 'played' | 'discarded'): CardEvent => ({
+    gameId: ctx.gameId,
+    roundNumber: ctx.roundNumber,
+    playerId,
+    playerName,
+    side: 'opponent',
+    cardId: card.id ?? card.uuid,
+    cardName: cardLabel(card),
+    cardSetId: card.setId,
+    metric,
+    count: 1,
+  });
+
+  const prevArena = uuidSet(allArena(p0));
+  const prevDiscard = uuidSet(p0.cardPiles.discard ?? []);
+
+  // ─ PLAYED (arena): new unit that isn't the deployed leader, a token, a
+  //   rescued captive, or a unit that just moved between arenas ───────────
+  for (const card of allArena(p1)) {
+    if (prevArena.has(card.uuid)) continue;
+    if (card.uuid === p1.leader?.uuid || isToken(card) || prevCaptured.has(card.uuid)) continue;
+    console.debug(`[KB Tracker] PLAYED (arena) ${cardLabel(card)} by opponent ${playerName}`);
+    events.push(event(card, 'played'));
+  }
+
+  // ─ PLAYED (event) / DISCARDED: new in discard. Only events are played
+  //   there; any other card that left the hand was discarded ──────────────
+  for (const card of p1.cardPiles.discard ?? []) {
+    if (prevDiscard.has(card.uuid)) continue;
+    const fromArena = prevArena.has(card.uuid);
+    const isEvent = !fromArena && (card.type ?? '').toLowerCase() === 'event';
+    console.debug(`[KB Tracker] ${isEvent ? 'PLAYED (event)' : 'DISCARDED'} ${cardLabel(card)} by opponent ${playerName}`);
+    events.push(event(card, isEvent ? 'played' : 'discarded'));
+  }
+
+  // ─ DRAWN: count only — the hand is face-down ──────────────────────────
+  const deckDecrease = (p0.numCardsInDeck ?? 0) - (p1.numCardsInDeck ?? 0);
+  if (deckDecrease > 0) {
+    console.debug(`[KB Tracker] DRAWN x${deckDecrease} (unknown) by opponent ${playerName}`);
+    events.push({
+      gameId: ctx.gameId,
+      roundNumber: ctx.roundNumber,
+      playerId,
+      playerName,
+      side: 'opponent',
+      cardId: '__unknown__',
+      cardName: '(unknown)',
+      metric: 'drawn',
+      count: deckDecrease,
+    });
+  }
+
+  return events;
+}
+
+/** Upgrades, tokens and captives across the whole board (see the header). */
+function diffNested(prev: IGameState, next: IGameState, ctx: DiffContext): CardEvent[] {
+  const events: CardEvent[] = [];
+  const ids = Object.keys(next.players).filter((id) => prev.players[id]?.cardPiles && next.players[id]?.cardPiles);
+  const event = (playerId: string, card: CardSummary, metric: GameCardMetric, count = 1): CardEvent => ({
+    gameId: ctx.gameId,
+    roundNumber: ctx.roundNumber,
+    playerId,
+    playerName: next.players[playerId].name,
+    side: !ctx.localPlayerId || playerId === ctx.localPlayerId ? 'you' : 'opponent',
+    cardId: card.id ?? card.uuid,
+    cardName: cardLabel(card),
+    cardSetId: card.setId,
+    metric,
+    count,
+  });
+
+  const prevArena = new Set(ids.flatMap((id) => allArena(prev.players[id]).map((c) => c.uuid)));
+  const prevUpgrades = upgradeUuids(prev);
+  const prevCaptured = capturedUuids(prev);
+  const nextCaptured = capturedUuids(next);
+  const leaders = new Set(ids.map((id) => next.players[id].leader?.uuid));
+
+  // Whose pile a new upgrade came from; unseen ones are the opponent's
+  const upgradeOwner = (uuid: string, controllerId: string): { playerId: string; fromHand: boolean } => {
+    for (const id of ids) {
+      const piles = prev.players[id].cardPiles;
+      if ((piles.hand ?? []).some((c) => c.uuid === uuid)) return { playerId: id, fromHand: true };
+      if ([...(piles.discard ?? []), ...(piles.resources ?? [])].some((c) => c.uuid === uuid)) return { playerId: id, fromHand: false };
+    }
+    const opponentId = ctx.localPlayerId ? ids.find((id) => id !== ctx.localPlayerId) : undefined;
+    return { playerId: opponentId ?? controllerId, fromHand: true };
+  };
+
+  for (const id of ids) {
+    for (const unit of allArena(next.players[id])) {
+      if (!prevArena.has(unit.uuid) && isToken(unit)) {
+        console.debug(`[KB Tracker] TOKEN ${cardLabel(unit)} for ${next.players[id].name}`);
+        events.push(event(id, unit, 'tokenCreated'));
+      }
+      if (prevCaptured.has(unit.uuid) && !nextCaptured.has(unit.uuid)) {
+        console.debug(`[KB Tracker] RESCUED ${cardLabel(unit)} by ${next.players[id].name}`);
+        events.push(event(id, unit, 'rescued'));
+      }
+      for (const upgrade of unit.upgrades ?? []) {
+        if (prevUpgrades.has(upgrade.uuid) || leaders.has(upgrade.uuid)) continue;
+        if (isToken(upgrade)) {
+          console.debug(`[KB Tracker] TOKEN ${cardLabel(upgrade)} on ${cardLabel(unit)} for ${next.players[id].name}`);
+          events.push(event(id, upgrade, 'tokenCreated'));
+          continue;
+        }
+        const owner = upgradeOwner(upgrade.uuid, id);
+        console.debug(`[KB Tracker] ATTACHED ${cardLabel(upgrade)} to ${cardLabel(unit)} by ${next.players[owner.playerId].name}`);
+        if (owner.fromHand) events.push(event(owner.playerId, upgrade, 'played'));
+        events.push(event(owner.playerId, upgrade, 'attached'));
+      }
+      for (const captive of unit.capturedUnits ?? []) {
+        if (prevCaptured.has(captive.uuid)) continue;
+        console.debug(`[KB Tracker] ${cardLabel(unit)} TOOK CAPTIVE ${cardLabel(captive)}`);
+        events.push(event(id, unit, 'tookCaptive'));
+      }
+    }
+
+    const credits = next.players[id].cardPiles.credits ?? [];
+    const newCredits = credits.length - (prev.players[id].cardPiles.credits?.length ?? 0);
+    if (newCredits > 0) {
+      const sample = credits[credits.length - 1];
+      console.debug(`[KB Tracker] TOKEN credit x${newCredits} for ${next.players[id].name}`);
+      events.push(event(id, sample.id ? sample : { ...sample, id: 'credit', name: sample.name ?? 'Credit' }, 'tokenCreated', newCredits));
+    }
+  }
+  return events;
+}
+
 export function diffSnapshots(
   prev: IGameState,
   next: IGameState,
   ctx: DiffContext
 ): CardEvent[] {
   const events: CardEvent[] = [];
+  const prevCaptured = capturedUuids(prev);
+  const nextUpgrades = upgradeUuids(next);
 
   for (const playerId of Object.keys(next.players)) {
-    // Only track the local player's cards — opponent hand is mostly facedown
-    // and we can't reliably identify their cards anyway.
-    if (ctx.localPlayerId && playerId !== ctx.localPlayerId) continue;
-
     const p0 = prev.players[playerId];
     const p1 = next.players[playerId];
     if (!p0 || !p1) continue;
@@ -63,7 +246,14 @@ export function diffSnapshots(
       continue;
     }
 
+    // Opponent hand is facedown — only their public zones can be diffed.
+    if (ctx.localPlayerId && playerId !== ctx.localPlayerId) {
+      events.push(...diffOpponent(playerId, p0, p1, prevCaptured, ctx));
+      continue;
+    }
+
     const playerName = p1.name;
+    const side: CardSide = 'you';
 
     // ── Hand UUIDs ──────────────────────────────────────────────────────
     const prevHand = byUuid(p0.cardPiles.hand ?? []);
@@ -107,6 +297,7 @@ export function diffSnapshots(
           roundNumber: ctx.roundNumber,
           playerId,
           playerName,
+          side,
           cardId: card.id ?? card.uuid,
           cardName: cardLabel(card),
           cardSetId: card.setId,
@@ -125,6 +316,7 @@ export function diffSnapshots(
           roundNumber: ctx.roundNumber,
           playerId,
           playerName,
+          side,
           cardId: card2.id ?? card2.uuid,
           cardName: cardLabel(card2),
           cardSetId: card2.setId,
@@ -132,7 +324,8 @@ export function diffSnapshots(
           count: 1,
         });
         playedFromHandToDiscard.add(uuid);
-      } else {
+      } else if (!nextUpgrades.has(uuid)) {
+        // Upgrades are attached inside a unit — diffNested picks those up
         console.debug(`[KB Tracker] left hand but unknown destination: ${cardLabel(card)} uuid=${uuid}`);
       }
     }
@@ -146,6 +339,7 @@ export function diffSnapshots(
           roundNumber: ctx.roundNumber,
           playerId,
           playerName,
+          side,
           cardId: card.id ?? card.uuid,
           cardName: cardLabel(card),
           cardSetId: card.setId,
@@ -164,6 +358,7 @@ export function diffSnapshots(
           roundNumber: ctx.roundNumber,
           playerId,
           playerName,
+          side,
           cardId: card.id ?? card.uuid,
           cardName: cardLabel(card),
           cardSetId: card.setId,
@@ -187,6 +382,7 @@ export function diffSnapshots(
             roundNumber: ctx.roundNumber,
             playerId,
             playerName,
+            side,
             cardId: card.id ?? card.uuid,
             cardName: cardLabel(card),
             cardSetId: card.setId,
@@ -202,6 +398,7 @@ export function diffSnapshots(
           roundNumber: ctx.roundNumber,
           playerId,
           playerName,
+          side,
           cardId: '__unknown__',
           cardName: '(unknown)',
           metric: 'drawn',
@@ -211,6 +408,8 @@ export function diffSnapshots(
     }
   }
 
+  events.push(...diffNested(prev, next, ctx));
+
   console.debug(`[KB Tracker] diffSnapshots → ${events.length} event(s)`);
   return events;
 }
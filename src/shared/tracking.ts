@@ -0,0 +1,76 @@
+/**
+ * tracking.ts
+ *
+ * Reconciliation pass: checks that every card a player brought is accounted
+ * for, so games where the recorder lost track can be flagged.
+ *
+ * A player's cards are split between the deck (only a count) and the piles
+ * the server lists: hand, resources, discard, cards outside the game, and
+ * units in play with their upgrades and captives. Added up they should come
+ * to the deck size at every point of the game. The recorder counts both
+ * players at the start of each round and in the final state; a count that
+ * is off means states were missed or misread, and the draw, play and
+ * discard events inferred from them are suspect too.
+ *
+ * Piles are listed under the player who controls them, not the owner, so a
+ * stolen unit, a captive or an upgrade on an enemy unit moves a card from
+ * one player's count to the other's. When the two players are off by
+ * opposite amounts the count passes. Leaders and tokens never count.
+ */
+
+import type { CardCount, CardSummary, PlayerStateSummary, TrackingDrift, TrackingReport } from './types';
+
+function isToken(c: CardSummary): boolean {
+  return (c.type ?? '').toLowerCase().includes('token');
+}
+
+/** Deck count plus every listed card, each counted once even if two piles list it */
+export function cardsAccountedFor(ps: PlayerStateSummary): number {
+  const piles = ps.cardPiles;
+  // Lobby and partial states come without piles; the deck count is all there is
+  if (!piles) return ps.numCardsInDeck ?? 0;
+  const seen = new Set<string>();
+  let unlabelled = 0;
+  const add = (c: CardSummary): void => {
+    if (c.uuid === ps.leader?.uuid || isToken(c)) return;
+    if (!c.uuid) unlabelled++;
+    else seen.add(c.uuid);
+  };
+
+  for (const c of [
+    ...(piles.hand ?? []),
+    ...(piles.resources ?? []),
+    ...(piles.discard ?? []),
+    ...(piles.outsideTheGame ?? []),
+    ...(piles.capturedZone ?? []),
+  ]) add(c);
+  for (const unit of [...(piles.groundArena ?? []), ...(piles.spaceArena ?? [])]) {
+    add(unit);
+    for (const c of [...(unit.upgrades ?? []), ...(unit.capturedUnits ?? [])]) add(c);
+  }
+  return (ps.numCardsInDeck ?? 0) + seen.size + unlabelled;
+}
+
+/**
+ * Compares each count with the deck sizes. Confidence is the share of
+ * per-player counts that matched; a game with no counts scores 1.
+ */
+export function reconcileCounts(deckSizes: [number, number], counts: CardCount[]): TrackingReport {
+  const drifts: TrackingDrift[] = [];
+  let matched = 0;
+  for (const c of counts) {
+    const drift: [number, number] = [c.counts[0] - deckSizes[0], c.counts[1] - deckSizes[1]];
+    if (drift[0] + drift[1] === 0) {
+      // Nothing off, or cards that changed sides
+      matched += 2;
+      continue;
+    }
+    matched += drift.filter((d) => d === 0).length;
+    drifts.push({ round: c.round, ...(c.atEnd ? { atEnd: true } : {}), drift });
+  }
+  return {
+    confidence: counts.length === 0 ? 1 : matched / (counts.length * 2),
+    checks: counts.length,
+    drifts,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * trends.ts
+ *
+ * Results over time: the date-range filter shared by the stats views, a
+ * rolling win rate, and games played per week.
+ *
+ * Dates in a DateRange are the calendar days picked in the dashboard
+ * (YYYY-MM-DD, local time) and both ends are inclusive. Weeks start on
+ * Monday, also in local time.
+ */
+
+import type { DateRange } from './types';
+
+/** Whether an ISO timestamp falls within the range; an empty range lets everything through. */
+export function inDateRange(iso: string, range?: DateRange): boolean {
+  if (!range) return true;
+  const t = new Date(iso).getTime();
+  if (range.from && t < new Date(`${range.from}T00:00:00`).getTime()) return false;
+  if (range.to && t >= dayAfter(range.to).getTime()) return false;
+  return true;
+}
+
+function dayAfter(day: string): Date {
+  const d = new Date(`${day}T00:00:00`);
+  d.setDate(d.getDate() + 1);
+  return d;
+}
+
+function localDay(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+/** The Monday starting the week an ISO timestamp falls in, as YYYY-MM-DD. */
+export function weekStart(iso: string): string {
+  const d = new Date(iso);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return localDay(d);
+}
+
+/**
+ * Win rate over the last `window` results at each point, oldest first.
+ * Until `window` games have been played the average covers all of them.
+ * Draws count as games without a win.
+ */
+export function rollingWinRate(won: boolean[], window: number): number[] {
+  const out: number[] = [];
+  let wins = 0;
+  won.forEach((w, i) => {
+    if (w) wins++;
+    if (i >= window && won[i - window]) wins--;
+    out.push(wins / Math.min(i + 1, window));
+  });
+  return out;
+}
+
+/** Games per week from the first game's week to the last's, empty weeks included. */
+export function gamesPerWeek(completedAt: string[]): Array<{ week: string; games: number }> {
+  if (completedAt.length === 0) return [];
+  const counts = new Map<string, number>();
+  for (const iso of completedAt) {
+    const week = weekStart(iso);
+    counts.set(week, (counts.get(week) ?? 0) + 1);
+  }
+  const weeks = [...counts.keys()].sort();
+  const out: Array<{ week: string; games: number }> = [];
+  const last = weeks[weeks.length - 1];
+  for (let d = new Date(`${weeks[0]}T00:00:00`); localDay(d) <= last; d.setDate(d.getDate() + 7)) {
+    const week = localDay(d);
+    out.push({ week, games: counts.get(week) ?? 0 });
+  }
+  return out;
+}
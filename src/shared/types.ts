@@ -135,6 +135,13 @@ export type ExtMessage =
   | { type: 'EXPORT_ALL_RESPONSE'; data: string }
   | { type: 'DELETE_GAME'; gameId: string }
   | { type: 'DELETE_GAME_RESPONSE'; success: boolean }
+  // ── In-progress game checkpoints ──
+  | { type: 'GAME_CHECKPOINT'; payload: RecorderCheckpoint }
+  | { type: 'GET_GAME_CHECKPOINT'; gameId: string }
+  | { type: 'GET_GAME_CHECKPOINT_RESPONSE'; checkpoint: RecorderCheckpoint | null }
+  | { type: 'CLEAR_GAME_CHECKPOINT'; gameId: string }
+  // ── Raw session capture ──
+  | { type: 'CAPTURE_FRAMES'; captureId: string; url: string; frames: CapturedFrame[] }
   // ── Auth / sync messages ──
   | { type: 'AUTH_SIGNED_IN'; payload: AuthState }
   | { type: 'AUTH_SIGN_OUT' }
@@ -146,20 +153,55 @@ export type ExtMessage =
 
 // ─── Persisted game record ───────────────────────────────────────────────────
 
-export type GameCardMetric = 'played' | 'resourced' | 'activated' | 'drawn' | 'discarded';
+export type GameCardMetric =
+  | 'played'
+  | 'resourced'
+  | 'activated'
+  | 'drawn'
+  | 'discarded'
+  // ── Upgrades, tokens and captives (stateDiffer.ts) ──
+  | 'attached'
+  | 'tokenCreated'
+  | 'tookCaptive'
+  | 'rescued'
+  // ── From game-log patterns (logParser.ts) ──
+  | 'attacked'
+  | 'dealtDamage'
+  | 'defeated'
+  | 'captured'
+  | 'healed'
+  | 'smuggled'
+  | 'exploited'
+  | 'bountyCollected'
+  | 'deployed';
+
+/** Whose card an event belongs to, relative to the extension user */
+export type CardSide = 'you' | 'opponent';
 
 export interface CardEvent {
   gameId: string;
   roundNumber: number;
   playerId: string;
   playerName: string;
+  /** Missing on records saved before opponent tracking — infer from playerName */
+  side?: CardSide;
   cardId: string;
   cardName: string;
   /** Set + number needed to build the card image URL */
   cardSetId?: { set: string; number: number };
   metric: GameCardMetric;
-  /** 1-based count (for draw events where multiple cards drawn at once) */
+  /**
+   * 1-based count (for draw events where multiple cards drawn at once).
+   * For dealtDamage / healed this is the amount of damage.
+   */
   count: number;
+  /**
+   * The other card in a log event: the defender (attacked), the damaged or
+   * healed card (dealtDamage / healed), or the card that defeated / captured
+   * this one (defeated / captured)
+   */
+  targetCardId?: string;
+  targetCardName?: string;
 }
 
 export interface GamePlayer {
@@ -173,28 +215,278 @@ export interface GamePlayer {
   baseSetId?: { set: string; number: number };
   /** Primary aspects of the base card, e.g. ['aggression'] */
   baseAspects?: string[];
-  /** Starting deck size detected from first snapshot */
+  /**
+   * Starting deck size: every card the player is seen with in the first
+   * state, not just the deck pile, so a hand already drawn still counts
+   * (see tracking.ts)
+   */
   deckSize: number;
+  /**
+   * When this player's leader first deployed as a unit. null = never
+   * deployed; absent on games recorded before deploys were tracked.
+   */
+  deploy?: LeaderDeploy | null;
 }
 
+export interface LeaderDeploy {
+  round: number;
+  /**
+   * 1-based action number within the round, counting plays, attacks,
+   * ability activations and deploys by either player
+   */
+  turn: number;
+}
+
+/**
+ * How a game ended. 'baseDestroyed' and 'draw' are natural endings; the rest
+ * mean someone stopped playing before the game was decided on the board.
+ */
+export type GameEndReason = 'baseDestroyed' | 'concede' | 'opponentLeft' | 'timeout' | 'draw';
+
 export interface GameRecord {
   gameId: string;
   /** ISO date string */
   startedAt: string;
   completedAt: string;
+  /** The lobby's game mode; see formatDetection for what was actually played */
   format: SwuGameFormat;
-  /** true when starting deck size ≤ 35 cards */
+  /** true when the game was classified as Limited */
   isLimitedFormat: boolean;
+  /** How the game was classified. Absent on older games (see formatDetector.ts) */
+  formatDetection?: FormatDetection;
   /** when true, excluded from aggregate stats but kept in history */
   hidden?: boolean;
+  /** true when the game was abandoned before a result (reload, crash, tab closed) */
+  incomplete?: boolean;
   players: [GamePlayer, GamePlayer];
   /** Name of the winner, or null for draw */
   winner: string | null;
+  /** Absent on incomplete games and on games recorded before end reasons were tracked */
+  endReason?: GameEndReason;
   rounds: number;
+  /** Absent on games recorded before initiative was tracked */
+  initiative?: InitiativeRecord;
+  /** The local player's setup hands. Absent on older games and when setup was missed */
+  openingHand?: OpeningHand;
   cardEvents: CardEvent[];
   rawLog: IChatEntry[];
   /** Round-by-round arena snapshots captured at the start of each action phase */
   snapshots: RoundSnapshot[];
+  /** Every ingested state, for the replay viewer. Absent on older games */
+  replay?: GameReplay;
+  /** Bo1/Bo3 match this game belongs to — assigned when the game is saved */
+  matchId?: string;
+  /** 1-based position of this game within its match */
+  matchGameNumber?: number;
+  /** The saved deck the local player's cards matched. Absent when none did */
+  deck?: GameDeck;
+  /** How well the card counts added up. Absent on older games */
+  tracking?: TrackingReport;
+}
+
+/** Cards accounted for per player at one point in a game, local player first */
+export interface CardCount {
+  round: number;
+  /** true for the count taken from the game's last state */
+  atEnd?: boolean;
+  counts: [number, number];
+}
+
+/** One count that didn't match the deck sizes */
+export interface TrackingDrift {
+  round: number;
+  atEnd?: boolean;
+  /** Cards accounted for minus deck size, per player (local player first) */
+  drift: [number, number];
+}
+
+/** Result of the reconciliation pass run when a game is finalized (see tracking.ts) */
+export interface TrackingReport {
+  /** Share of per-player counts (0–1) that matched the deck size */
+  confidence: number;
+  /** Number of counts taken (each covers both players) */
+  checks: number;
+  drifts: TrackingDrift[];
+}
+
+/** What a game was played as, whatever lobby it was in */
+export type GameFormat = 'premier' | 'twinSuns' | 'limited' | 'eternal' | 'nextSetPreview';
+
+/** The popup's format setting: 'auto' trusts the detector, the rest fill in when it is unsure */
+export type FormatMode = 'auto' | 'premier' | 'limited' | 'eternal';
+
+/** Result of classifying a game (see formatDetector.ts) */
+export interface FormatDetection {
+  format: GameFormat;
+  /** false when only the lobby's game mode pointed at the format */
+  certain: boolean;
+  /** The evidence, e.g. "30-card deck" */
+  reasons: string[];
+  /** true when the popup's format mode or History's Change Format picked the format */
+  manual?: boolean;
+}
+
+/** Cards seen so far that the format detector needs; plain data so it checkpoints */
+export interface FormatSightings {
+  /** "playerId|cardId" → uuids of that card seen in the player's hand, resources or discard */
+  copies: Record<string, string[]>;
+  /** Set codes of every card seen, upper case */
+  sets: string[];
+}
+
+/** Path into a JSON value: property names and array indices from the root */
+export type PatchPath = (string | number)[];
+/** [path, value] sets the value at path; [path] deletes it */
+export type PatchOp = [path: PatchPath] | [path: PatchPath, value: unknown];
+
+/** A keyframe plus one patch per later value (see stateDelta.ts) */
+export interface DeltaSeries<T> {
+  /** First value in full; null for an empty series */
+  keyframe: T | null;
+  /** patches[i] turns value i into value i + 1 */
+  patches: PatchOp[][];
+}
+
+/**
+ * Every game state the recorder ingested, delta-encoded (see stateDelta.ts).
+ * newMessages is emptied in the stored states — the log lives in rawLog, and
+ * logEnds says how much of it each state had seen.
+ */
+export interface GameReplay {
+  states: DeltaSeries<IGameState>;
+  /** Epoch ms each state arrived, one per state */
+  times: number[];
+  /** rawLog length once each state's new messages were added, one per state */
+  logEnds: number[];
+}
+
+/**
+ * A game's round snapshots as the game_snapshots store keeps them. Every
+ * board — each round's start, then the board after each of its actions — is
+ * one value of a single delta series (see snapshotPacking.ts).
+ */
+export interface PackedSnapshots {
+  gameId: string;
+  boards: DeltaSeries<[PlayerSnapshot, PlayerSnapshot]>;
+  rounds: PackedRound[];
+}
+
+/** A RoundSnapshot with its boards moved into PackedSnapshots.boards */
+export interface PackedRound extends Omit<RoundSnapshot, 'players' | 'actions'> {
+  actions?: Omit<TimelineAction, 'players'>[];
+}
+
+/** A card in the local player's hand during setup */
+export interface HandCard {
+  uuid: string;
+  cardId: string;
+  cardName: string;
+  cardSetId?: { set: string; number: number };
+}
+
+/** The local player's hands during setup, and whether they mulliganed */
+export interface OpeningHand {
+  playerId: string;
+  /** The first hand drawn */
+  drawn: HandCard[];
+  mulliganed: boolean;
+  /** The hand the game started with: the redraw after a mulligan, otherwise `drawn` */
+  kept: HandCard[];
+}
+
+/** Who had initiative through the game, by player ID */
+export interface InitiativeRecord {
+  /** Who held initiative — and so took the first action — in round 1 */
+  firstPlayerId: string | null;
+  /** Who held initiative at the start of each round (index 0 = round 1) */
+  heldBy: (string | null)[];
+  /** Who claimed initiative during each round; null when nobody did */
+  claimedBy: (string | null)[];
+}
+
+/** Consecutive games between the same players and leaders */
+export interface Match {
+  matchId: string;
+  /** ISO date of the first game's start */
+  startedAt: string;
+  /** ISO date of the last game's end */
+  completedAt: string;
+  /** [local player, opponent] — same order as GameRecord.players */
+  playerNames: [string, string];
+  leaderIds: [string, string];
+  /** Game IDs in play order */
+  gameIds: string[];
+  /** Game wins per player, same order as playerNames */
+  wins: [number, number];
+  /** 1 until a second game joins the match */
+  bestOf: 1 | 3;
+  /** Name of the match winner, or null while undecided / drawn */
+  winner: string | null;
+}
+
+/** Full GameRecorder state, persisted while a game is in progress */
+export interface RecorderCheckpoint {
+  gameId: string;
+  startedAt: string;
+  /** ISO time of the last ingested state */
+  updatedAt: string;
+  prevState: IGameState | null;
+  cardEvents: CardEvent[];
+  rawLog: IChatEntry[];
+  players: [GamePlayer, GamePlayer] | null;
+  format: SwuGameFormat;
+  roundNumber: number;
+  snapshots: RoundSnapshot[];
+  currentRoundLogs: IChatEntry[];
+  currentRoundBaseHpChanges: BaseHpChange[];
+  lastKnownYouHp: number | null;
+  lastKnownOppHp: number | null;
+  prevPhase: PhaseName | null;
+  localPlayerId: string | null;
+  /** Actions seen so far in the current round (absent in older checkpoints) */
+  roundActions?: number;
+  /** Initiative holders and claims so far (absent in older checkpoints) */
+  initiativeHeldBy?: (string | null)[];
+  initiativeClaimedBy?: (string | null)[];
+  /** Setup hands seen so far (absent in older checkpoints) */
+  openingHand?: OpeningHand | null;
+  /** States ingested so far (absent in older checkpoints) */
+  replay?: GameReplay;
+  /** Round-start card counts so far (absent in older checkpoints) */
+  cardCounts?: CardCount[];
+  /** Cards seen for format detection (absent in older checkpoints) */
+  formatSightings?: FormatSightings;
+}
+
+// ─── Session capture types ───────────────────────────────────────────────────
+
+/** One raw WebSocket text frame as received from the Karabast server */
+export interface CapturedFrame {
+  /** Epoch milliseconds when the frame arrived */
+  t: number;
+  data: string;
+}
+
+/** Header row for a recorded WebSocket session (frames are stored separately) */
+export interface CaptureSession {
+  captureId: string;
+  /** ISO time of the first frame */
+  startedAt: string;
+  /** ISO time of the latest frame */
+  updatedAt: string;
+  /** Page the session was captured on */
+  url: string;
+  frameCount: number;
+  /** Total characters across all frames */
+  totalChars: number;
+}
+
+/** File format written by "Export capture" and accepted by the replayer */
+export interface CaptureFile {
+  kind: 'kb-tracker-capture';
+  version: 1;
+  session: CaptureSession;
+  frames: CapturedFrame[];
 }
 
 // ─── Round snapshot types ────────────────────────────────────────────────────
@@ -234,17 +526,100 @@ export interface RoundSnapshot {
   logEntries: IChatEntry[];
   /** Base HP changes captured during this round's action phase (after the round-start snapshot) */
   baseHpChanges: BaseHpChange[];
+  /** Every action taken this round, in order. Absent on games recorded before the timeline */
+  actions?: TimelineAction[];
+}
+
+/** One action within a round and the board it left behind */
+export interface TimelineAction {
+  /** 1-based action number within the round — the same count as LeaderDeploy.turn */
+  turn: number;
+  capturedAt: string;
+  /** Who acted; null when the action's events name no player */
+  actor: CardSide | null;
+  /** Card events from the update that carried the action (played, attacked, dealtDamage, …) */
+  events: CardEvent[];
+  /** Game-log entries that arrived with the action */
+  logEntries: IChatEntry[];
+  /** [localPlayer, opponent] board after the action */
+  players: [PlayerSnapshot, PlayerSnapshot];
+}
+
+// ─── Opponent scouting types ─────────────────────────────────────────────────
+
+/** One distinct card revealed by an opponent */
+export interface SeenCard {
+  cardId: string;
+  cardName: string;
+  cardSetId?: { set: string; number: number };
+  /** Max copies observed in a single game */
+  copies: number;
+}
+
+/** Everything an opponent revealed during one game */
+export interface SeenOpponentList {
+  gameId: string;
+  leaderId: string;
+  leaderName: string;
+  leaderSetId?: { set: string; number: number };
+  baseId: string;
+  baseName: string;
+  baseSetId?: { set: string; number: number };
+  cards: SeenCard[];
+}
+
+/** Union of all cards seen across every game against one opponent leader */
+export interface OpponentLeaderList {
+  leaderId: string;
+  leaderName: string;
+  leaderSetId?: { set: string; number: number };
+  totalGames: number;
+  /** Bases paired with this leader, most common first */
+  bases: { baseId: string; baseName: string; baseSetId?: { set: string; number: number }; games: number }[];
+  /** `copies` is the max seen in any one game */
+  cards: (SeenCard & { gamesSeen: number })[];
+}
+
+// ─── Live in-game view ───────────────────────────────────────────────────────
+
+/** What GameRecorder knows mid-game — rendered by the on-page overlay */
+export interface LiveGameView {
+  gameId: string;
+  round: number;
+  /** [localPlayer, opponent] */
+  players: [GamePlayer, GamePlayer];
+  /** Base HP over the game so far: round starts plus every mid-round change */
+  baseHp: BaseHpChange[];
+  /** Indices into baseHp where each round starts */
+  roundStarts: number[];
+  /** Cards the opponent has revealed so far */
+  opponentCards: SeenCard[];
 }
 
 // ─── Stats query types ───────────────────────────────────────────────────────
 
 export interface CardStatsOptions {
+  /** Only Limited games; otherwise every format */
   limitedOnly?: boolean;
   playerName?: string;
   /** Filter to games where the specified leader was played */
   leaderId?: string;
   /** Filter to games where the base had this aspect, e.g. 'aggression' */
   baseAspect?: string;
+  /** Whose cards to aggregate (default: 'you') */
+  side?: CardSide;
+  /** Leave out games that ended by concession, leaving or timeout */
+  naturalEndingsOnly?: boolean;
+}
+
+/** Optional filters for getCardStats (db.ts) */
+export interface CardStatsFilters {
+  /** Whose cards to aggregate (default: 'you') */
+  side?: CardSide;
+  /** Leave out games that ended by concession, leaving or timeout */
+  naturalEndingsOnly?: boolean;
+  dateRange?: DateRange;
+  deckFilter?: DeckFilter;
 }
 
 export interface LeaderOption {
@@ -263,26 +638,132 @@ export interface CardStats {
   activated: number;
   drawn: number;
   discarded: number;
+  // Upgrade, token and captive totals (see stateDiffer.ts)
+  attached: number;
+  tokenCreated: number;
+  tookCaptive: number;
+  rescued: number;
+  // Log-pattern totals (see logParser.ts)
+  attacked: number;
+  dealtDamage: number;
+  defeated: number;
+  captured: number;
+  healed: number;
+  smuggled: number;
+  exploited: number;
+  bountyCollected: number;
+  deployed: number;
   // Per-game appearance counts
   gamesAppeared: number;
   gamesPlayedIn: number;
   gamesDrawnIn: number;
-  // Win rates (0–1)
+  gamesCreatedIn: number;     // games a token was created in
+  gamesWonWhenPlayed: number;
+  gamesWonWhenDrawn: number;
+  // Opening-hand counts (your cards only; see openingHand.ts)
+  openingHandGames: number;  // games the card was in the hand you kept
+  firstHandGames: number;    // games the card was in the first hand drawn
+  gamesDrawnNotPlayed: number; // games it was drawn or kept in hand but never played
+  // Win rates (0–1), each with its 95% Wilson interval (see winStats.ts)
   winRateWhenPlayed: number;
+  winRateWhenPlayedLow: number;
+  winRateWhenPlayedHigh: number;
   winRateWhenDrawn: number;
+  winRateWhenDrawnLow: number;
+  winRateWhenDrawnHigh: number;
+  winRateInOpeningHand: number;
+  winRateInOpeningHandLow: number;
+  winRateInOpeningHandHigh: number;
+  winRateDrawnNotPlayed: number;
+  winRateDrawnNotPlayedLow: number;
+  winRateDrawnNotPlayedHigh: number;
+  winRateWhenCreated: number;  // tokens: games it was created in
+  winRateWhenCreatedLow: number;
+  winRateWhenCreatedHigh: number;
+  // Win contribution (see winStats.ts): Win % played minus Win % drawn but not
+  // played, with its 95% interval. Null until both kinds of game exist.
+  playedWinRateDelta: number | null;
+  playedWinRateDeltaLow: number | null;
+  playedWinRateDeltaHigh: number | null;
   // Derived rates (0–1)
   resourceRate: number;    // resourced / drawn
   playRate: number;        // gamesPlayedIn / gamesAppeared
+  defeatRate: number;      // defeated / played
+  mulliganRate: number;    // games mulliganed / firstHandGames
   // Averages
   avgCopiesPerGame: number;  // played / gamesPlayedIn
   avgRoundPlayed: number;    // avg roundNumber of play events
+  avgDamagePerGame: number;  // dealtDamage / gamesPlayedIn (gamesAppeared for leaders)
+}
+
+/** How often you mulligan with one leader, and how the game went after */
+export interface LeaderMulliganRow {
+  leaderId: string;
+  leaderName: string;
+  leaderSetId?: { set: string; number: number };
+  /** Games with a tracked opening hand */
+  games: number;
+  mulliganRate: number;
+  kept: WinTally;
+  mulliganed: WinTally;
+}
+
+/** Resources averaged over every game that reached one round number */
+export interface ResourceRoundAverage {
+  round: number;
+  games: number;
+  youTotal: number;
+  oppTotal: number;
+  /** Average ready resources left after the round's last action; null with no timeline data */
+  youUnspent: number | null;
+  oppUnspent: number | null;
+}
+
+/** How much you leave on the table with one leader, and how it goes when you do */
+export interface LeaderResourceRow {
+  leaderId: string;
+  leaderName: string;
+  leaderSetId?: { set: string; number: number };
+  games: number;
+  /** Average resources left unspent per round, in won and in lost games */
+  avgUnspentInWins: number | null;
+  avgUnspentInLosses: number | null;
+  /** Games with at least one flagged round, and games without */
+  wasteful: WinTally;
+  efficient: WinTally;
+}
+
+/** A round you ended with resources unspent (see resourceCurve.ts) */
+export interface FlaggedRound {
+  gameId: string;
+  completedAt: string;
+  yourLeaderName: string;
+  opponentLeaderName: string;
+  round: number;
+  unspent: number;
+  total: number;
+  /** null for a draw */
+  won: boolean | null;
+}
+
+export interface ResourceStats {
+  /** Games with round snapshots */
+  games: number;
+  rounds: ResourceRoundAverage[];
+  leaders: LeaderResourceRow[];
+  /** Most recent first */
+  flagged: FlaggedRound[];
 }
 
 export interface MatchupStatsOptions {
+  /** Only Limited games; otherwise every format */
   limitedOnly?: boolean;
   playerName?: string;
+  /** Leave out games that ended by concession, leaving or timeout */
+  naturalEndingsOnly?: boolean;
 }
 
+/** Every win rate carries its 95% Wilson interval as <rate>Low / <rate>High (see winStats.ts) */
 export interface MatchupRow {
   yourLeaderId: string;
   yourLeaderName: string;
@@ -295,6 +776,100 @@ export interface MatchupRow {
   draws: number;
   totalGames: number;
   winRate: number;
+  winRateLow: number;
+  winRateHigh: number;
+  /** Game 1 of each match (pre-sideboard), including Bo1s */
+  game1Wins: number;
+  game1Games: number;
+  game1WinRate: number;
+  game1WinRateLow: number;
+  game1WinRateHigh: number;
+  /** Games 2 and 3 of Bo3 matches (post-sideboard) */
+  postBoardWins: number;
+  postBoardGames: number;
+  postBoardWinRate: number;
+  postBoardWinRateLow: number;
+  postBoardWinRateHigh: number;
+  /** Games where the opponent's leader deployed before yours (or yours never did) */
+  oppDeployedFirstWins: number;
+  oppDeployedFirstGames: number;
+  oppDeployedFirstWinRate: number;
+  oppDeployedFirstWinRateLow: number;
+  oppDeployedFirstWinRateHigh: number;
+  /** Games where your leader deployed before the opponent's (or theirs never did) */
+  youDeployedFirstWins: number;
+  youDeployedFirstGames: number;
+  youDeployedFirstWinRate: number;
+  youDeployedFirstWinRateLow: number;
+  youDeployedFirstWinRateHigh: number;
+  /** Games where you held initiative in round 1 ("on the play") */
+  onPlayWins: number;
+  onPlayGames: number;
+  onPlayWinRate: number;
+  onPlayWinRateLow: number;
+  onPlayWinRateHigh: number;
+  /** Games where the opponent held initiative in round 1 ("on the draw") */
+  onDrawWins: number;
+  onDrawGames: number;
+  onDrawWinRate: number;
+  onDrawWinRateLow: number;
+  onDrawWinRateHigh: number;
+  /** Results keyed by the number of rounds you started holding initiative */
+  initiativeRounds: Record<number, WinTally>;
+}
+
+export interface WinTally {
+  wins: number;
+  games: number;
+}
+
+// ─── Deck library ────────────────────────────────────────────────────────────
+
+/** One decklist entry (see deckList.ts) */
+export interface DeckCard {
+  /** SWUDB set code, e.g. "SOR_046" — present on lists imported from SWUDB JSON */
+  setCode?: string;
+  /** Card name as written in a plain-text list, e.g. "Han Solo | Old Friend" */
+  name?: string;
+  count: number;
+}
+
+/** One import of a deck; re-importing under the same deck adds the next version */
+export interface DeckVersion {
+  /** 1-based */
+  version: number;
+  importedAt: string;
+  leader: DeckCard | null;
+  base: DeckCard | null;
+  cards: DeckCard[];
+  sideboard: DeckCard[];
+}
+
+export interface Deck {
+  deckId: string;
+  name: string;
+  /** Oldest first */
+  versions: DeckVersion[];
+}
+
+/** The deck version a game was matched to (see deckMatch.ts) */
+export interface GameDeck {
+  deckId: string;
+  version: number;
+  /** Share of the local player's seen cards that are in that version (0–1) */
+  score: number;
+}
+
+/** Narrows stats to games matched to one deck, optionally one version of it */
+export interface DeckFilter {
+  deckId: string;
+  version?: number;
+}
+
+/** Calendar days (YYYY-MM-DD, inclusive); an absent end is open (see trends.ts) */
+export interface DateRange {
+  from?: string;
+  to?: string;
 }
 
 // ─── Firebase / cloud sync types ─────────────────────────────────────────────
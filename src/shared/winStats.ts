@@ -0,0 +1,63 @@
+/**
+ * winStats.ts
+ *
+ * Small-sample statistics for win rates.
+ *
+ * Win rates from a handful of games swing wildly, so comparisons come with a
+ * 95% confidence interval. Single win rates use the Wilson score interval,
+ * which stays inside 0–1 and doesn't collapse to a point at 0% or 100%.
+ * Differences use the Agresti–Caffo interval: the normal approximation after
+ * adding one win and one loss to each side, which keeps a 3–0 against 0–3
+ * from claiming certainty.
+ *
+ * Tables sort win rates by the interval's lower bound, so a 2–0 record
+ * (lower bound 34%) ranks below 30–10 (60%) instead of above it.
+ */
+
+import type { WinTally } from './types';
+
+/** z-score for a two-sided 95% interval */
+export const Z_95 = 1.96;
+
+/** 95% confidence interval for a win rate (0–1) */
+export interface WinRateInterval {
+  low: number;
+  high: number;
+}
+
+/** Wilson score interval for `wins` out of `games`; 0–1 with no games. */
+export function wilsonInterval(wins: number, games: number): WinRateInterval {
+  if (games === 0) return { low: 0, high: 1 };
+  const p = wins / games;
+  const z2 = Z_95 * Z_95;
+  const denom = 1 + z2 / games;
+  const center = (p + z2 / (2 * games)) / denom;
+  const half = (Z_95 * Math.sqrt((p * (1 - p)) / games + z2 / (4 * games * games))) / denom;
+  return { low: Math.max(0, center - half), high: Math.min(1, center + half) };
+}
+
+/** Difference between two win rates and its 95% confidence interval */
+export interface WinRateDifference {
+  /** a's win rate minus b's (−1 to 1) */
+  delta: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * How much better `a` does than `b`, e.g. games a card was played against
+ * games it sat in hand. Null when either side has no games.
+ */
+export function winRateDifference(a: WinTally, b: WinTally): WinRateDifference | null {
+  if (a.games === 0 || b.games === 0) return null;
+  const delta = a.wins / a.games - b.wins / b.games;
+  const pa = (a.wins + 1) / (a.games + 2);
+  const pb = (b.wins + 1) / (b.games + 2);
+  const se = Math.sqrt((pa * (1 - pa)) / (a.games + 2) + (pb * (1 - pb)) / (b.games + 2));
+  const mid = pa - pb;
+  return {
+    delta,
+    low: Math.max(-1, mid - Z_95 * se),
+    high: Math.min(1, mid + Z_95 * se),
+  };
+}
@@ -0,0 +1,106 @@
+import './helpers/quiet';
+import 'fake-indexeddb/auto';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deleteDB, openDB } from 'idb';
+import { SCENARIOS } from './fixtures/scenarios';
+import { recordScenario } from './helpers/record';
+import { seenCards } from '../src/shared/deckMatch';
+import { deleteDeck, deleteGame, exportAll, getCardStats, getDecks, getGameDetail, getRecentGames, importGames, rebuildMatches, saveDeckVersion, saveGameRecord } from '../src/background/db';
+import type { GameRecord } from '../src/shared/types';
+
+describe('upgrade', () => {
+  test('a snapshot repack that fails aborts the upgrade instead of opening half-migrated', async () => {
+    // A v6 database with a snapshot row the repack can't read
+    const old = await openDB('kb-tracker', 6, {
+      upgrade(db) {
+        db.createObjectStore('game_snapshots', { keyPath: 'gameId' });
+      },
+    });
+    await old.put('game_snapshots', { gameId: 'broken', snapshots: [null] });
+    old.close();
+
+    await assert.rejects(getRecentGames(10));
+    const after = await openDB('kb-tracker');
+    assert.equal(after.version, 6);
+    after.close();
+    await deleteDB('kb-tracker');
+  });
+});
+
+describe('export and import', () => {
+  test('a backup brings back the deck library and game-to-deck links', async () => {
+    const record = recordScenario(SCENARIOS.find((s) => s.name === 'premier-win')!)!;
+    await saveGameRecord(record);
+    const cards = seenCards(record.cardEvents, record.players[0], record.openingHand)
+      .map((c) => ({ name: record.cardEvents.find((e) => e.cardId === c.id)?.cardName ?? c.id, count: 3 }));
+    const deck = await saveDeckVersion({ name: 'Alice', leader: null, base: null, cards, sideboard: [] }, 'Alice');
+    assert.equal((await getRecentGames(10))[0].deck?.deckId, deck.deckId);
+
+    const backup = JSON.parse(await exportAll());
+    await deleteGame(record.gameId);
+    await deleteDeck(deck.deckId);
+
+    const result = await importGames(backup.games, backup.events, backup.rawLogs, backup.snapshots, backup.replays, backup.decks);
+    assert.deepStrictEqual(result, { imported: 1, skipped: 0, decksImported: 1 });
+    assert.deepStrictEqual((await getDecks()).map((d) => d.deckId), [deck.deckId]);
+    assert.deepStrictEqual((await getRecentGames(10))[0].deck, { deckId: deck.deckId, version: 1, score: 1 });
+
+    // A second restore adds nothing and keeps the library as it is
+    const again = await importGames(backup.games, backup.events, backup.rawLogs, backup.snapshots, backup.replays, backup.decks);
+    assert.deepStrictEqual(again, { imported: 0, skipped: 1, decksImported: 0 });
+    assert.equal((await getDecks()).length, 1);
+  });
+});
+
+describe('match grouping', () => {
+  /** A copy of `record` played `minutes` after it, a day later than any other test game */
+  function later(record: GameRecord, gameId: string, minutes: number, extra: Partial<GameRecord> = {}): GameRecord {
+    const shift = (iso: string) => new Date(new Date(iso).getTime() + (24 * 60 + minutes) * 60 * 1000).toISOString();
+    return { ...record, gameId, startedAt: shift(record.startedAt), completedAt: shift(record.completedAt), ...extra };
+  }
+
+  test('an incomplete game joins no match and the next game is game 1', async () => {
+    const record = recordScenario(SCENARIOS.find((s) => s.name === 'premier-win')!)!;
+    await saveGameRecord(later(record, 'abandoned', 0, { incomplete: true }));
+    await saveGameRecord(later(record, 'replayed', 5));
+
+    const check = async () => {
+      const games = await getRecentGames(10);
+      const abandoned = games.find((g) => g.gameId === 'abandoned')!;
+      const replayed = games.find((g) => g.gameId === 'replayed')!;
+      assert.equal(abandoned.matchId, undefined);
+      assert.equal(replayed.matchId, 'match-replayed');
+      assert.equal(replayed.matchGameNumber, 1);
+    };
+    await check();
+    await rebuildMatches();
+    await check();
+  });
+});
+
+describe('card stats', () => {
+  test('a deck filter with no format filter counts the deck\'s games', async () => {
+    const record = recordScenario(SCENARIOS.find((s) => s.name === 'premier-win')!)!;
+    await saveGameRecord({ ...record, gameId: 'deck-stats' });
+    const cards = seenCards(record.cardEvents, record.players[0], record.openingHand)
+      .map((c) => ({ name: record.cardEvents.find((e) => e.cardId === c.id)?.cardName ?? c.id, count: 3 }));
+    await saveDeckVersion({ name: 'Stats', leader: null, base: null, cards, sideboard: [] }, 'Stats');
+
+    const deck = (await getRecentGames(50)).find((g) => g.gameId === 'deck-stats')!.deck!;
+    const stats = await getCardStats('', undefined, undefined, undefined, { deckFilter: { deckId: deck.deckId, version: deck.version } });
+    assert.ok(stats.length > 0);
+    assert.ok(stats.some((s) => s.gamesPlayedIn > 0));
+  });
+});
+
+describe('saving a game again', () => {
+  test('replaces its card events instead of adding them twice', async () => {
+    const record = recordScenario(SCENARIOS.find((s) => s.name === 'premier-win')!)!;
+    const game = { ...record, gameId: 'saved-twice', cardEvents: record.cardEvents.map((e) => ({ ...e, gameId: 'saved-twice' })) };
+    // Swept as abandoned first, then finished by the tab that was still open
+    await saveGameRecord({ ...game, incomplete: true });
+    await saveGameRecord(game);
+    assert.equal((await getGameDetail('saved-twice'))!.cardEvents.length, record.cardEvents.length);
+  });
+});
@@ -0,0 +1,172 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cardKey, isSameCard, parseDeckList } from '../src/shared/deckList';
+import { diffDeckVersions } from '../src/shared/deckDiff';
+import { matchDeck, matchesDeckFilter, seenCards } from '../src/shared/deckMatch';
+import type { CardEvent, Deck, DeckVersion, GamePlayer } from '../src/shared/types';
+
+const player: GamePlayer = {
+  id: 'p1',
+  name: 'Alice',
+  leaderId: 'han-solo#worth-the-risk',
+  leaderName: 'Han Solo',
+  leaderSetId: { set: 'jtl', number: 11 },
+  baseId: 'jedha-city',
+  baseName: 'Jedha City',
+  deckSize: 50,
+};
+
+function version(n: number, importedAt: string, names: string[], leader?: string): DeckVersion {
+  return {
+    version: n,
+    importedAt,
+    leader: leader ? { name: leader, count: 1 } : null,
+    base: null,
+    cards: names.map((name) => ({ name, count: 3 })),
+    sideboard: [],
+  };
+}
+
+function seen(...ids: string[]) {
+  return ids.map((id) => ({ id }));
+}
+
+describe('parseDeckList', () => {
+  test('reads SWUDB JSON', () => {
+    const list = parseDeckList(JSON.stringify({
+      metadata: { name: 'Han Aggro' },
+      leader: { id: 'JTL_011', count: 1 },
+      base: { id: 'sor_022', count: 1 },
+      deck: [{ id: 'SOR_095', count: 3 }],
+      sideboard: [{ id: 'SHD_120', count: 1 }],
+    }));
+    assert.equal(list.name, 'Han Aggro');
+    assert.deepStrictEqual(list.leader, { setCode: 'JTL_011', count: 1 });
+    assert.deepStrictEqual(list.base, { setCode: 'SOR_022', count: 1 });
+    assert.deepStrictEqual(list.cards, [{ setCode: 'SOR_095', count: 3 }]);
+    assert.deepStrictEqual(list.sideboard, [{ setCode: 'SHD_120', count: 1 }]);
+  });
+
+  test('reads plain text with headings and count styles', () => {
+    const list = parseDeckList([
+      'Leader',
+      '1 Han Solo | Worth the Risk',
+      'Base:',
+      '1 Jedha City',
+      'Deck (6)',
+      '3 Battlefield Marine',
+      '2x Millennium Falcon, Piece of Junk',
+      '1 | Bounty Hunter Crew',
+      'Sideboard',
+      '1 Waylay',
+    ].join('\n'));
+    assert.deepStrictEqual(list.leader, { name: 'Han Solo | Worth the Risk', count: 1 });
+    assert.deepStrictEqual(list.base, { name: 'Jedha City', count: 1 });
+    assert.deepStrictEqual(list.cards, [
+      { name: 'Battlefield Marine', count: 3 },
+      { name: 'Millennium Falcon, Piece of Junk', count: 2 },
+      { name: 'Bounty Hunter Crew', count: 1 },
+    ]);
+    assert.deepStrictEqual(list.sideboard, [{ name: 'Waylay', count: 1 }]);
+  });
+
+  test('rejects unreadable input', () => {
+    assert.throws(() => parseDeckList('{ not json'), /Not valid JSON/);
+    assert.throws(() => parseDeckList('Battlefield Marine'), /Can't read/);
+    assert.throws(() => parseDeckList('Leader\n1 Han Solo'), /No main-deck cards/);
+  });
+});
+
+describe('isSameCard', () => {
+  test('names become Karabast IDs', () => {
+    assert.equal(cardKey('Han Solo | Worth the Risk'), 'han-solo#worth-the-risk');
+    assert.equal(cardKey("Vader's Lightsaber"), 'vaders-lightsaber');
+  });
+
+  test('set codes win over names, and a bare title matches any subtitle', () => {
+    const card = { id: 'millennium-falcon#piece-of-junk', setId: { set: 'sor', number: 193 } };
+    assert.equal(isSameCard({ setCode: 'SOR_193', count: 1 }, card), true);
+    assert.equal(isSameCard({ setCode: 'SOR_194', count: 1 }, card), false);
+    assert.equal(isSameCard({ name: 'Millennium Falcon', count: 1 }, card), true);
+    assert.equal(isSameCard({ name: 'Millennium Falcon | Landos Pride', count: 1 }, card), false);
+  });
+});
+
+describe('matchDeck', () => {
+  const marines = ['Battlefield Marine', 'Bounty Hunter Crew', 'Waylay', 'Millennium Falcon'];
+  const cards = seen('battlefield-marine', 'bounty-hunter-crew', 'waylay', 'millennium-falcon#piece-of-junk');
+
+  test('leaves out the leader and base and ignores non-deck metrics', () => {
+    const ev = (cardId: string, metric: CardEvent['metric']): CardEvent =>
+      ({ gameId: 'g', roundNumber: 1, playerId: 'p1', playerName: 'Alice', cardId, cardName: cardId, metric, count: 1 });
+    const ids = seenCards(
+      [ev('han-solo#worth-the-risk', 'played'), ev('jedha-city', 'played'), ev('battlefield-marine', 'played'), ev('waylay', 'drawn'), ev('x-wing', 'attacked')],
+      player
+    ).map((c) => c.id);
+    assert.deepStrictEqual(ids, ['battlefield-marine', 'waylay']);
+  });
+
+  test('picks the best-scoring deck with a matching leader', () => {
+    const decks: Deck[] = [
+      { deckId: 'a', name: 'Han', versions: [version(1, '2026-01-01T00:00:00Z', marines, 'Han Solo')] },
+      { deckId: 'b', name: 'Other leader', versions: [version(1, '2026-01-01T00:00:00Z', marines, 'Sabine Wren')] },
+    ];
+    assert.deepStrictEqual(matchDeck(decks, player, cards, '2026-02-01T00:00:00Z'), { deckId: 'a', version: 1, score: 1 });
+  });
+
+  test('needs enough seen cards and a high enough score', () => {
+    const decks: Deck[] = [{ deckId: 'a', name: 'Han', versions: [version(1, '2026-01-01T00:00:00Z', marines.slice(0, 3))] }];
+    assert.equal(matchDeck(decks, player, cards.slice(0, 2), '2026-02-01T00:00:00Z'), null);
+    assert.equal(matchDeck(decks, player, [...cards, ...seen('waylay-2')], '2026-02-01T00:00:00Z'), null);
+  });
+
+  test('ties go to the newest version imported before the game', () => {
+    const deck: Deck = {
+      deckId: 'a',
+      name: 'Han',
+      versions: [
+        version(1, '2026-01-01T00:00:00Z', marines),
+        version(2, '2026-02-01T00:00:00Z', marines),
+        version(3, '2026-03-01T00:00:00Z', marines),
+      ],
+    };
+    assert.equal(matchDeck([deck], player, cards, '2026-02-15T00:00:00Z')?.version, 2);
+    assert.equal(matchDeck([deck], player, cards, '2025-12-01T00:00:00Z')?.version, 1);
+  });
+
+  test('deck filters', () => {
+    const game = { deck: { deckId: 'a', version: 2, score: 1 } };
+    assert.equal(matchesDeckFilter(game), true);
+    assert.equal(matchesDeckFilter(game, { deckId: 'a' }), true);
+    assert.equal(matchesDeckFilter(game, { deckId: 'a', version: 1 }), false);
+    assert.equal(matchesDeckFilter({}, { deckId: 'a' }), false);
+  });
+});
+
+describe('diffDeckVersions', () => {
+  test('lists additions first, then cuts, and skips unchanged lines', () => {
+    const prev = version(1, '2026-01-01T00:00:00Z', ['Battlefield Marine', 'Waylay'], 'Han Solo');
+    const next: DeckVersion = {
+      ...version(2, '2026-02-01T00:00:00Z', ['Battlefield Marine'], 'Han Solo'),
+      cards: [{ name: 'Battlefield Marine', count: 3 }, { name: 'Waylay', count: 1 }, { name: 'Bounty Hunter Crew', count: 2 }],
+      sideboard: [{ name: 'Waylay', count: 2 }],
+    };
+    const diff = diffDeckVersions(prev, next);
+    assert.equal(diff.leaderChanged, false);
+    assert.equal(diff.baseChanged, false);
+    assert.deepStrictEqual(diff.cards.map((c) => [c.line.name, c.before, c.after]), [
+      ['Bounty Hunter Crew', 0, 2],
+      ['Waylay', 3, 1],
+    ]);
+    assert.deepStrictEqual(diff.sideboard.map((c) => [c.line.name, c.before, c.after]), [['Waylay', 0, 2]]);
+  });
+
+  test('compares set codes and name keys, and notices a new leader', () => {
+    const prev: DeckVersion = { ...version(1, '2026-01-01T00:00:00Z', []), leader: { setCode: 'JTL_011', count: 1 }, cards: [{ setCode: 'SOR_095', count: 3 }] };
+    const next: DeckVersion = { ...version(2, '2026-02-01T00:00:00Z', []), leader: { setCode: 'SOR_010', count: 1 }, cards: [{ setCode: 'SOR_095', count: 3 }, { name: "Vader's Lightsaber", count: 1 }] };
+    const diff = diffDeckVersions(prev, next);
+    assert.equal(diff.leaderChanged, true);
+    assert.deepStrictEqual(diff.cards.map((c) => [c.line.name ?? c.line.setCode, c.before, c.after]), [["Vader's Lightsaber", 0, 1]]);
+  });
+});
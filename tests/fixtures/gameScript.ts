@@ -0,0 +1,295 @@
+/**
+ * gameScript.ts
+ *
+ * Builds sequences of IGameState updates the way the Karabast server sends
+ * them: every emit() is one full "gamestate" frame, and newMessages only
+ * carries the log entries added since the previous frame.
+ *
+ * Player piles are mutated in place between emits; each emitted state is a
+ * deep copy so earlier frames never change under the recorder.
+ */
+
+import type {
+  CardPiles,
+  CardSummary,
+  ChatMessagePart,
+  IChatObject,
+  IGameState,
+  PhaseName,
+  PlayerStateSummary,
+  SwuGameFormat,
+} from '../../src/shared/types';
+
+export type Pile = Exclude<keyof CardPiles, 'credits'>;
+
+export interface ScriptPlayer {
+  id: string;
+  name: string;
+  leader: CardSummary;
+  base: CardSummary;
+  deckSize: number;
+}
+
+export interface ScriptOptions {
+  gameId: string;
+  /** Value of state.playerUpdate — the ID of the player whose client we are */
+  playerUpdate: string;
+  players: [ScriptPlayer, ScriptPlayer];
+  gameMode?: SwuGameFormat;
+  /** ISO time of the first log entry; later entries advance by one second */
+  logStart?: string;
+}
+
+/** Shorthand for a CardSummary; the display name is derived from the card ID. */
+export function card(
+  uuid: string,
+  id: string,
+  extra: Partial<CardSummary> = {}
+): CardSummary {
+  const name = id.split('#')[0].split('-').map((w) => w[0].toUpperCase() + w.slice(1)).join(' ');
+  return { uuid, id, name, ...extra };
+}
+
+export function playerRef(p: ScriptPlayer): IChatObject {
+  return { type: 'player', id: p.id, name: p.name, label: p.name, uuid: p.id };
+}
+
+export function cardRef(c: CardSummary, controller?: ScriptPlayer): IChatObject {
+  return {
+    type: 'card',
+    id: c.id,
+    name: c.name ?? c.id,
+    label: c.name ?? c.id,
+    uuid: c.uuid,
+    setId: c.setId,
+    controllerId: controller?.id,
+  };
+}
+
+function emptyPiles(): CardPiles {
+  return {
+    hand: [],
+    resources: [],
+    groundArena: [],
+    spaceArena: [],
+    discard: [],
+    outsideTheGame: [],
+    capturedZone: [],
+    credits: [],
+  };
+}
+
+export class GameScript {
+  public readonly states: IGameState[] = [];
+  private state: IGameState;
+  private logClock: number;
+
+  constructor(opts: ScriptOptions) {
+    this.logClock = new Date(opts.logStart ?? '2026-01-01T18:00:00.000Z').getTime();
+    const players: Record<string, PlayerStateSummary> = {};
+    for (const p of opts.players) {
+      players[p.id] = {
+        id: p.id,
+        name: p.name,
+        cardPiles: emptyPiles(),
+        leader: { ...p.leader },
+        base: { ...p.base, damage: 0 },
+        numCardsInDeck: p.deckSize,
+        availableResources: 0,
+        hasInitiative: false,
+        aspects: [],
+        phase: 'setup',
+        disconnected: false,
+        left: false,
+      };
+    }
+    this.state = {
+      id: opts.gameId,
+      playerUpdate: opts.playerUpdate,
+      manualMode: false,
+      owner: opts.players[0].id,
+      players,
+      phase: 'setup',
+      newMessages: [],
+      messageOffset: 0,
+      totalMessages: 0,
+      initiativeClaimed: false,
+      started: true,
+      gameMode: opts.gameMode ?? 'premier',
+      winners: [],
+      undoEnabled: false,
+    };
+  }
+
+  private player(playerId: string): PlayerStateSummary {
+    const p = this.state.players[playerId];
+    if (!p) throw new Error(`unknown player ${playerId}`);
+    return p;
+  }
+
+  private take(playerId: string, pile: Pile, uuid: string): CardSummary {
+    const cards = this.player(playerId).cardPiles[pile];
+    const idx = cards.findIndex((c) => c.uuid === uuid);
+    if (idx < 0) throw new Error(`${uuid} is not in ${playerId}'s ${pile}`);
+    return cards.splice(idx, 1)[0];
+  }
+
+  /**
+   * Replaces a unit in play with an edited copy — scripts share CardSummary
+   * objects between tests, so they are never changed in place.
+   */
+  private editUnit(uuid: string, edit: (unit: CardSummary) => CardSummary): void {
+    for (const p of Object.values(this.state.players)) {
+      for (const pile of [p.cardPiles.groundArena, p.cardPiles.spaceArena]) {
+        const idx = pile.findIndex((c) => c.uuid === uuid);
+        if (idx >= 0) {
+          pile[idx] = edit(pile[idx]);
+          return;
+        }
+      }
+    }
+    throw new Error(`${uuid} is not in play`);
+  }
+
+  /** Sends the current state as one update and starts a fresh message batch. */
+  public emit(): this {
+    this.states.push(structuredClone(this.state));
+    this.state.messageOffset = this.state.totalMessages;
+    this.state.newMessages = [];
+    return this;
+  }
+
+  /** Entering the action phase starts a round with initiative unclaimed. */
+  public phase(phase: PhaseName): this {
+    this.state.phase = phase;
+    if (phase === 'action') this.state.initiativeClaimed = false;
+    for (const p of Object.values(this.state.players)) p.phase = phase;
+    return this;
+  }
+
+  /** Draws known cards into a hand (the local player's view of their own hand). */
+  public draw(playerId: string, ...cards: CardSummary[]): this {
+    const p = this.player(playerId);
+    p.numCardsInDeck -= cards.length;
+    p.cardPiles.hand.push(...cards);
+    return this;
+  }
+
+  /** Draws cards the viewer can't see — they show up face-down. */
+  public drawHidden(playerId: string, ...uuids: string[]): this {
+    const p = this.player(playerId);
+    p.numCardsInDeck -= uuids.length;
+    p.cardPiles.hand.push(...uuids.map((uuid) => ({ uuid, id: '', facedown: true })));
+    return this;
+  }
+
+  /** Shuffles the whole hand back into the deck and draws a new one. */
+  public mulligan(playerId: string, ...cards: CardSummary[]): this {
+    const p = this.player(playerId);
+    p.numCardsInDeck += p.cardPiles.hand.length;
+    p.cardPiles.hand = [];
+    return this.draw(playerId, ...cards);
+  }
+
+  /** Moves a card between two piles, optionally revealing what it is. */
+  public move(playerId: string, uuid: string, from: Pile, to: Pile, reveal?: CardSummary): this {
+    const c = this.take(playerId, from, uuid);
+    this.player(playerId).cardPiles[to].push(reveal ? { ...reveal, uuid } : c);
+    return this;
+  }
+
+  /** Puts a card straight into a pile (tokens, units entering from outside the hand). */
+  public put(playerId: string, pile: Pile, c: CardSummary): this {
+    this.player(playerId).cardPiles[pile].push(c);
+    return this;
+  }
+
+  /** Attaches a card from one of a player's piles to a unit in play, optionally revealing it. */
+  public attach(playerId: string, uuid: string, from: Pile, unitUuid: string, reveal?: CardSummary): this {
+    const c = this.take(playerId, from, uuid);
+    return this.upgrade(unitUuid, reveal ? { ...reveal, uuid } : c);
+  }
+
+  /** Puts an upgrade that comes from outside the piles (a Shield or Experience token) on a unit. */
+  public upgrade(unitUuid: string, c: CardSummary): this {
+    this.editUnit(unitUuid, (unit) => ({ ...unit, upgrades: [...(unit.upgrades ?? []), c] }));
+    return this;
+  }
+
+  /** Moves a unit out of a player's arena to be held captive by another unit. */
+  public capture(playerId: string, uuid: string, from: 'groundArena' | 'spaceArena', captorUuid: string): this {
+    const c = this.take(playerId, from, uuid);
+    this.editUnit(captorUuid, (captor) => ({ ...captor, capturedUnits: [...(captor.capturedUnits ?? []), c] }));
+    return this;
+  }
+
+  /** Returns a captive to its owner's arena. */
+  public rescue(playerId: string, uuid: string, to: 'groundArena' | 'spaceArena'): this {
+    for (const p of Object.values(this.state.players)) {
+      for (const unit of [...p.cardPiles.groundArena, ...p.cardPiles.spaceArena]) {
+        const c = unit.capturedUnits?.find((u) => u.uuid === uuid);
+        if (!c) continue;
+        this.editUnit(unit.uuid, (captor) => ({ ...captor, capturedUnits: captor.capturedUnits!.filter((u) => u !== c) }));
+        this.player(playerId).cardPiles[to].push(c);
+        return this;
+      }
+    }
+    throw new Error(`${uuid} is not held captive`);
+  }
+
+  public credit(playerId: string, c: CardSummary): this {
+    this.player(playerId).cardPiles.credits = [...(this.player(playerId).cardPiles.credits ?? []), c];
+    return this;
+  }
+
+  public resources(playerId: string, available: number): this {
+    this.player(playerId).availableResources = available;
+    return this;
+  }
+
+  public damageBase(playerId: string, amount: number): this {
+    const base = this.player(playerId).base;
+    base.damage = (base.damage ?? 0) + amount;
+    return this;
+  }
+
+  /** Hands the initiative token to a player without claiming it. */
+  public initiative(playerId: string): this {
+    for (const p of Object.values(this.state.players)) p.hasInitiative = p.id === playerId;
+    return this;
+  }
+
+  /** A player takes the initiative action for this round. */
+  public claimInitiative(playerId: string): this {
+    this.initiative(playerId);
+    this.state.initiativeClaimed = true;
+    return this;
+  }
+
+  public log(...parts: ChatMessagePart[]): this {
+    this.state.newMessages.push({
+      date: new Date(this.logClock).toISOString(),
+      message: { alert: { type: 'notification', message: parts } },
+    });
+    this.logClock += 1000;
+    this.state.totalMessages++;
+    return this;
+  }
+
+  public disconnect(playerId: string): this {
+    this.player(playerId).disconnected = true;
+    return this;
+  }
+
+  public leave(playerId: string): this {
+    const p = this.player(playerId);
+    p.left = true;
+    p.disconnected = true;
+    return this;
+  }
+
+  public win(...names: string[]): this {
+    this.state.winners = names;
+    return this;
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * scenarios.ts
+ *
+ * Scripted games used by the golden-file tests. Each scenario is the full
+ * sequence of gamestate updates one client receives; the recorded GameRecord
+ * for each lives in tests/golden/<name>.json.
+ */
+
+import type { IGameState } from '../../src/shared/types';
+import { GameScript, card, cardRef, playerRef, type ScriptPlayer } from './gameScript';
+
+export interface Scenario {
+  name: string;
+  states: IGameState[];
+  /** Close the game with finalizeIncomplete() if the states never produce a winner */
+  finalizeIncomplete?: boolean;
+}
+
+const ALICE: ScriptPlayer = {
+  id: 'p-alice',
+  name: 'Alice',
+  leader: card('alice-leader', 'luke-skywalker#faithful-friend', { type: 'leader', setId: { set: 'SOR', number: 5 } }),
+  base: card('alice-base', 'echo-base', { type: 'base', hp: 30, aspects: ['command'], setId: { set: 'SOR', number: 25 } }),
+  deckSize: 50,
+};
+
+const BOB: ScriptPlayer = {
+  id: 'p-bob',
+  name: 'Bob',
+  leader: card('bob-leader', 'darth-vader#dark-lord-of-the-sith', { type: 'leader', setId: { set: 'SOR', number: 10 } }),
+  base: card('bob-base', 'administrators-tower', { type: 'base', hp: 30, aspects: ['cunning'], setId: { set: 'SOR', number: 29 } }),
+  deckSize: 50,
+};
+
+const unit = (uuid: string, id: string): ReturnType<typeof card> => card(uuid, id, { type: 'basicUnit' });
+const event = (uuid: string, id: string): ReturnType<typeof card> => card(uuid, id, { type: 'event' });
+
+/** Opening hands and the two setup-phase resources for both players. */
+function setup(s: GameScript, alice: ScriptPlayer, bob: ScriptPlayer): GameScript {
+  return s
+    .emit()
+    .draw(alice.id,
+      unit('a1', 'battlefield-marine'),
+      event('a2', 'vanquish'),
+      unit('a3', 'alliance-xwing'),
+      unit('a4', 'wing-leader'),
+      unit('a5', 'rebel-pathfinder'),
+      event('a6', 'repair'))
+    .drawHidden(bob.id, 'b1', 'b2', 'b3', 'b4', 'b5', 'b6')
+    .emit()
+    .move(alice.id, 'a5', 'hand', 'resources')
+    .move(alice.id, 'a6', 'hand', 'resources')
+    .move(bob.id, 'b5', 'hand', 'resources')
+    .move(bob.id, 'b6', 'hand', 'resources')
+    .emit();
+}
+
+/**
+ * Two full rounds: unit, event and space plays for both players, a defeat,
+ * a leader activation, an initiative claim, regroup draws and resourcing,
+ * and a base kill.
+ */
+function premierWin(): Scenario {
+  const s = new GameScript({ gameId: 'game-premier-win', playerUpdate: ALICE.id, players: [ALICE, BOB] });
+  setup(s, ALICE, BOB)
+    // Round 1
+    .phase('action').initiative(ALICE.id).resources(ALICE.id, 2).resources(BOB.id, 2)
+    .emit()
+    .move(ALICE.id, 'a1', 'hand', 'groundArena')
+    .log(playerRef(ALICE), 'plays', cardRef(unit('a1', 'battlefield-marine')))
+    .emit()
+    .move(BOB.id, 'b1', 'hand', 'spaceArena', unit('b1', 'tie-fighter'))
+    .emit()
+    .move(ALICE.id, 'a2', 'hand', 'discard')
+    .move(BOB.id, 'b1', 'spaceArena', 'discard')
+    .emit()
+    .log(playerRef(ALICE), 'uses', cardRef(ALICE.leader, ALICE))
+    .damageBase(BOB.id, 3)
+    .emit()
+    .move(BOB.id, 'b2', 'hand', 'discard', event('b2', 'force-choke'))
+    .move(ALICE.id, 'a1', 'groundArena', 'discard')
+    .claimInitiative(BOB.id)
+    .emit()
+    // Regroup
+    .phase('regroup')
+    .draw(ALICE.id, unit('a7', 'green-squadron-awing'), event('a8', 'takedown'))
+    .drawHidden(BOB.id, 'b7', 'b8')
+    .move(ALICE.id, 'a3', 'hand', 'resources')
+    .move(BOB.id, 'b3', 'hand', 'resources')
+    .emit()
+    // Round 2
+    .phase('action').initiative(BOB.id).resources(ALICE.id, 3).resources(BOB.id, 3)
+    .emit()
+    .move(BOB.id, 'b4', 'hand', 'groundArena', unit('b4', 'fifth-brother'))
+    .damageBase(ALICE.id, 5)
+    .emit()
+    .move(ALICE.id, 'a4', 'hand', 'spaceArena')
+    .damageBase(BOB.id, 27)
+    .win(ALICE.name)
+    .emit();
+  return { name: 'premier-win', states: s.states };
+}
+
+/**
+ * Both leaders deploy in round 2: Bob on the first action of the round,
+ * Alice after a play and an attack. The deploy flag and the arena unit each
+ * count as deployed.
+ */
+function leaderDeploys(): Scenario {
+  const s = new GameScript({ gameId: 'game-leader-deploys', playerUpdate: ALICE.id, players: [ALICE, BOB] });
+  setup(s, ALICE, BOB)
+    .phase('action').initiative(ALICE.id).resources(ALICE.id, 2).resources(BOB.id, 2)
+    .emit()
+    .move(ALICE.id, 'a1', 'hand', 'groundArena')
+    .emit()
+    .phase('regroup')
+    .emit()
+    .phase('action').initiative(BOB.id).resources(ALICE.id, 5).resources(BOB.id, 5)
+    .emit()
+    .put(BOB.id, 'groundArena', { ...BOB.leader, deployed: true })
+    .log(playerRef(BOB), 'deploys', cardRef(BOB.leader, BOB))
+    .emit()
+    .move(ALICE.id, 'a3', 'hand', 'spaceArena')
+    .emit()
+    .log(playerRef(ALICE), 'attacks', playerRef(BOB), "'s", cardRef(BOB.leader), 'with', cardRef(unit('a1', 'battlefield-marine')))
+    .emit()
+    .put(ALICE.id, 'groundArena', { ...ALICE.leader, deployed: true })
+    .emit()
+    .damageBase(BOB.id, 30)
+    .win(ALICE.name)
+    .emit();
+  return { name: 'leader-deploys', states: s.states };
+}
+
+/**
+ * Alice mulligans her first hand — the redraw happens to bring the same
+ * Battlefield Marine back — and then wins in round 1.
+ */
+function mulligan(): Scenario {
+  const s = new GameScript({ gameId: 'game-mulligan', playerUpdate: ALICE.id, players: [ALICE, BOB] });
+  s.emit()
+    .draw(ALICE.id,
+      unit('a1', 'battlefield-marine'),
+      event('a2', 'vanquish'),
+      unit('a3', 'alliance-xwing'),
+      unit('a4', 'wing-leader'),
+      unit('a5', 'rebel-pathfinder'),
+      event('a6', 'repair'))
+    .drawHidden(BOB.id, 'b1', 'b2', 'b3', 'b4', 'b5', 'b6')
+    .emit()
+    .mulligan(ALICE.id,
+      unit('a1', 'battlefield-marine'),
+      unit('a7', 'green-squadron-awing'),
+      event('a8', 'takedown'),
+      unit('a9', 'consular-security-force'),
+      unit('a10', 'rebel-pathfinder'),
+      event('a11', 'repair'))
+    .emit()
+    .move(ALICE.id, 'a10', 'hand', 'resources')
+    .move(ALICE.id, 'a11', 'hand', 'resources')
+    .move(BOB.id, 'b5', 'hand', 'resources')
+    .move(BOB.id, 'b6', 'hand', 'resources')
+    .emit()
+    .phase('action').initiative(ALICE.id).resources(ALICE.id, 2).resources(BOB.id, 2)
+    .emit()
+    .move(ALICE.id, 'a1', 'hand', 'groundArena')
+    .log(playerRef(ALICE), 'plays', cardRef(unit('a1', 'battlefield-marine')))
+    .emit()
+    .damageBase(BOB.id, 30)
+    .win(ALICE.name)
+    .emit();
+  return { name: 'mulligan', states: s.states };
+}
+
+/** Both bases fall on the same attack — two winners means a draw. */
+function drawGame(): Scenario {
+  const s = new GameScript({ gameId: 'game-draw', playerUpdate: ALICE.id, players: [ALICE, BOB] });
+  setup(s, ALICE, BOB)
+    .phase('action').initiative(ALICE.id)
+    .emit()
+    .damageBase(ALICE.id, 30)
+    .damageBase(BOB.id, 30)
+    .win(ALICE.name, BOB.name)
+    .emit();
+  return { name: 'draw', states: s.states };
+}
+
+/** The opponent concedes in round 1 and leaves the lobby. */
+function concession(): Scenario {
+  const s = new GameScript({ gameId: 'game-concession', playerUpdate: ALICE.id, players: [ALICE, BOB] });
+  setup(s, ALICE, BOB)
+    .phase('action').initiative(ALICE.id)
+    .emit()
+    .move(ALICE.id, 'a1', 'hand', 'groundArena')
+    .emit()
+    .log(playerRef(BOB), 'has conceded')
+    .leave(BOB.id)
+    .win(ALICE.name)
+    .emit();
+  return { name: 'concession', states: s.states };
+}
+
+/** The opponent leaves the lobby mid-game and the server never declares a winner. */
+function opponentLeft(): Scenario {
+  const s = new GameScript({ gameId: 'game-opponent-left', playerUpdate: ALICE.id, players: [ALICE, BOB] });
+  setup(s, ALICE, BOB)
+    .phase('action').initiative(BOB.id)
+    .emit()
+    .move(BOB.id, 'b1', 'hand', 'groundArena', unit('b1', 'death-trooper'))
+    .emit()
+    .leave(BOB.id)
+    .emit();
+  return { name: 'opponent-left', states: s.states };
+}
+
+/** The opponent drops and the game is abandoned before they reconnect. */
+function opponentTimeout(): Scenario {
+  const s = new GameScript({ gameId: 'game-opponent-timeout', playerUpdate: ALICE.id, players: [ALICE, BOB] });
+  setup(s, ALICE, BOB)
+    .phase('action').initiative(ALICE.id)
+    .emit()
+    .disconnect(BOB.id)
+    .emit();
+  return { name: 'opponent-timeout', states: s.states, finalizeIncomplete: true };
+}
+
+/** A third client watching the game — nothing may be recorded. */
+function spectating(): Scenario {
+  const s = new GameScript({ gameId: 'game-spectated', playerUpdate: 'p-carol', players: [ALICE, BOB] });
+  setup(s, ALICE, BOB)
+    .phase('action').initiative(BOB.id)
+    .emit()
+    .move(ALICE.id, 'a1', 'hand', 'groundArena')
+    .damageBase(BOB.id, 30)
+    .win(ALICE.name)
+    .emit();
+  return { name: 'spectating', states: s.states, finalizeIncomplete: true };
+}
+
+/**
+ * A 30-card limited game, seen from the second seat, abandoned mid-round.
+ * playerUpdate carries the display name rather than the player ID.
+ */
+function limitedAbandoned(): Scenario {
+  const alice = { ...ALICE, deckSize: 30 };
+  const bob = { ...BOB, deckSize: 30 };
+  const s = new GameScript({ gameId: 'game-limited-abandoned', playerUpdate: 'Alice', players: [bob, alice] });
+  setup(s, alice, bob)
+    .phase('action').initiative(bob.id)
+    .emit()
+    .move(bob.id, 'b1', 'hand', 'groundArena', unit('b1', 'death-trooper'))
+    .emit()
+    .move(alice.id, 'a3', 'hand', 'spaceArena')
+    .damageBase(bob.id, 2)
+    .emit();
+  return { name: 'limited-abandoned', states: s.states, finalizeIncomplete: true };
+}
+
+export const SCENARIOS: Scenario[] = [
+  premierWin(),
+  leaderDeploys(),
+  mulligan(),
+  drawGame(),
+  concession(),
+  opponentLeft(),
+  opponentTimeout(),
+  spectating(),
+  limitedAbandoned(),
+];
@@ -0,0 +1,113 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCENARIOS } from './fixtures/scenarios';
+import { card } from './fixtures/gameScript';
+import { recordScenario } from './helpers/record';
+import { applyFormatMode, detectFormat, emptySightings, formatOf, maxCopiesSeen, noteSightings, type FormatEvidence } from '../src/shared/formatDetector';
+import type { FormatDetection, IGameState } from '../src/shared/types';
+
+function evidence(e: Partial<FormatEvidence>): FormatEvidence {
+  return { gameMode: 'premier', playerCount: 2, deckSizes: [50, 50], maxCopies: 2, sets: ['SOR'], ...e };
+}
+
+describe('detectFormat', () => {
+  test('a Premier lobby with constructed decks is Premier', () => {
+    assert.deepStrictEqual(detectFormat(evidence({})), { format: 'premier', certain: true, reasons: ['Premier lobby'] });
+  });
+
+  test('small decks or too many copies are Limited, whatever the lobby', () => {
+    assert.deepStrictEqual(detectFormat(evidence({ deckSizes: [50, 30], gameMode: 'open' })).reasons, ['30-card deck']);
+    assert.equal(detectFormat(evidence({ deckSizes: [40, 40], maxCopies: 5, gameMode: 'nextSetPreview' })).format, 'limited');
+    assert.deepStrictEqual(detectFormat(evidence({ maxCopies: 4 })).reasons, ['4 copies of one card']);
+  });
+
+  test('big singleton decks or extra players are Twin Suns', () => {
+    assert.equal(detectFormat(evidence({ deckSizes: [80, 82], maxCopies: 1 })).format, 'twinSuns');
+    assert.equal(detectFormat(evidence({ deckSizes: [80, 82], maxCopies: 2 })).format, 'premier');
+    assert.equal(detectFormat(evidence({ playerCount: 4 })).format, 'twinSuns');
+  });
+
+  test('open lobbies are Eternal unless unreleased cards show up, and only then unsure', () => {
+    assert.deepStrictEqual(detectFormat(evidence({ gameMode: 'open' })), { format: 'eternal', certain: false, reasons: ['open lobby'] });
+    assert.deepStrictEqual(detectFormat(evidence({ gameMode: 'open', sets: ['SOR', 'XYZ'] })).reasons, ['unreleased cards (XYZ)']);
+    // Premier lobbies check legality on the server
+    assert.equal(detectFormat(evidence({ sets: ['XYZ'] })).format, 'premier');
+    assert.equal(detectFormat(evidence({ gameMode: 'nextSetPreview' })).format, 'nextSetPreview');
+  });
+});
+
+describe('noteSightings', () => {
+  test('counts copies by uuid in owned piles and collects set codes', () => {
+    const sor = { set: 'sor', number: 95 };
+    const state = {
+      players: {
+        p1: {
+          leader: card('l', 'han-solo#worth-the-risk', { setId: { set: 'JTL', number: 11 } }),
+          base: card('b', 'echo-base'),
+          cardPiles: {
+            hand: [card('a', 'battlefield-marine', { setId: sor }), card('b2', 'battlefield-marine', { setId: sor })],
+            resources: [card('c', 'battlefield-marine', { setId: sor })],
+            discard: [card('a', 'battlefield-marine', { setId: sor })],
+            groundArena: [card('d', 'battlefield-marine', { setId: sor }), card('t', 'clone-trooper', { type: 'tokenUnit' })],
+            spaceArena: [],
+          },
+        },
+      },
+    } as unknown as IGameState;
+    const s = emptySightings();
+    noteSightings(s, state);
+    noteSightings(s, state);
+    assert.equal(maxCopiesSeen(s), 3);
+    assert.deepStrictEqual(s.sets.sort(), ['JTL', 'SOR']);
+  });
+
+  test('skips players without piles and piles the server left out', () => {
+    const state = {
+      players: {
+        p1: { leader: card('l', 'han-solo#worth-the-risk'), base: card('b', 'echo-base') },
+        p2: { cardPiles: { hand: [card('a', 'battlefield-marine', { setId: { set: 'SOR', number: 95 } })] } },
+      },
+    } as unknown as IGameState;
+    const s = emptySightings();
+    assert.doesNotThrow(() => noteSightings(s, state));
+    assert.equal(maxCopiesSeen(s), 1);
+    assert.deepStrictEqual(s.sets, ['SOR']);
+  });
+});
+
+describe('format fallbacks', () => {
+  const unsure: FormatDetection = { format: 'eternal', certain: false, reasons: ['open lobby'] };
+
+  test('older games read the fields the popup override used to set', () => {
+    assert.equal(formatOf({ format: 'premier', isLimitedFormat: true }), 'limited');
+    assert.equal(formatOf({ format: 'open', isLimitedFormat: false }), 'eternal');
+    assert.equal(formatOf({ format: 'open', isLimitedFormat: false, formatDetection: { ...unsure, format: 'twinSuns' } }), 'twinSuns');
+  });
+
+  test('the popup format mode only replaces an unsure detection', () => {
+    const sure = { isLimitedFormat: false, formatDetection: { format: 'premier', certain: true, reasons: ['Premier lobby'] } as FormatDetection };
+    assert.equal(applyFormatMode(sure, 'limited'), sure);
+    assert.equal(applyFormatMode({ isLimitedFormat: false, formatDetection: unsure }, 'auto').formatDetection, unsure);
+    const picked = applyFormatMode({ isLimitedFormat: false, formatDetection: unsure }, 'limited');
+    assert.equal(picked.isLimitedFormat, true);
+    assert.equal(picked.formatDetection?.format, 'limited');
+    assert.equal(picked.formatDetection?.manual, true);
+  });
+});
+
+describe('GameRecorder format detection', () => {
+  test('30-card decks in a Premier lobby are Limited', () => {
+    const record = recordScenario(SCENARIOS.find((s) => s.name === 'limited-abandoned')!)!;
+    assert.equal(record.isLimitedFormat, true);
+    assert.equal(record.formatDetection?.format, 'limited');
+  });
+
+  test('an open lobby with released cards is an unsure Eternal game', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'premier-win')!;
+    const states = scenario.states.map((s) => ({ ...s, gameMode: 'open' as const }));
+    const record = recordScenario({ ...scenario, states })!;
+    assert.equal(record.format, 'open');
+    assert.deepStrictEqual(record.formatDetection, { format: 'eternal', certain: false, reasons: ['open lobby'] });
+  });
+});
@@ -0,0 +1,107 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCENARIOS } from './fixtures/scenarios';
+import { assertGolden } from './helpers/golden';
+import { frameTime, recordScenario, withoutReplay } from './helpers/record';
+import { CHECKPOINT_REPLAY_MAX_STATES, GameRecorder } from '../src/shared/gameRecorder';
+import { decodeSeries } from '../src/shared/stateDelta';
+import type { GameRecord } from '../src/shared/types';
+
+describe('GameRecorder golden records', () => {
+  for (const scenario of SCENARIOS) {
+    test(scenario.name, () => {
+      assertGolden(scenario.name, withoutReplay(recordScenario(scenario)));
+    });
+  }
+});
+
+describe('GameRecorder replay', () => {
+  test('decodes to every ingested state, with the log kept in rawLog', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'premier-win')!;
+    const record = recordScenario(scenario)!;
+    const replay = record.replay!;
+
+    const expected = scenario.states.map((s) => ({ ...s, newMessages: [] }));
+    assert.deepStrictEqual(decodeSeries(replay.states), expected);
+    assert.deepStrictEqual(replay.times, scenario.states.map((_, i) => frameTime(i)));
+
+    // Each state has seen exactly the log entries sent up to and including it
+    let seen = 0;
+    scenario.states.forEach((s, i) => {
+      seen += s.newMessages.length;
+      assert.equal(replay.logEnds[i], seen);
+    });
+    assert.equal(replay.logEnds[replay.logEnds.length - 1], record.rawLog.length);
+  });
+});
+
+describe('GameRecorder checkpoints', () => {
+  test('a game resumed from a mid-game checkpoint records the same result', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'premier-win')!;
+    const expected = recordScenario(scenario);
+
+    let now = frameTime(0);
+    const clock = (): Date => new Date(now);
+    const half = Math.floor(scenario.states.length / 2);
+    const first = new GameRecorder(scenario.states[0].id, () => {}, clock);
+    for (let i = 0; i < half; i++) {
+      now = frameTime(i);
+      first.ingest(scenario.states[i]);
+    }
+
+    // Round-trip through JSON, as the checkpoint does via the service worker
+    const cp = JSON.parse(JSON.stringify(first.toCheckpoint()));
+    let resumed: GameRecord | null = null;
+    const second = GameRecorder.fromCheckpoint(cp, (r) => { resumed = r; }, clock);
+    for (let i = half; i < scenario.states.length; i++) {
+      now = frameTime(i);
+      second.ingest(scenario.states[i]);
+    }
+
+    // The checkpoint drops undefined-valued properties, so compare as JSON
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(resumed)), JSON.parse(JSON.stringify(expected)));
+  });
+
+  test('a long game checkpoints without its replay and replays from the resume on', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'premier-win')!;
+    const half = Math.floor(scenario.states.length / 2);
+    const first = new GameRecorder(scenario.states[0].id, () => {});
+    for (let i = 0; i < half; i++) first.ingest(scenario.states[i]);
+    assert.ok(first.toCheckpoint().replay);
+    // The server resends the same board, as it does while a player thinks
+    for (let i = 0; i < CHECKPOINT_REPLAY_MAX_STATES; i++) first.ingest(scenario.states[half - 1]);
+
+    const cp = JSON.parse(JSON.stringify(first.toCheckpoint()));
+    assert.equal(cp.replay, undefined);
+    const records: GameRecord[] = [];
+    const second = GameRecorder.fromCheckpoint(cp, (r) => { records.push(r); });
+    for (let i = half; i < scenario.states.length; i++) second.ingest(scenario.states[i]);
+    assert.equal(records[0].winner, recordScenario(scenario)!.winner);
+    assert.equal(records[0].replay?.times.length, scenario.states.length - half);
+  });
+
+  test('a completed game is ignored by later states', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'concession')!;
+    let calls = 0;
+    const rec = new GameRecorder(scenario.states[0].id, () => { calls++; });
+    scenario.states.forEach((s) => rec.ingest(s));
+    assert.equal(rec.ingest(scenario.states[scenario.states.length - 1]), true);
+    assert.equal(calls, 1);
+    assert.equal(rec.finalizeIncomplete(), null);
+  });
+});
+
+describe('GameRecorder live view', () => {
+  test('shows once the local player is known, and never to a spectator', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'premier-win')!;
+    const rec = new GameRecorder(scenario.states[0].id, () => {});
+    rec.ingest(scenario.states[0]);
+    assert.equal(rec.getLiveView()?.players[0].name, 'Alice');
+
+    const spectated = SCENARIOS.find((s) => s.name === 'spectating')!;
+    const watcher = new GameRecorder(spectated.states[0].id, () => {});
+    watcher.ingest(spectated.states[0]);
+    assert.equal(watcher.getLiveView(), null);
+  });
+});
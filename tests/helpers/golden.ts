@@ -0,0 +1,25 @@
+/**
+ * golden.ts
+ *
+ * Compares a value against tests/golden/<name>.json. Run the suite with
+ * UPDATE_GOLDEN=1 to (re)write the files, then review the diff before
+ * committing — the golden files are the spec.
+ */
+
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const GOLDEN_DIR = fileURLToPath(new URL('../golden/', import.meta.url));
+
+export function assertGolden(name: string, actual: unknown): void {
+  const file = `${GOLDEN_DIR}${name}.json`;
+  const json = JSON.stringify(actual, null, 2) + '\n';
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(file, json);
+    return;
+  }
+  assert.ok(existsSync(file), `missing golden file ${name}.json — run with UPDATE_GOLDEN=1 to create it`);
+  // Compare parsed JSON so undefined-valued properties don't count as a difference
+  assert.deepStrictEqual(JSON.parse(json), JSON.parse(readFileSync(file, 'utf8')));
+}
@@ -0,0 +1,14 @@
+/**
+ * quiet.ts
+ *
+ * The recorder logs every diff at debug level. Silence the chatty levels so
+ * test output stays readable; set KB_TEST_VERBOSE=1 to see them again.
+ */
+
+if (!process.env.KB_TEST_VERBOSE) {
+  console.debug = () => {};
+  console.log = () => {};
+  console.info = () => {};
+}
+
+export {};
@@ -0,0 +1,42 @@
+/**
+ * record.ts
+ *
+ * Runs a scenario through GameRecorder on a fixed clock so every timestamp
+ * in the resulting GameRecord is reproducible.
+ */
+
+import type { GameRecord, IGameState } from '../../src/shared/types';
+import { GameRecorder } from '../../src/shared/gameRecorder';
+import type { Scenario } from '../fixtures/scenarios';
+
+export const CLOCK_START = Date.parse('2026-01-01T18:00:00.000Z');
+/** Simulated time between two consecutive gamestate updates */
+export const CLOCK_STEP_MS = 30_000;
+
+export function frameTime(index: number): number {
+  return CLOCK_START + index * CLOCK_STEP_MS;
+}
+
+export function recordScenario(scenario: Scenario): GameRecord | null {
+  let now = frameTime(0);
+  let record: GameRecord | null = null;
+  const states: IGameState[] = scenario.states;
+  const recorder = new GameRecorder(states[0].id, (r) => { record = r; }, () => new Date(now));
+
+  for (let i = 0; i < states.length; i++) {
+    now = frameTime(i);
+    if (recorder.ingest(states[i])) break;
+  }
+  if (!record && scenario.finalizeIncomplete) record = recorder.finalizeIncomplete();
+  return record;
+}
+
+/**
+ * The golden files leave out the replay — it is every input state over
+ * again, and gameRecorder.test.ts checks it decodes back to them.
+ */
+export function withoutReplay(record: GameRecord | null): Omit<GameRecord, 'replay'> | null {
+  if (!record) return null;
+  const { replay: _replay, ...rest } = record;
+  return rest;
+}
@@ -0,0 +1,164 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLogEntries } from '../src/shared/logParser';
+import type { CardEvent, ChatMessagePart, IChatEntry } from '../src/shared/types';
+import { card, cardRef, playerRef, type ScriptPlayer } from './fixtures/gameScript';
+
+const ALICE: ScriptPlayer = {
+  id: 'p-alice',
+  name: 'Alice',
+  leader: card('alice-leader', 'han-solo#worth-the-risk', { type: 'leader' }),
+  base: card('alice-base', 'echo-base', { type: 'base', hp: 30 }),
+  deckSize: 50,
+};
+const BOB: ScriptPlayer = {
+  id: 'p-bob',
+  name: 'Bob',
+  leader: card('bob-leader', 'grand-moff-tarkin#oversector-governor', { type: 'leader' }),
+  base: card('bob-base', 'energy-conversion-lab', { type: 'base', hp: 30 }),
+  deckSize: 50,
+};
+const PLAYERS = [ALICE, BOB];
+
+const xwing = card('a1', 'alliance-xwing', { type: 'basicUnit' });
+const marine = card('a2', 'battlefield-marine', { type: 'basicUnit' });
+const tie = card('b1', 'tie-fighter', { type: 'basicUnit' });
+const trooper = card('b2', 'death-trooper', { type: 'basicUnit' });
+
+function entry(...parts: ChatMessagePart[]): IChatEntry {
+  return { date: '2026-01-01T18:00:00.000Z', message: { alert: { type: 'notification', message: parts } } };
+}
+
+function parse(...parts: ChatMessagePart[]): CardEvent[] {
+  return parseLogEntries('g1', 3, [entry(...parts)], PLAYERS);
+}
+
+/** The fields a rule decides — everything else is fixed by the call */
+function pick(events: CardEvent[]): Array<Pick<CardEvent, 'metric' | 'playerId' | 'cardId' | 'count' | 'targetCardId'>> {
+  return events.map(({ metric, playerId, cardId, count, targetCardId }) => ({ metric, playerId, cardId, count, targetCardId }));
+}
+
+describe('parseLogEntries — attacks and damage', () => {
+  test('attack names the attacker and the defender', () => {
+    const events = parse(playerRef(ALICE), 'attacks', playerRef(BOB), "'s", cardRef(tie), 'with', cardRef(xwing));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'attacked', playerId: ALICE.id, cardId: xwing.id, count: 1, targetCardId: tie.id },
+    ]);
+  });
+
+  test('"uses X to attack" is an attack, not an activation', () => {
+    const events = parse(playerRef(ALICE), 'uses', cardRef(marine), 'to attack', cardRef(trooper));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'attacked', playerId: ALICE.id, cardId: marine.id, count: 1, targetCardId: trooper.id },
+    ]);
+  });
+
+  test('damage counts the amount dealt', () => {
+    const events = parse(cardRef(xwing, ALICE), 'deals', 3, 'damage to', cardRef(tie, BOB));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'dealtDamage', playerId: ALICE.id, cardId: xwing.id, count: 3, targetCardId: tie.id },
+    ]);
+  });
+
+  test('damage without a controller on the card is skipped', () => {
+    assert.deepStrictEqual(parse(cardRef(xwing), 'deals', 3, 'damage to', cardRef(tie)), []);
+  });
+
+  test('heal counts the amount healed, and the ability use still counts as an activation', () => {
+    const events = parse(playerRef(ALICE), 'uses', cardRef(ALICE.leader), 'to heal 2 damage from', cardRef(marine));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'healed', playerId: ALICE.id, cardId: ALICE.leader.id, count: 2, targetCardId: marine.id },
+      { metric: 'activated', playerId: ALICE.id, cardId: ALICE.leader.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('"uses <leader> to deal N damage" is damage and an activation', () => {
+    const events = parse(playerRef(ALICE), 'uses', cardRef(ALICE.leader), 'to deal', 2, 'damage to', cardRef(tie));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'dealtDamage', playerId: ALICE.id, cardId: ALICE.leader.id, count: 2, targetCardId: tie.id },
+      { metric: 'activated', playerId: ALICE.id, cardId: ALICE.leader.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+});
+
+describe('parseLogEntries — defeats and captures', () => {
+  test('a defeat is credited to the defeated card\'s owner', () => {
+    const events = parse(playerRef(ALICE), 'uses', cardRef(xwing), 'to defeat', cardRef(tie));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'defeated', playerId: BOB.id, cardId: tie.id, count: 1, targetCardId: xwing.id },
+      { metric: 'activated', playerId: ALICE.id, cardId: xwing.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('a passive defeat uses the possessive owner', () => {
+    const events = parse(playerRef(BOB), "'s", cardRef(trooper), 'is defeated');
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'defeated', playerId: BOB.id, cardId: trooper.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('controllerId outranks the rule default', () => {
+    // Alice defeats her own unit
+    const events = parse(playerRef(ALICE), 'uses', cardRef(xwing), 'to defeat', cardRef(marine, ALICE));
+    assert.equal(events[0].playerId, ALICE.id);
+  });
+
+  test('capture names the captor as the target', () => {
+    const events = parse(cardRef(trooper, BOB), 'is captured by', cardRef(marine, ALICE));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'captured', playerId: BOB.id, cardId: trooper.id, count: 1, targetCardId: marine.id },
+    ]);
+  });
+
+  test('opponent-owned events are skipped without the player list, but the activation is kept', () => {
+    const events = parseLogEntries('g1', 3, [entry(playerRef(ALICE), 'uses', cardRef(xwing), 'to defeat', cardRef(tie))]);
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'activated', playerId: ALICE.id, cardId: xwing.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+});
+
+describe('parseLogEntries — keywords and leaders', () => {
+  test('smuggle and exploit plays', () => {
+    assert.deepStrictEqual(pick(parse(playerRef(ALICE), 'plays', cardRef(xwing), 'using Smuggle')), [
+      { metric: 'smuggled', playerId: ALICE.id, cardId: xwing.id, count: 1, targetCardId: undefined },
+    ]);
+    assert.deepStrictEqual(pick(parse(playerRef(BOB), 'plays', cardRef(trooper), 'using Exploit')), [
+      { metric: 'exploited', playerId: BOB.id, cardId: trooper.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('a collected bounty belongs to the unit that carried it', () => {
+    const events = parse(playerRef(ALICE), 'collects the bounty on', cardRef(trooper));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'bountyCollected', playerId: BOB.id, cardId: trooper.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('leader deploy', () => {
+    const events = parse(playerRef(BOB), 'deploys', cardRef(BOB.leader));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'deployed', playerId: BOB.id, cardId: BOB.leader.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('"uses X to deploy" is a deploy, not an activation', () => {
+    const events = parse(playerRef(BOB), 'uses', cardRef(BOB.leader), 'to deploy');
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'deployed', playerId: BOB.id, cardId: BOB.leader.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('leader abilities are still activations', () => {
+    const events = parse(playerRef(ALICE), 'uses', cardRef(ALICE.leader, ALICE));
+    assert.deepStrictEqual(pick(events), [
+      { metric: 'activated', playerId: ALICE.id, cardId: ALICE.leader.id, count: 1, targetCardId: undefined },
+    ]);
+  });
+
+  test('plain plays and unrelated messages produce nothing', () => {
+    assert.deepStrictEqual(parse(playerRef(ALICE), 'plays', cardRef(xwing)), []);
+    assert.deepStrictEqual(parse('Round 2 has started'), []);
+  });
+});
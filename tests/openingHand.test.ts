@@ -0,0 +1,52 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCENARIOS } from './fixtures/scenarios';
+import { recordScenario } from './helpers/record';
+import { isRedraw, isStillDealing } from '../src/shared/openingHand';
+import type { HandCard, IGameState } from '../src/shared/types';
+
+function hand(...uuids: string[]): HandCard[] {
+  return uuids.map((uuid) => ({ uuid, cardId: uuid, cardName: uuid }));
+}
+
+/** The mulligan scenario with Alice's first hand dealt three cards at a time */
+function splitDeal(): IGameState[] {
+  const states = SCENARIOS.find((s) => s.name === 'mulligan')!.states;
+  const partial = structuredClone(states[1]);
+  partial.newMessages = [];
+  const alice = Object.values(partial.players).find((p) => p.name === 'Alice')!;
+  alice.cardPiles.hand = alice.cardPiles.hand.slice(0, 3);
+  return [states[0], partial, ...states.slice(1)];
+}
+
+describe('opening hand helpers', () => {
+  test('a hand that only gained cards is still being dealt', () => {
+    assert.equal(isStillDealing(hand('a1', 'a2', 'a3'), hand('a1', 'a2', 'a3', 'a4')), true);
+    assert.equal(isStillDealing(hand('a1', 'a2'), hand('a1', 'a2')), false);
+    assert.equal(isStillDealing(hand('a1', 'a2'), hand('a1', 'a7', 'a8')), false);
+  });
+
+  test('a hand with a card the kept one lacked is a redraw', () => {
+    assert.equal(isRedraw(hand('a1', 'a2'), hand('a1', 'a7')), true);
+    assert.equal(isRedraw(hand('a1', 'a2'), hand('a1')), false);
+  });
+});
+
+describe('GameRecorder opening hand', () => {
+  test('a hand dealt over two updates is one draw, not a mulligan', () => {
+    const mulligan = SCENARIOS.find((s) => s.name === 'mulligan')!;
+    const states = splitDeal().slice(0, 3);
+    const record = recordScenario({ ...mulligan, states, finalizeIncomplete: true })!;
+    assert.equal(record.openingHand?.mulliganed, false);
+    assert.deepStrictEqual(record.openingHand?.drawn.map((c) => c.uuid), ['a1', 'a2', 'a3', 'a4', 'a5', 'a6']);
+  });
+
+  test('a real mulligan after a split deal keeps the full first hand', () => {
+    const mulligan = SCENARIOS.find((s) => s.name === 'mulligan')!;
+    const record = recordScenario({ ...mulligan, states: splitDeal() })!;
+    assert.equal(record.openingHand?.mulliganed, true);
+    assert.equal(record.openingHand?.drawn.length, 6);
+    assert.deepStrictEqual(record.openingHand?.kept.map((c) => c.uuid), ['a1', 'a7', 'a8', 'a9', 'a10', 'a11']);
+  });
+});
@@ -0,0 +1,46 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { card } from './fixtures/gameScript';
+import { buildSeenOpponentList } from '../src/shared/opponentList';
+import type { CardEvent, CardSummary, GamePlayer, PlayerSnapshot, RoundSnapshot, TimelineAction } from '../src/shared/types';
+
+const OPP = { id: 'p-bob', name: 'Bob', leaderId: 'darth-vader#dark-lord-of-the-sith', leaderName: 'Darth Vader' } as GamePlayer;
+
+function played(cardId: string, metric: CardEvent['metric'] = 'played'): CardEvent {
+  return { gameId: 'g1', roundNumber: 1, playerId: OPP.id, playerName: OPP.name, side: 'opponent', cardId, cardName: cardId, metric, count: 1 };
+}
+
+function board(groundArena: CardSummary[], discard: CardSummary[] = []): [PlayerSnapshot, PlayerSnapshot] {
+  const opp = { groundArena, spaceArena: [], discard } as unknown as PlayerSnapshot;
+  return [{} as PlayerSnapshot, opp];
+}
+
+function round(n: number, start: [PlayerSnapshot, PlayerSnapshot], after: [PlayerSnapshot, PlayerSnapshot][] = []): RoundSnapshot {
+  return { round: n, players: start, actions: after.map((players, i) => ({ turn: i + 1, players }) as TimelineAction) } as RoundSnapshot;
+}
+
+function copies(events: CardEvent[], snapshots: RoundSnapshot[]): Record<string, number> {
+  const list = buildSeenOpponentList('g1', OPP, events, snapshots);
+  return Object.fromEntries(list.cards.map((c) => [c.cardId, c.copies]));
+}
+
+describe('buildSeenOpponentList', () => {
+  test('one copy played twice is still one copy', () => {
+    const trooper = card('o1', 'death-star-stormtrooper');
+    const events = [played(trooper.id), played(trooper.id)];
+    assert.deepStrictEqual(copies(events, [round(1, board([trooper])), round(2, board([], [trooper]))]), { [trooper.id]: 1 });
+  });
+
+  test('copies are counted by uuid, from action boards too', () => {
+    const a = card('o1', 'death-star-stormtrooper');
+    const b = card('o2', 'death-star-stormtrooper');
+    assert.deepStrictEqual(copies([], [round(1, board([a]), [board([a, b])])]), { [a.id]: 2 });
+  });
+
+  test('plays stand in for copies only when no snapshot caught the card', () => {
+    const choke = 'force-choke';
+    assert.deepStrictEqual(copies([played(choke), played(choke)], []), { [choke]: 2 });
+    assert.deepStrictEqual(copies([played(choke, 'discarded')], []), { [choke]: 1 });
+  });
+});
@@ -0,0 +1,58 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isFlagged, resourceCurve, UNSPENT_FLAG_THRESHOLD, type RoundResources } from '../src/shared/resourceCurve';
+import type { PlayerSnapshot, RoundSnapshot, TimelineAction } from '../src/shared/types';
+
+/** A board that only carries the resource figures */
+function board(availableResources: number, totalResources = 0, credits = 0): PlayerSnapshot {
+  return { availableResources, totalResources, credits } as PlayerSnapshot;
+}
+
+/** A round whose action timeline ends on each of `after` in turn; no timeline when omitted */
+function round(n: number, start: [PlayerSnapshot, PlayerSnapshot], after?: [PlayerSnapshot, PlayerSnapshot][]): RoundSnapshot {
+  const actions = after?.map((players, i) => ({ turn: i + 1, players }) as TimelineAction);
+  return { round: n, players: start, ...(actions ? { actions } : {}) } as RoundSnapshot;
+}
+
+describe('resourceCurve', () => {
+  test('reads each round from its start and what was left after its last action', () => {
+    const snaps = [
+      round(1, [board(2, 2), board(2, 2)], [[board(0, 2), board(2, 2)], [board(0, 2), board(1, 2)]]),
+      round(2, [board(3, 3, 1), board(3, 3)], [[board(2, 3, 1), board(3, 3)]]),
+      round(3, [board(4, 4), board(4, 4)], [[board(0, 4), board(4, 4)]]),
+    ];
+    assert.deepStrictEqual(resourceCurve(snaps, 0), [
+      { round: 1, total: 2, available: 2, credits: 0, unspent: 0 },
+      { round: 2, total: 3, available: 3, credits: 1, unspent: 2 },
+      // The game ended before the final round did
+      { round: 3, total: 4, available: 4, credits: 0, unspent: null },
+    ]);
+    assert.deepStrictEqual(resourceCurve(snaps, 1).map((r) => r.unspent), [1, 3, null]);
+  });
+
+  test('a round with no actions left everything unspent', () => {
+    const snaps = [round(1, [board(2, 2), board(2, 2)], []), round(2, [board(3, 3), board(3, 3)], [])];
+    assert.equal(resourceCurve(snaps, 0)[0].unspent, 2);
+  });
+
+  test('games recorded before the action timeline have no unspent figure', () => {
+    const snaps = [round(1, [board(2, 2), board(2, 2)]), round(2, [board(3, 3), board(3, 3)])];
+    assert.deepStrictEqual(resourceCurve(snaps, 0).map((r) => r.unspent), [null, null]);
+  });
+});
+
+describe('isFlagged', () => {
+  const at = (unspent: number | null): RoundResources => ({ round: 1, total: 5, available: 5, credits: 0, unspent });
+
+  test('flags rounds ending with the threshold or more ready resources', () => {
+    assert.equal(UNSPENT_FLAG_THRESHOLD, 2);
+    assert.equal(isFlagged(at(UNSPENT_FLAG_THRESHOLD)), true);
+    assert.equal(isFlagged(at(UNSPENT_FLAG_THRESHOLD + 3)), true);
+    assert.equal(isFlagged(at(UNSPENT_FLAG_THRESHOLD - 1)), false);
+  });
+
+  test('a round without an unspent figure is never flagged', () => {
+    assert.equal(isFlagged(at(null)), false);
+  });
+});
@@ -0,0 +1,47 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCENARIOS } from './fixtures/scenarios';
+import { assertGolden } from './helpers/golden';
+import { frameTime, withoutReplay } from './helpers/record';
+import { replayFrames } from '../src/shared/sessionReplayer';
+import type { CapturedFrame } from '../src/shared/types';
+
+/** Encodes states as the Socket.IO text frames Karabast sends, with noise in between. */
+function toFrames(states: unknown[]): CapturedFrame[] {
+  const frames: CapturedFrame[] = [{ t: frameTime(0), data: '0{"sid":"abc","pingInterval":25000}' }];
+  states.forEach((state, i) => {
+    frames.push({ t: frameTime(i), data: `42${JSON.stringify(['gamestate', state])}` });
+    frames.push({ t: frameTime(i), data: '2' });
+  });
+  return frames;
+}
+
+describe('replayFrames', () => {
+  for (const scenario of SCENARIOS) {
+    test(`${scenario.name} replays to the golden record`, () => {
+      const { records, stateFrames } = replayFrames(toFrames(scenario.states));
+      assert.equal(stateFrames, scenario.states.length);
+      assertGolden(scenario.name, withoutReplay(records[0] ?? null));
+    });
+  }
+
+  test('a capture with several games yields one record per game', () => {
+    const frames = SCENARIOS.flatMap((s) => toFrames(s.states));
+    const { records } = replayFrames(frames);
+    // The spectated game is dropped; abandoned ones are closed as a timeout win or incomplete
+    assert.deepStrictEqual(
+      records.map((r) => [r.gameId, r.incomplete ?? false]),
+      [
+        ['game-premier-win', false],
+        ['game-leader-deploys', false],
+        ['game-mulligan', false],
+        ['game-draw', false],
+        ['game-concession', false],
+        ['game-opponent-left', false],
+        ['game-opponent-timeout', false],
+        ['game-limited-abandoned', true],
+      ]
+    );
+  });
+});
@@ -0,0 +1,30 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCENARIOS } from './fixtures/scenarios';
+import { recordScenario } from './helpers/record';
+import { packSnapshots, unpackSnapshots } from '../src/shared/snapshotPacking';
+
+const recorded = SCENARIOS
+  .map((scenario) => ({ name: scenario.name, record: recordScenario(scenario) }))
+  .filter((r) => r.record !== null);
+
+describe('packSnapshots / unpackSnapshots', () => {
+  for (const { name, record } of recorded) {
+    test(`round-trips ${name}`, () => {
+      const packed = packSnapshots(record!.gameId, record!.snapshots);
+      assert.deepStrictEqual(unpackSnapshots(packed), record!.snapshots);
+    });
+  }
+
+  test('a game with an action timeline packs to under 60% of its plain size', () => {
+    const record = recorded.find((r) => r.name === 'premier-win')!.record!;
+    const plain = JSON.stringify({ gameId: record.gameId, snapshots: record.snapshots }).length;
+    const packed = JSON.stringify(packSnapshots(record.gameId, record.snapshots)).length;
+    assert.ok(packed < plain * 0.6, `packed ${packed} chars vs plain ${plain}`);
+  });
+
+  test('no snapshots', () => {
+    assert.deepStrictEqual(unpackSnapshots(packSnapshots('g1', [])), []);
+  });
+});
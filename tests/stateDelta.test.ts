@@ -0,0 +1,47 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyPatch, decodeSeries, diffValues, encodeSeries } from '../src/shared/stateDelta';
+
+describe('diffValues / applyPatch', () => {
+  const cases: Array<[string, unknown, unknown]> = [
+    ['changed leaf', { a: 1, b: { c: 2 } }, { a: 1, b: { c: 3 } }],
+    ['added and removed keys', { a: 1, gone: true }, { a: 1, added: [1, 2] }],
+    ['same-length array', [{ id: 'x', damage: 0 }, { id: 'y' }], [{ id: 'x', damage: 2 }, { id: 'y' }]],
+    ['array that changed length', { hand: [1, 2, 3] }, { hand: [1, 3] }],
+    ['object replaced by null', { leader: { id: 'l' } }, { leader: null }],
+    ['root replaced', [1], 'text'],
+  ];
+  for (const [name, a, b] of cases) {
+    test(name, () => {
+      assert.deepStrictEqual(applyPatch(a, diffValues(a, b)), b);
+    });
+  }
+
+  test('only the changed path is recorded', () => {
+    assert.deepStrictEqual(
+      diffValues({ p: { hp: 30, damage: 1 }, q: [1, 2] }, { p: { hp: 30, damage: 4 }, q: [1, 2] }),
+      [[['p', 'damage'], 4]]
+    );
+  });
+
+  test('the patched value shares nothing with the input', () => {
+    const a = { pile: [{ id: 'x' }] };
+    const out = applyPatch(a, []);
+    out.pile[0].id = 'changed';
+    assert.equal(a.pile[0].id, 'x');
+  });
+});
+
+describe('encodeSeries / decodeSeries', () => {
+  test('round-trips a series', () => {
+    const values = [{ n: 0, arr: [] as number[] }, { n: 1, arr: [1] }, { n: 1, arr: [1, 2] }, { n: 2, arr: [1, 2] }];
+    const series = encodeSeries(values);
+    assert.equal(series.patches.length, 3);
+    assert.deepStrictEqual(decodeSeries(series), values);
+  });
+
+  test('empty series', () => {
+    assert.deepStrictEqual(decodeSeries(encodeSeries([])), []);
+  });
+});
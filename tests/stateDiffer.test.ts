@@ -0,0 +1,194 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffSnapshots } from '../src/shared/stateDiffer';
+import type { CardEvent, CardSummary } from '../src/shared/types';
+import { GameScript, card, type ScriptPlayer } from './fixtures/gameScript';
+
+const YOU: ScriptPlayer = {
+  id: 'p-you',
+  name: 'You',
+  leader: card('you-leader', 'leia-organa#defiant-princess', { type: 'leader' }),
+  base: card('you-base', 'dagobah-swamp', { type: 'base', hp: 30 }),
+  deckSize: 40,
+};
+const OPP: ScriptPlayer = {
+  id: 'p-opp',
+  name: 'Opp',
+  leader: card('opp-leader', 'boba-fett#collecting-the-bounty', { type: 'leader' }),
+  base: card('opp-base', 'kestro-city', { type: 'base', hp: 30 }),
+  deckSize: 40,
+};
+
+const marine = card('y1', 'battlefield-marine', { type: 'basicUnit' });
+const vanquish = card('y2', 'vanquish', { type: 'event' });
+const pathfinder = card('y3', 'rebel-pathfinder', { type: 'basicUnit' });
+
+function script(): GameScript {
+  return new GameScript({ gameId: 'g1', playerUpdate: YOU.id, players: [YOU, OPP] })
+    .phase('action')
+    .draw(YOU.id, marine, vanquish, pathfinder)
+    .drawHidden(OPP.id, 'o1', 'o2', 'o3');
+}
+
+/** Diffs the last two emitted states from the local player's point of view. */
+function diff(s: GameScript): CardEvent[] {
+  const [prev, next] = s.states.slice(-2);
+  return diffSnapshots(prev, next, { gameId: 'g1', roundNumber: 2, localPlayerId: YOU.id });
+}
+
+function ev(
+  player: ScriptPlayer,
+  side: CardEvent['side'],
+  c: Pick<CardSummary, 'id' | 'name'>,
+  metric: CardEvent['metric'],
+  count = 1
+): CardEvent {
+  return {
+    gameId: 'g1',
+    roundNumber: 2,
+    playerId: player.id,
+    playerName: player.name,
+    side,
+    cardId: c.id,
+    cardName: c.name!,
+    cardSetId: undefined,
+    metric,
+    count,
+  };
+}
+
+describe('diffSnapshots — local player', () => {
+  test('unit from hand to arena is played', () => {
+    const s = script().emit().move(YOU.id, 'y1', 'hand', 'groundArena').emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', marine, 'played')]);
+  });
+
+  test('event from hand to discard is played, not discarded', () => {
+    const s = script().emit().move(YOU.id, 'y2', 'hand', 'discard').emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', vanquish, 'played')]);
+  });
+
+  test('card from hand to resources is resourced', () => {
+    const s = script().emit().move(YOU.id, 'y3', 'hand', 'resources').emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', pathfinder, 'resourced')]);
+  });
+
+  test('defeated unit is discarded', () => {
+    const s = script().move(YOU.id, 'y1', 'hand', 'groundArena').emit()
+      .move(YOU.id, 'y1', 'groundArena', 'discard').emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', marine, 'discarded')]);
+  });
+
+  test('draws name each new card in hand', () => {
+    const wing = card('y4', 'wing-leader', { type: 'basicUnit' });
+    const s = script().emit().draw(YOU.id, wing).emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', wing, 'drawn')]);
+  });
+});
+
+describe('diffSnapshots — opponent', () => {
+  const tie = card('o1', 'tie-fighter', { type: 'basicUnit' });
+  const choke = card('o2', 'force-choke', { type: 'event' });
+
+  test('new arena unit is played', () => {
+    const s = script().emit().move(OPP.id, 'o1', 'hand', 'spaceArena', tie).emit();
+    assert.deepStrictEqual(diff(s), [ev(OPP, 'opponent', tie, 'played')]);
+  });
+
+  test('event from the face-down hand is played', () => {
+    const s = script().emit().move(OPP.id, 'o2', 'hand', 'discard', choke).emit();
+    assert.deepStrictEqual(diff(s), [ev(OPP, 'opponent', choke, 'played')]);
+  });
+
+  test('a unit discarded from the hand is not played', () => {
+    const s = script().emit().move(OPP.id, 'o1', 'hand', 'discard', tie).emit();
+    assert.deepStrictEqual(diff(s), [ev(OPP, 'opponent', tie, 'discarded')]);
+  });
+
+  test('unit defeated from the arena is discarded', () => {
+    const s = script().move(OPP.id, 'o1', 'hand', 'spaceArena', tie).emit()
+      .move(OPP.id, 'o1', 'spaceArena', 'discard').emit();
+    assert.deepStrictEqual(diff(s), [ev(OPP, 'opponent', tie, 'discarded')]);
+  });
+
+  test('tokens, the deployed leader and rescued captives are not plays', () => {
+    const captive = card('c1', 'seventh-sister', { type: 'basicUnit' });
+    const trooper = card('tok1', 'clone-trooper', { type: 'tokenUnit' });
+    const s = script()
+      .put(YOU.id, 'groundArena', card('y9', 'bounty-hunter-crew', { type: 'basicUnit', capturedUnits: [captive] }))
+      .emit()
+      .put(OPP.id, 'groundArena', trooper)
+      .put(OPP.id, 'groundArena', { ...OPP.leader, deployed: true })
+      .rescue(OPP.id, 'c1', 'groundArena')
+      .emit();
+    assert.deepStrictEqual(diff(s), [ev(OPP, 'opponent', trooper, 'tokenCreated'), ev(OPP, 'opponent', captive, 'rescued')]);
+  });
+
+  test('draws are counted but not named', () => {
+    const s = script().emit().drawHidden(OPP.id, 'o4', 'o5').emit();
+    assert.deepStrictEqual(diff(s), [{
+      gameId: 'g1',
+      roundNumber: 2,
+      playerId: OPP.id,
+      playerName: OPP.name,
+      side: 'opponent',
+      cardId: '__unknown__',
+      cardName: '(unknown)',
+      metric: 'drawn',
+      count: 2,
+    }]);
+  });
+});
+
+describe('diffSnapshots — upgrades, tokens and captives', () => {
+  const tie = card('o1', 'tie-fighter', { type: 'basicUnit' });
+  const armor = card('y5', 'jedi-lightsaber', { type: 'upgrade' });
+  const bounty = card('o2', 'death-mark', { type: 'upgrade' });
+
+  function board(): GameScript {
+    return script()
+      .draw(YOU.id, armor)
+      .move(YOU.id, 'y1', 'hand', 'groundArena')
+      .move(OPP.id, 'o1', 'hand', 'spaceArena', tie);
+  }
+
+  test('an upgrade from your hand is played and attached', () => {
+    const s = board().emit().attach(YOU.id, 'y5', 'hand', 'y1').emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', armor, 'played'), ev(YOU, 'you', armor, 'attached')]);
+  });
+
+  test("the opponent's upgrade on your unit is theirs", () => {
+    const s = board().emit().attach(OPP.id, 'o2', 'hand', 'y1', bounty).emit();
+    assert.deepStrictEqual(diff(s), [ev(OPP, 'opponent', bounty, 'played'), ev(OPP, 'opponent', bounty, 'attached')]);
+  });
+
+  test('an upgrade from the discard is attached but not played', () => {
+    const s = board().move(YOU.id, 'y5', 'hand', 'discard').emit().attach(YOU.id, 'y5', 'discard', 'y1').emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', armor, 'attached')]);
+  });
+
+  test('shields, experience and credits are tokens of the unit or pile controller', () => {
+    const shield = card('t1', 'shield', { type: 'tokenUpgrade' });
+    const experience = card('t2', 'experience', { type: 'tokenUpgrade' });
+    const credit = card('t3', 'credit', { type: 'token' });
+    const s = board().emit()
+      .upgrade('y1', shield)
+      .upgrade('o1', experience)
+      .credit(YOU.id, credit)
+      .credit(YOU.id, card('t4', 'credit', { type: 'token' }))
+      .emit();
+    assert.deepStrictEqual(diff(s), [
+      ev(YOU, 'you', shield, 'tokenCreated'),
+      ev(YOU, 'you', card('t4', 'credit'), 'tokenCreated', 2),
+      ev(OPP, 'opponent', experience, 'tokenCreated'),
+    ]);
+  });
+
+  test('a capture is credited to the captor, an upgrade moved between units is not new', () => {
+    const s = board().attach(YOU.id, 'y5', 'hand', 'y1').emit()
+      .capture(OPP.id, 'o1', 'spaceArena', 'y1')
+      .emit();
+    assert.deepStrictEqual(diff(s), [ev(YOU, 'you', marine, 'tookCaptive')]);
+  });
+});
@@ -0,0 +1,103 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCENARIOS } from './fixtures/scenarios';
+import { card } from './fixtures/gameScript';
+import { recordScenario } from './helpers/record';
+import { cardsAccountedFor, reconcileCounts } from '../src/shared/tracking';
+import type { PlayerStateSummary } from '../src/shared/types';
+
+function player(numCardsInDeck: number, piles: Partial<PlayerStateSummary['cardPiles']>): PlayerStateSummary {
+  return {
+    id: 'p1',
+    name: 'Alice',
+    cardPiles: { hand: [], resources: [], groundArena: [], spaceArena: [], discard: [], outsideTheGame: [], capturedZone: [], ...piles },
+    leader: card('leader', 'luke-skywalker#faithful-friend', { type: 'leader' }),
+    base: card('base', 'echo-base', { type: 'base' }),
+    numCardsInDeck,
+    availableResources: 0,
+    hasInitiative: false,
+    aspects: [],
+    phase: 'action',
+    disconnected: false,
+    left: false,
+  };
+}
+
+describe('cardsAccountedFor', () => {
+  test('adds the deck to every pile, upgrades and captives', () => {
+    const ps = player(40, {
+      hand: [card('h1', 'repair'), { uuid: 'h2', id: '', facedown: true }],
+      resources: [card('r1', 'waylay'), card('r2', 'vanquish')],
+      discard: [card('d1', 'force-choke')],
+      groundArena: [card('u1', 'battlefield-marine', {
+        upgrades: [card('up1', 'academy-training'), card('sh1', 'shield', { type: 'tokenUpgrade' })],
+        capturedUnits: [card('c1', 'tie-fighter')],
+      })],
+    });
+    assert.equal(cardsAccountedFor(ps), 40 + 2 + 2 + 1 + 1 + 1 + 1);
+  });
+
+  test('leaves out the deployed leader and tokens, and counts a card listed twice once', () => {
+    const captive = card('c1', 'tie-fighter');
+    const ps = player(48, {
+      groundArena: [{ ...card('leader', 'luke-skywalker#faithful-friend'), deployed: true }, card('t1', 'clone-trooper', { type: 'tokenUnit' })],
+      spaceArena: [card('u1', 'alliance-xwing', { capturedUnits: [captive] })],
+      capturedZone: [captive],
+    });
+    assert.equal(cardsAccountedFor(ps), 50);
+  });
+});
+
+describe('reconcileCounts', () => {
+  test('flags counts that are off and scores the share that matched', () => {
+    const report = reconcileCounts([50, 50], [
+      { round: 1, counts: [50, 50] },
+      { round: 2, counts: [50, 49] },
+      { round: 2, atEnd: true, counts: [51, 48] },
+    ]);
+    assert.deepStrictEqual(report.drifts, [
+      { round: 2, drift: [0, -1] },
+      { round: 2, atEnd: true, drift: [1, -2] },
+    ]);
+    assert.equal(report.checks, 3);
+    assert.equal(report.confidence, 3 / 6);
+  });
+
+  test('a card that changed sides is not drift', () => {
+    assert.deepStrictEqual(reconcileCounts([50, 50], [{ round: 3, counts: [51, 49] }]), { confidence: 1, checks: 1, drifts: [] });
+  });
+
+  test('no counts means nothing to doubt', () => {
+    assert.equal(reconcileCounts([50, 50], []).confidence, 1);
+  });
+});
+
+describe('GameRecorder tracking', () => {
+  test('a state that loses a card lowers the confidence', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'premier-win')!;
+    // The opponent's deck shrinks from round 2 on without the card showing up anywhere
+    const roundStarts = scenario.states.flatMap((s, i) =>
+      i > 0 && s.phase === 'action' && scenario.states[i - 1].phase !== 'action' ? [i] : []);
+    const round2 = roundStarts[1];
+    const states = scenario.states.map((s, i) => {
+      if (i < round2) return s;
+      const copy = structuredClone(s);
+      copy.players['p-bob'].numCardsInDeck -= 1;
+      return copy;
+    });
+    const record = recordScenario({ ...scenario, states })!;
+    assert.equal(record.tracking!.drifts.length, 2);
+    assert.deepStrictEqual(record.tracking!.drifts.map((d) => d.drift), [[0, -1], [0, -1]]);
+    assert.equal(record.tracking!.confidence, 4 / 6);
+  });
+
+  test('a first state without card piles falls back to the deck count', () => {
+    const scenario = SCENARIOS.find((s) => s.name === 'premier-win')!;
+    const bare = structuredClone(scenario.states[0]);
+    for (const p of Object.values(bare.players)) delete (p as Partial<PlayerStateSummary>).cardPiles;
+    const record = recordScenario({ ...scenario, states: [bare, ...scenario.states] })!;
+    assert.ok(record);
+    assert.deepStrictEqual(record.players.map((p) => p.deckSize), [50, 50]);
+  });
+});
@@ -0,0 +1,57 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { gamesPerWeek, inDateRange, rollingWinRate, weekStart } from '../src/shared/trends';
+
+/** ISO timestamp for a local date and hour, so the tests hold in any time zone */
+function at(day: string, hour = 12): string {
+  return new Date(`${day}T${String(hour).padStart(2, '0')}:00:00`).toISOString();
+}
+
+describe('inDateRange', () => {
+  test('both ends are inclusive whole days', () => {
+    const range = { from: '2026-03-02', to: '2026-03-04' };
+    assert.equal(inDateRange(at('2026-03-02', 0), range), true);
+    assert.equal(inDateRange(at('2026-03-04', 23), range), true);
+    assert.equal(inDateRange(at('2026-03-01', 23), range), false);
+    assert.equal(inDateRange(at('2026-03-05', 0), range), false);
+  });
+
+  test('open ends and no range', () => {
+    assert.equal(inDateRange(at('2020-01-01'), { to: '2026-03-04' }), true);
+    assert.equal(inDateRange(at('2030-01-01'), { from: '2026-03-02' }), true);
+    assert.equal(inDateRange(at('2030-01-01')), true);
+  });
+});
+
+describe('rollingWinRate', () => {
+  test('averages the last N results once N games exist', () => {
+    assert.deepStrictEqual(rollingWinRate([true, true, false, false, true], 2), [1, 1, 0.5, 0, 0.5]);
+  });
+
+  test('averages everything so far before the window fills', () => {
+    assert.deepStrictEqual(rollingWinRate([true, false, false], 10), [1, 0.5, 1 / 3]);
+  });
+});
+
+describe('gamesPerWeek', () => {
+  test('weeks start on Monday', () => {
+    // 2026-03-04 is a Wednesday, 2026-03-08 a Sunday
+    assert.equal(weekStart(at('2026-03-04')), '2026-03-02');
+    assert.equal(weekStart(at('2026-03-08', 23)), '2026-03-02');
+    assert.equal(weekStart(at('2026-03-09', 0)), '2026-03-09');
+  });
+
+  test('counts games and fills empty weeks', () => {
+    const weeks = gamesPerWeek([at('2026-03-03'), at('2026-03-04'), at('2026-03-18')]);
+    assert.deepStrictEqual(weeks, [
+      { week: '2026-03-02', games: 2 },
+      { week: '2026-03-09', games: 0 },
+      { week: '2026-03-16', games: 1 },
+    ]);
+  });
+
+  test('no games', () => {
+    assert.deepStrictEqual(gamesPerWeek([]), []);
+  });
+});
@@ -0,0 +1,54 @@
+import './helpers/quiet';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { wilsonInterval, winRateDifference } from '../src/shared/winStats';
+
+describe('winRateDifference', () => {
+  test('delta is the raw difference between the two win rates', () => {
+    const diff = winRateDifference({ wins: 6, games: 10 }, { wins: 2, games: 10 })!;
+    assert.ok(Math.abs(diff.delta - 0.4) < 1e-9);
+    assert.ok(diff.low < diff.delta && diff.delta < diff.high);
+  });
+
+  test('a perfect split on a tiny sample still has a wide interval', () => {
+    const diff = winRateDifference({ wins: 3, games: 3 }, { wins: 0, games: 3 })!;
+    assert.equal(diff.delta, 1);
+    assert.ok(diff.low < 0.6, `low ${diff.low}`);
+    assert.ok(diff.high <= 1);
+  });
+
+  test('the interval narrows as games accumulate', () => {
+    const small = winRateDifference({ wins: 6, games: 10 }, { wins: 4, games: 10 })!;
+    const large = winRateDifference({ wins: 60, games: 100 }, { wins: 40, games: 100 })!;
+    assert.ok(large.high - large.low < small.high - small.low);
+    assert.ok(large.low > 0);
+  });
+
+  test('no games on either side', () => {
+    assert.equal(winRateDifference({ wins: 0, games: 0 }, { wins: 1, games: 2 }), null);
+    assert.equal(winRateDifference({ wins: 1, games: 2 }, { wins: 0, games: 0 }), null);
+  });
+});
+
+describe('wilsonInterval', () => {
+  test('brackets the observed win rate', () => {
+    const { low, high } = wilsonInterval(7, 10);
+    assert.ok(low < 0.7 && 0.7 < high);
+    assert.ok(Math.abs(low - 0.397) < 0.001, `low ${low}`);
+    assert.ok(Math.abs(high - 0.892) < 0.001, `high ${high}`);
+  });
+
+  test('a clean sweep still has room below 100%', () => {
+    const { low, high } = wilsonInterval(2, 2);
+    assert.equal(high, 1);
+    assert.ok(low > 0.3 && low < 0.4, `low ${low}`);
+  });
+
+  test('ranks a long good record above a short perfect one by lower bound', () => {
+    assert.ok(wilsonInterval(30, 40).low > wilsonInterval(2, 2).low);
+  });
+
+  test('no games spans everything', () => {
+    assert.deepStrictEqual(wilsonInterval(0, 0), { low: 0, high: 1 });
+  });
+});